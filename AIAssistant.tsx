@@ -22,27 +22,82 @@ import {
   AlertCircle,
   Copy,
   ThumbsUp,
-  ThumbsDown
+  ThumbsDown,
+  Square,
+  Wrench,
+  XCircle
 } from "lucide-react";
-import { aiAPI, handleAPIError } from '../utils/api';
+import { aiAPI, conversationsAPI, handleAPIError } from '../utils/api';
+import { formatDuration, isRecordingSupported, useVoiceRecorder } from '../utils/voice-recorder';
+import { ConversationSidebar, ConversationSummary } from "./ConversationSidebar";
+
+interface ToolCall {
+  id: string;
+  tool: string;
+  summary: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'rejected';
+  result?: { summary: string };
+  error?: string;
+}
+
+interface Source {
+  ref: number;
+  id: string;
+  kind: 'capture' | 'task' | 'project';
+  title: string;
+  snippet: string;
+  link: { tab: string; id: string };
+}
+
+interface MessageAction {
+  label: string;
+  type: string;
+  // Set for actions that run through the assistant's tools after confirmation
+  tool?: string;
+  args?: Record<string, any>;
+}
 
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: string;
-  actions?: Array<{ label: string; type: string }>;
+  actions?: MessageAction[];
+  // Operations the assistant proposed; each waits for the user to confirm it
+  toolCalls?: ToolCall[];
+  // The user's items the reply cites as [n]
+  sources?: Source[];
   suggestions?: string[];
   loading?: boolean;
+  // Still receiving text from the stream
+  streaming?: boolean;
+  // Generation was stopped before the reply finished
+  interrupted?: boolean;
+  // The stored message's id, once the server has saved it; needed to rate it
+  messageId?: string;
+  feedback?: { rating: 'positive' | 'negative'; reason?: string };
 }
 
-export function AIAssistant() {
+interface AIAssistantProps {
+  // Opens the tab a cited source lives on, highlighting the record with that id
+  onNavigate?: (tab: string, id?: string) => void;
+}
+
+export function AIAssistant({ onNavigate }: AIAssistantProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const [isListening, setIsListening] = useState(false);
+  const recorder = useVoiceRecorder();
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  // null until the first message of a new thread is sent
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  // The reply a thumbs down was just given to, while asking what was wrong with it
+  const [reasonFor, setReasonFor] = useState<string | null>(null);
+  const [reasonText, setReasonText] = useState("");
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const quickActions = [
     { icon: Calendar, label: "What's my schedule?", query: "show my schedule for today" },
@@ -52,8 +107,12 @@ export function AIAssistant() {
   ];
 
   useEffect(() => {
-    // Load initial conversation or show welcome message
+    // Load saved threads and start on a fresh one with a welcome message
+    loadConversations();
     loadInitialMessage();
+
+    // Stop any reply still streaming when leaving the assistant
+    return () => abortRef.current?.abort();
   }, []);
 
   useEffect(() => {
@@ -94,6 +153,65 @@ How can I help you optimize your day?`,
     }
   };
 
+  const loadConversations = async () => {
+    const response = await conversationsAPI.getConversations();
+    setConversations(response.conversations || []);
+  };
+
+  // Puts a thread at the top of the list, replacing its old entry
+  const upsertConversation = (conversation: ConversationSummary) => {
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+  };
+
+  const startNewConversation = () => {
+    abortRef.current?.abort();
+    setActiveConversationId(null);
+    setError("");
+    loadInitialMessage();
+  };
+
+  const selectConversation = async (conversationId: string) => {
+    abortRef.current?.abort();
+    try {
+      const { conversation, messages: stored } = await conversationsAPI.getConversation(conversationId);
+      setActiveConversationId(conversation.id);
+      setError("");
+      setMessages(stored.map((message: any, index: number) => ({
+        id: `${conversation.id}-${index}`,
+        type: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        interrupted: message.interrupted,
+        sources: message.sources,
+        messageId: message.id,
+        feedback: message.feedback
+      })));
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
+  };
+
+  const renameConversation = async (conversationId: string, title: string) => {
+    try {
+      const { conversation } = await conversationsAPI.renameConversation(conversationId, title);
+      setConversations(prev => prev.map(c => c.id === conversationId ? conversation : c));
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      await conversationsAPI.deleteConversation(conversationId);
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      if (conversationId === activeConversationId) {
+        startNewConversation();
+      }
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -110,48 +228,144 @@ How can I help you optimize your day?`,
     setIsLoading(true);
     setError("");
 
+    const assistantId = `assistant-${Date.now()}`;
+    const updateAssistant = (update: (message: Message) => Partial<Message>) =>
+      setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, ...update(m) } : m));
+
+    // The reply is rendered as it streams in, starting from an empty bubble
+    setMessages(prev => [...prev, {
+      id: assistantId,
+      type: 'assistant',
+      content: '',
+      timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      streaming: true
+    }]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Create the thread up front so a reply stopped before it finishes still has a home
+    let conversationId = activeConversationId;
+    if (!conversationId) {
+      try {
+        const { conversation } = await conversationsAPI.createConversation();
+        conversationId = conversation.id;
+        setActiveConversationId(conversationId);
+        upsertConversation(conversation);
+      } catch (err) {
+        // Demo mode has no threads; the message is still answered
+      }
+    }
+
     try {
-      const response = await aiAPI.sendMessage(currentInput, {
+      const response = await aiAPI.streamMessage(currentInput, {
         conversationHistory: messages.slice(-5), // Send last 5 messages for context
         source: 'chat_interface'
+      }, {
+        conversationId: conversationId || undefined,
+        signal: controller.signal,
+        onDelta: (text) => updateAssistant(m => ({ content: m.content + text }))
       });
 
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        type: 'assistant',
-        content: response.message?.content || "I apologize, but I couldn't process that request right now.",
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      updateAssistant(m => ({
+        content: m.content || "I apologize, but I couldn't process that request right now.",
+        streaming: false,
+        interrupted: response.interrupted,
         actions: response.actions || [],
-        suggestions: response.suggestions || []
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+        suggestions: response.suggestions || [],
+        toolCalls: response.toolCalls || [],
+        sources: response.message?.sources || [],
+        messageId: response.message?.id
+      }));
+      if (response.conversation) {
+        upsertConversation(response.conversation);
+      }
 
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the stop; the server saved the same text
+        setMessages(prev => prev
+          .map(m => m.id === assistantId ? { ...m, streaming: false, interrupted: true } : m)
+          .filter(m => m.id !== assistantId || m.content));
+        loadConversations();
+        return;
+      }
+
       setError(handleAPIError(err));
       
       // Add fallback response
-      const fallbackMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        type: 'assistant',
-        content: "I'm having trouble connecting right now, but I can help you with that! Based on your question, here are some suggestions I can offer.",
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      updateAssistant(m => ({
+        content: m.content || "I'm having trouble connecting right now, but I can help you with that! Based on your question, here are some suggestions I can offer.",
+        streaming: false,
         actions: [
           { label: "Try Again", type: "retry" },
           { label: "View Offline Help", type: "help" }
         ]
-      };
-      setMessages(prev => [...prev, fallbackMessage]);
+      }));
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
   const handleQuickAction = (query: string) => {
     setInputValue(query);
   };
 
-  const handleActionClick = async (action: { label: string; type: string }) => {
+  // Replaces a tool call wherever it appears in the conversation
+  const updateToolCall = (toolCall: ToolCall) => {
+    setMessages(prev => prev.map(m => m.toolCalls?.some(t => t.id === toolCall.id)
+      ? { ...m, toolCalls: m.toolCalls.map(t => t.id === toolCall.id ? toolCall : t) }
+      : m));
+  };
+
+  const confirmToolCall = async (toolCall: ToolCall) => {
+    updateToolCall({ ...toolCall, status: 'running' });
+    try {
+      const response = await aiAPI.confirmToolCall(toolCall.id);
+      updateToolCall(response.toolCall);
+
+      // The assistant reports the outcome as its own message
+      setMessages(prev => [...prev, {
+        id: `assistant-${Date.now()}`,
+        type: 'assistant',
+        content: response.message.content,
+        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        messageId: response.message.id
+      }]);
+    } catch (err) {
+      updateToolCall(toolCall);
+      setError(handleAPIError(err));
+    }
+  };
+
+  const rejectToolCall = async (toolCall: ToolCall) => {
+    try {
+      const response = await aiAPI.rejectToolCall(toolCall.id);
+      updateToolCall(response.toolCall);
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
+  };
+
+  const handleActionClick = async (action: MessageAction, messageId: string) => {
+    if (action.tool) {
+      // Tool-backed actions are proposed first and shown for confirmation on the message
+      try {
+        const { toolCall } = await aiAPI.proposeToolCall(action.tool, action.args || {}, activeConversationId || undefined);
+        setMessages(prev => prev.map(m => m.id === messageId ? { ...m, toolCalls: [...(m.toolCalls || []), toolCall] } : m));
+      } catch (err) {
+        setError(handleAPIError(err));
+      }
+      return;
+    }
+
     switch (action.type) {
       case 'insights':
         setInputValue("Show me my latest productivity insights and patterns");
@@ -175,15 +389,33 @@ How can I help you optimize your day?`,
     }
   };
 
-  const toggleListening = () => {
-    setIsListening(!isListening);
-    
-    if (!isListening) {
-      // Mock voice recognition
-      setTimeout(() => {
-        setInputValue("What are my most important tasks for today and when should I work on them?");
-        setIsListening(false);
-      }, 2000);
+  // Dictation: the transcript is put in the input to be checked before sending
+  const toggleListening = async () => {
+    setError("");
+    if (!recorder.isRecording) {
+      try {
+        await recorder.start();
+      } catch (err) {
+        setError(`Couldn't start recording: ${(err as Error).message}`);
+      }
+      return;
+    }
+
+    const recording = await recorder.stop();
+    if (!recording) return;
+
+    setIsTranscribing(true);
+    try {
+      const { text } = await aiAPI.transcribe(recording);
+      if (text) {
+        setInputValue(current => current.trim() ? `${current.trim()} ${text}` : text);
+      } else {
+        setError("Didn't catch that - no speech was recognised.");
+      }
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setIsTranscribing(false);
     }
   };
 
@@ -191,9 +423,21 @@ How can I help you optimize your day?`,
     navigator.clipboard.writeText(content);
   };
 
-  const provideFeedback = (messageId: string, type: 'positive' | 'negative') => {
-    console.log(`Feedback for ${messageId}: ${type}`);
-    // In a real app, this would send feedback to improve the AI
+  // Clicking the same thumb again clears the rating. A thumbs down also asks for an optional reason.
+  const provideFeedback = async (message: Message, rating: 'positive' | 'negative', reason?: string) => {
+    if (!activeConversationId || !message.messageId) return;
+
+    const clearing = reason === undefined && message.feedback?.rating === rating;
+    try {
+      const response = clearing
+        ? await conversationsAPI.clearMessageRating(activeConversationId, message.messageId)
+        : await conversationsAPI.rateMessage(activeConversationId, message.messageId, rating, reason);
+      setMessages(prev => prev.map(m => m.id === message.id ? { ...m, feedback: response.message.feedback } : m));
+      setReasonFor(!clearing && rating === 'negative' && reason === undefined ? message.id : null);
+      setReasonText("");
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
   };
 
   return (
@@ -229,174 +473,278 @@ How can I help you optimize your day?`,
                 </p>
               </div>
             </div>
-            <Button variant="ghost" size="sm" onClick={loadInitialMessage}>
+            <Button variant="ghost" size="sm" onClick={startNewConversation} disabled={isLoading} aria-label="New conversation">
               <RefreshCw className="h-4 w-4" />
             </Button>
           </div>
         </CardContent>
       </Card>
 
-      {/* Chat Interface */}
-      <Card className="h-[600px] flex flex-col">
-        <CardHeader className="pb-3">
-          <CardTitle className="flex items-center gap-2">
-            <MessageSquare className="h-5 w-5" />
-            Natural Language Interface
-          </CardTitle>
-        </CardHeader>
-        
-        <CardContent className="flex-1 flex flex-col p-0">
-          {/* Messages */}
-          <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
-            <div className="space-y-4">
-              {messages.map((message) => (
-                <div key={message.id} className={`flex gap-3 ${message.type === 'user' ? 'flex-row-reverse' : ''}`}>
-                  <Avatar className="h-8 w-8">
-                    <AvatarFallback className={message.type === 'user' ? 'bg-blue-500 text-white' : 'bg-purple-500 text-white'}>
-                      {message.type === 'user' ? 'U' : 'AI'}
-                    </AvatarFallback>
-                  </Avatar>
-                  
-                  <div className={`flex-1 max-w-[85%] ${message.type === 'user' ? 'text-right' : ''}`}>
-                    <div className={`p-3 rounded-lg ${
-                      message.type === 'user' 
-                        ? 'bg-blue-500 text-white ml-auto' 
-                        : 'bg-gray-100'
-                    }`}>
-                      <p className="whitespace-pre-wrap">{message.content}</p>
-                    </div>
+      <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={activeConversationId}
+          disabled={isLoading}
+          onSelect={selectConversation}
+          onNew={startNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+
+        {/* Chat Interface */}
+        <Card className="h-[600px] flex flex-col">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Natural Language Interface
+            </CardTitle>
+          </CardHeader>
+          
+          <CardContent className="flex-1 flex flex-col p-0">
+            {/* Messages */}
+            <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
+              <div className="space-y-4">
+                {messages.map((message) => (
+                  <div key={message.id} className={`flex gap-3 ${message.type === 'user' ? 'flex-row-reverse' : ''}`}>
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className={message.type === 'user' ? 'bg-blue-500 text-white' : 'bg-purple-500 text-white'}>
+                        {message.type === 'user' ? 'U' : 'AI'}
+                      </AvatarFallback>
+                    </Avatar>
                     
-                    {/* Message Actions and Info */}
-                    <div className={`flex items-center gap-2 mt-2 ${message.type === 'user' ? 'justify-end' : ''}`}>
-                      <span className="text-xs text-muted-foreground">{message.timestamp}</span>
+                    <div className={`flex-1 max-w-[85%] ${message.type === 'user' ? 'text-right' : ''}`}>
+                      <div className={`p-3 rounded-lg ${
+                        message.type === 'user' 
+                          ? 'bg-blue-500 text-white ml-auto' 
+                          : 'bg-gray-100'
+                      }`}>
+                        {message.streaming && !message.content ? (
+                          <div className="flex items-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <span className="text-sm text-muted-foreground">Thinking...</span>
+                          </div>
+                        ) : (
+                          <p className="whitespace-pre-wrap">
+                            {message.content}
+                            {message.streaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />}
+                          </p>
+                        )}
+                      </div>
                       
-                      {message.type === 'assistant' && (
-                        <div className="flex items-center gap-1">
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            className="h-6 w-6 p-0"
-                            onClick={() => copyMessage(message.content)}
-                          >
-                            <Copy className="h-3 w-3" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            className="h-6 w-6 p-0"
-                            onClick={() => provideFeedback(message.id, 'positive')}
-                          >
-                            <ThumbsUp className="h-3 w-3" />
+                      {/* Message Actions and Info */}
+                      <div className={`flex items-center gap-2 mt-2 ${message.type === 'user' ? 'justify-end' : ''}`}>
+                        <span className="text-xs text-muted-foreground">{message.timestamp}</span>
+                        {message.interrupted && (
+                          <Badge variant="outline" className="text-xs">Stopped</Badge>
+                        )}
+                        
+                        {message.type === 'assistant' && !message.streaming && (
+                          <div className="flex items-center gap-1">
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              className="h-6 w-6 p-0"
+                              onClick={() => copyMessage(message.content)}
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                            {message.messageId && activeConversationId && (
+                              <>
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className={`h-6 w-6 p-0 ${message.feedback?.rating === 'positive' ? 'text-green-600' : ''}`}
+                                  onClick={() => provideFeedback(message, 'positive')}
+                                  aria-label="Good response"
+                                >
+                                  <ThumbsUp className="h-3 w-3" />
+                                </Button>
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className={`h-6 w-6 p-0 ${message.feedback?.rating === 'negative' ? 'text-red-600' : ''}`}
+                                  onClick={() => provideFeedback(message, 'negative')}
+                                  aria-label="Bad response"
+                                >
+                                  <ThumbsDown className="h-3 w-3" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Optional reason after a thumbs down */}
+                      {reasonFor === message.id && (
+                        <form
+                          className="flex gap-2 mt-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            provideFeedback(message, 'negative', reasonText.trim());
+                          }}
+                        >
+                          <Input
+                            value={reasonText}
+                            onChange={(e) => setReasonText(e.target.value)}
+                            placeholder="What was wrong with this response? (optional)"
+                            className="h-7 text-xs"
+                            maxLength={1000}
+                            autoFocus
+                          />
+                          <Button type="submit" size="sm" className="h-7 text-xs" disabled={!reasonText.trim()}>
+                            Send
                           </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            className="h-6 w-6 p-0"
-                            onClick={() => provideFeedback(message.id, 'negative')}
-                          >
-                            <ThumbsDown className="h-3 w-3" />
+                          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setReasonFor(null)}>
+                            Skip
                           </Button>
-                        </div>
+                        </form>
                       )}
-                    </div>
 
-                    {/* Action Buttons */}
-                    {message.actions && message.type === 'assistant' && (
-                      <div className="flex gap-1 mt-2 flex-wrap">
-                        {message.actions.map((action, index) => (
-                          <Button 
-                            key={index} 
-                            variant="outline" 
-                            size="sm" 
-                            className="h-7 text-xs"
-                            onClick={() => handleActionClick(action)}
-                          >
-                            {action.label}
-                          </Button>
-                        ))}
-                      </div>
-                    )}
-
-                    {/* Suggestions */}
-                    {message.suggestions && message.suggestions.length > 0 && (
-                      <div className="mt-2">
-                        <p className="text-xs text-muted-foreground mb-1">Suggestions:</p>
-                        <div className="flex gap-1 flex-wrap">
-                          {message.suggestions.map((suggestion, index) => (
-                            <Badge 
+                      {/* Action Buttons */}
+                      {message.actions && message.type === 'assistant' && (
+                        <div className="flex gap-1 mt-2 flex-wrap">
+                          {message.actions.map((action, index) => (
+                            <Button 
                               key={index} 
                               variant="outline" 
-                              className="cursor-pointer hover:bg-gray-100"
-                              onClick={() => setInputValue(suggestion)}
+                              size="sm" 
+                              className="h-7 text-xs"
+                              onClick={() => handleActionClick(action, message.id)}
                             >
-                              {suggestion}
-                            </Badge>
+                              {action.label}
+                            </Button>
                           ))}
                         </div>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ))}
-              
-              {isLoading && (
-                <div className="flex gap-3">
-                  <Avatar className="h-8 w-8">
-                    <AvatarFallback className="bg-purple-500 text-white">AI</AvatarFallback>
-                  </Avatar>
-                  <div className="bg-gray-100 p-3 rounded-lg">
-                    <div className="flex items-center gap-2">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm text-muted-foreground">Thinking...</span>
+                      )}
+
+                      {/* Cited Sources */}
+                      {message.sources && message.sources.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          <p className="text-xs text-muted-foreground">Sources:</p>
+                          {message.sources.map((source) => (
+                            <button
+                              key={source.ref}
+                              className="flex w-full items-start gap-2 text-left text-xs hover:underline"
+                              title={source.snippet}
+                              onClick={() => onNavigate?.(source.link.tab, source.link.id)}
+                            >
+                              <span className="text-purple-600 shrink-0">[{source.ref}]</span>
+                              <span className="truncate">
+                                <span className="text-muted-foreground capitalize">{source.kind}:</span> {source.title}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Proposed Tool Calls */}
+                      {message.toolCalls && message.toolCalls.length > 0 && (
+                        <div className="mt-2 space-y-2">
+                          {message.toolCalls.map((toolCall) => (
+                            <div key={toolCall.id} className="flex items-center gap-2 p-2 border rounded-lg text-sm bg-white">
+                              <Wrench className="h-4 w-4 text-purple-500 shrink-0" />
+                              <span className="flex-1">{toolCall.summary}</span>
+                              {toolCall.status === 'pending' && (
+                                <>
+                                  <Button size="sm" className="h-7 text-xs" onClick={() => confirmToolCall(toolCall)}>
+                                    Confirm
+                                  </Button>
+                                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => rejectToolCall(toolCall)}>
+                                    Cancel
+                                  </Button>
+                                </>
+                              )}
+                              {toolCall.status === 'running' && <Loader2 className="h-4 w-4 animate-spin" />}
+                              {toolCall.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                              {toolCall.status === 'failed' && (
+                                <span className="flex items-center gap-1 text-xs text-red-600" title={toolCall.error}>
+                                  <XCircle className="h-4 w-4" />
+                                  Failed
+                                </span>
+                              )}
+                              {toolCall.status === 'rejected' && (
+                                <span className="text-xs text-muted-foreground">Cancelled</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Suggestions */}
+                      {message.suggestions && message.suggestions.length > 0 && (
+                        <div className="mt-2">
+                          <p className="text-xs text-muted-foreground mb-1">Suggestions:</p>
+                          <div className="flex gap-1 flex-wrap">
+                            {message.suggestions.map((suggestion, index) => (
+                              <Badge 
+                                key={index} 
+                                variant="outline" 
+                                className="cursor-pointer hover:bg-gray-100"
+                                onClick={() => setInputValue(suggestion)}
+                              >
+                                {suggestion}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
-          </ScrollArea>
-
-          {/* Input Area */}
-          <div className="p-4 border-t">
-            <div className="flex gap-2 mb-3">
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={toggleListening}
-                className={isListening ? "bg-red-50 border-red-200" : ""}
-                disabled={isLoading}
-              >
-                <Mic className={`h-4 w-4 mr-1 ${isListening ? 'text-red-500' : ''}`} />
-                {isListening ? 'Listening...' : 'Voice'}
-              </Button>
-              <Button variant="outline" size="sm" disabled>
-                <Paperclip className="h-4 w-4 mr-1" />
-                Attach
-              </Button>
-            </div>
-            
-            <div className="flex gap-2">
-              <Input
-                placeholder="Ask me anything about your work, schedule, or productivity..."
-                value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
-                className="flex-1"
-                disabled={isLoading || isListening}
-              />
-              <Button 
-                onClick={handleSendMessage} 
-                disabled={!inputValue.trim() || isLoading}
-              >
+                ))}
+                
+              </div>
+            </ScrollArea>
+
+            {/* Input Area */}
+            <div className="p-4 border-t">
+              <div className="flex gap-2 mb-3">
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={toggleListening}
+                  className={recorder.isRecording ? "bg-red-50 border-red-200" : ""}
+                  disabled={isLoading || isTranscribing || !isRecordingSupported()}
+                  title={isRecordingSupported() ? "Dictate a message" : "This browser can't record audio"}
+                >
+                  {isTranscribing ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Mic className={`h-4 w-4 mr-1 ${recorder.isRecording ? 'text-red-500' : ''}`} />
+                  )}
+                  {recorder.isRecording ? `Stop ${formatDuration(recorder.elapsedMs)}` : isTranscribing ? 'Transcribing...' : 'Voice'}
+                </Button>
+                <Button variant="outline" size="sm" disabled>
+                  <Paperclip className="h-4 w-4 mr-1" />
+                  Attach
+                </Button>
+              </div>
+              
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Ask me anything about your work, schedule, or productivity..."
+                  value={recorder.isRecording ? recorder.liveText : inputValue}
+                  onChange={(e) => setInputValue(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
+                  className="flex-1"
+                  disabled={isLoading || recorder.isRecording || isTranscribing}
+                />
                 {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <Button variant="outline" onClick={stopGenerating} aria-label="Stop generating">
+                    <Square className="h-4 w-4" />
+                  </Button>
                 ) : (
-                  <Send className="h-4 w-4" />
+                  <Button 
+                    onClick={handleSendMessage} 
+                    disabled={!inputValue.trim()}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
                 )}
-              </Button>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      </div>
 
       {/* Quick Actions */}
       <Card>
@@ -4,17 +4,21 @@ import { Toaster } from "./components/ui/sonner";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { MainDashboard } from "./components/MainDashboard";
 import { UniversalCapture } from "./components/UniversalCapture";
+import { ProjectsView } from "./components/ProjectsView";
 import { AIAssistant } from "./components/AIAssistant";
 import { IntegrationHub } from "./components/IntegrationHub";
 import { Analytics } from "./components/Analytics";
 import { Settings } from "./components/Settings";
 import { BackendDemo } from "./components/BackendDemo";
 import { Navigation } from "./components/Navigation";
+import { CommandPalette } from "./components/CommandPalette";
 import { UserStatus } from "./components/UserStatus";
 import { healthAPI } from "./utils/api";
 
 export default function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
+  // The record to highlight on the tab, when navigating to a particular capture, project or task
+  const [focusId, setFocusId] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [backendStatus, setBackendStatus] = useState<'checking' | 'online' | 'offline'>('checking');
 
@@ -33,10 +37,16 @@ export default function App() {
     checkBackendHealth();
   }, []);
 
+  const navigate = (tab: string, id?: string) => {
+    setActiveTab(tab);
+    setFocusId(id ?? null);
+  };
+
   const renderContent = () => {
     const components = {
       'dashboard': MainDashboard,
       'capture': UniversalCapture,
+      'projects': ProjectsView,
       'assistant': AIAssistant,
       'integrations': IntegrationHub,
       'analytics': Analytics,
@@ -44,6 +54,17 @@ export default function App() {
       'settings': Settings,
     };
     
+    // The assistant links to the items it cites, which live on other tabs
+    if (activeTab === 'assistant') {
+      return <AIAssistant onNavigate={navigate} />;
+    }
+    if (activeTab === 'capture') {
+      return <UniversalCapture focusId={focusId} />;
+    }
+    if (activeTab === 'projects') {
+      return <ProjectsView focusId={focusId} />;
+    }
+
     const Component = components[activeTab as keyof typeof components] || MainDashboard;
     return <Component />;
   };
@@ -65,9 +86,11 @@ export default function App() {
               animate={{ x: 0 }}
               transition={{ duration: 0.4, ease: "easeOut" }}
             >
-              <Navigation activeTab={activeTab} onTabChange={setActiveTab} />
+              <Navigation activeTab={activeTab} onTabChange={navigate} />
             </motion.div>
 
+            <CommandPalette onNavigate={navigate} />
+
             {/* Main Content */}
             <div className="flex-1 overflow-auto">
               <motion.div 
@@ -0,0 +1,203 @@
+import { useState, useEffect, useRef } from "react";
+import type { ComponentType } from "react";
+import { toast } from "sonner@2.0.3";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from "./ui/command";
+import { Loader2 } from "lucide-react";
+import { handleAPIError } from '../utils/api';
+
+// The Ctrl/Cmd-K palette. Feature modules register their own commands with
+// commandRegistry.register() when they are imported, so the palette itself knows
+// nothing about captures, projects or integrations.
+
+export interface CommandContext {
+  navigate: (tab: string) => void;
+  // What's typed in the palette
+  query: string;
+}
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon?: ComponentType<{ className?: string }>;
+  // Extra words the palette's filter matches on
+  keywords?: string[];
+  shortcut?: string;
+  // May return a message to show once it's done
+  run: (context: CommandContext) => void | string | Promise<void | string>;
+}
+
+export interface CommandSource {
+  id: string;
+  group: string;
+  // 'static' sources are loaded when the palette opens and filtered by what's typed.
+  // 'query' sources are asked again as the query changes and are shown as returned.
+  mode: 'static' | 'query';
+  load: (query: string) => PaletteCommand[] | Promise<PaletteCommand[]>;
+}
+
+class CommandRegistry {
+  private sources = new Map<string, CommandSource>();
+  private openListeners = new Set<() => void>();
+
+  // Registering the same id again replaces the source, so hot reloads don't duplicate it
+  register(source: CommandSource): () => void {
+    this.sources.set(source.id, source);
+    return () => {
+      this.sources.delete(source.id);
+    };
+  }
+
+  list(): CommandSource[] {
+    return [...this.sources.values()];
+  }
+
+  // Opens the palette from elsewhere in the app, e.g. a toolbar button
+  open() {
+    this.openListeners.forEach(listener => listener());
+  }
+
+  onOpen(listener: () => void): () => void {
+    this.openListeners.add(listener);
+    return () => {
+      this.openListeners.delete(listener);
+    };
+  }
+}
+
+export const commandRegistry = new CommandRegistry();
+
+interface LoadedGroup {
+  source: CommandSource;
+  commands: PaletteCommand[];
+}
+
+// A source that fails to load just doesn't show up
+const loadGroups = (sources: CommandSource[], query: string): Promise<LoadedGroup[]> =>
+  Promise.all(sources.map(async source => {
+    try {
+      return { source, commands: await source.load(query) };
+    } catch (error) {
+      console.log(`Command source ${source.id} failed:`, error);
+      return { source, commands: [] };
+    }
+  }));
+
+interface CommandPaletteProps {
+  onNavigate: (tab: string) => void;
+}
+
+export function CommandPalette({ onNavigate }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [staticGroups, setStaticGroups] = useState<LoadedGroup[]>([]);
+  const [queryGroups, setQueryGroups] = useState<LoadedGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const queryVersion = useRef(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    const stopListening = commandRegistry.onOpen(() => setOpen(true));
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      stopListening();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      return;
+    }
+    loadGroups(commandRegistry.list().filter(source => source.mode === 'static'), '').then(setStaticGroups);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const version = ++queryVersion.current;
+    const sources = commandRegistry.list().filter(source => source.mode === 'query');
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      const groups = await loadGroups(sources, query.trim());
+      // Drop responses to queries that have since changed
+      if (version === queryVersion.current) {
+        setQueryGroups(groups);
+        setIsLoading(false);
+      }
+    }, query.trim() ? 250 : 0);
+
+    return () => clearTimeout(timer);
+  }, [open, query]);
+
+  const runCommand = async (command: PaletteCommand) => {
+    setRunningId(command.id);
+    try {
+      const message = await command.run({ navigate: onNavigate, query: query.trim() });
+      if (message) toast.success(message);
+      setOpen(false);
+    } catch (error) {
+      toast.error(handleAPIError(error));
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const renderItem = (command: PaletteCommand, forceMount: boolean) => (
+    <CommandItem
+      key={command.id}
+      value={`${command.id} ${command.label}`}
+      keywords={command.keywords}
+      forceMount={forceMount}
+      disabled={runningId !== null}
+      onSelect={() => runCommand(command)}
+    >
+      {runningId === command.id
+        ? <Loader2 className="animate-spin" />
+        : command.icon && <command.icon />}
+      <span className="truncate">{command.label}</span>
+      {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+    </CommandItem>
+  );
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen} description="Jump to a view, capture something or search your data">
+      <CommandInput
+        placeholder="Type a command, or idea: / task: / note: to capture..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        <CommandEmpty>{isLoading ? 'Searching...' : 'No matching commands'}</CommandEmpty>
+
+        {/* Query results were already matched by their source, so they skip the palette's own filter */}
+        {queryGroups.filter(group => group.commands.length > 0).map(group => (
+          <CommandGroup key={group.source.id} heading={group.source.group} forceMount>
+            {group.commands.map(command => renderItem(command, true))}
+          </CommandGroup>
+        ))}
+
+        {staticGroups.filter(group => group.commands.length > 0).map(group => (
+          <CommandGroup key={group.source.id} heading={group.source.group}>
+            {group.commands.map(command => renderItem(command, false))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
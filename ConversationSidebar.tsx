@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "./ui/alert-dialog";
+import { MessageSquarePlus, Pencil, Trash2, Check, X } from "lucide-react";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  preview: string;
+  messageCount: number;
+  updated: string;
+}
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export function ConversationSidebar({ conversations, activeId, disabled, onSelect, onNew, onRename, onDelete }: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const saveRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const formatUpdated = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString();
+  };
+
+  return (
+    <Card className="h-[600px] flex flex-col">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          Conversations
+          <Button variant="ghost" size="sm" onClick={onNew} disabled={disabled} aria-label="New conversation">
+            <MessageSquarePlus className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="flex-1 p-0 min-h-0">
+        <ScrollArea className="h-full px-2 pb-2">
+          <div className="space-y-1">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group flex items-start gap-2 p-2 rounded-lg cursor-pointer hover:bg-gray-50 ${conversation.id === activeId ? 'bg-purple-50' : ''}`}
+                onClick={() => !disabled && editingId !== conversation.id && onSelect(conversation.id)}
+              >
+                {editingId === conversation.id ? (
+                  <div className="flex flex-1 items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Input
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="h-7 text-sm"
+                      maxLength={200}
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={saveRename} aria-label="Save title">
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm truncate ${conversation.id === activeId ? 'font-medium' : ''}`}>{conversation.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{conversation.preview || 'No messages yet'}</p>
+                      <p className="text-xs text-muted-foreground">{formatUpdated(conversation.updated)}</p>
+                    </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label="Rename conversation"
+                        onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label="Delete conversation"
+                        onClick={(e) => { e.stopPropagation(); setPendingDelete(conversation); }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+
+            {conversations.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No conversations yet</p>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -32,6 +32,31 @@ import {
   BarChart3
 } from "lucide-react";
 import { integrationsAPI, handleAPIError } from '../utils/api';
+import { commandRegistry, PaletteCommand } from "./CommandPalette";
+
+commandRegistry.register({
+  id: 'integration-sync',
+  group: 'Integrations',
+  mode: 'static',
+  load: async () => {
+    const { integrations } = await integrationsAPI.getIntegrations();
+    return (integrations || [])
+      .filter((integration: any) => integration.status !== 'disconnected')
+      .map((integration: any): PaletteCommand => ({
+        id: `sync:${integration.service}`,
+        label: `Sync ${integration.service}`,
+        icon: RefreshCw,
+        keywords: ['integration', 'refresh'],
+        run: async () => {
+          const result = await integrationsAPI.syncService(integration.service);
+          if (result?.success === false) {
+            throw new Error(`${integration.service} sync failed`);
+          }
+          return result?.message || `Synced ${integration.service}: ${result?.itemsProcessed ?? 0} items`;
+        }
+      }));
+  }
+});
 
 interface Integration {
   id: string;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
@@ -22,7 +22,10 @@ import {
   Activity,
   Sparkles,
   Target,
-  Timer
+  Timer,
+  ThumbsUp,
+  ThumbsDown,
+  X
 } from "lucide-react";
 import { 
   analyticsAPI, 
@@ -31,8 +34,30 @@ import {
   aiAPI, 
   realtimeAPI,
   handleAPIError,
-  realtimeUpdates 
+  realtimeUpdates,
+  RealtimeEvent
 } from '../utils/api';
+import { commandRegistry, PaletteCommand } from "./CommandPalette";
+
+commandRegistry.register({
+  id: 'project-templates',
+  group: 'New project',
+  mode: 'static',
+  load: async () => {
+    const { templates } = await projectsAPI.getTemplates();
+    return templates.map((template: any): PaletteCommand => ({
+      id: `template:${template.id}`,
+      label: `New project: ${template.name}`,
+      icon: Target,
+      keywords: ['create', 'template', template.description || ''],
+      run: async ({ navigate }) => {
+        const { project } = await projectsAPI.createFromTemplate(template.id);
+        navigate('dashboard');
+        return `Created ${project?.name || template.name}`;
+      }
+    }));
+  }
+});
 
 export function MainDashboard() {
   const [isLoading, setIsLoading] = useState(true);
@@ -45,27 +70,64 @@ export function MainDashboard() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [processingCapture, setProcessingCapture] = useState<string | null>(null);
   const [newInsightCount, setNewInsightCount] = useState(0);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     loadDashboardData();
     
-    // Set up real-time updates with more frequent polling
-    realtimeUpdates.subscribe('dashboard', loadRealtimeData, 5000);
-    
-    // Auto-refresh dashboard every 30 seconds
-    intervalRef.current = setInterval(() => {
-      loadRealtimeData();
-    }, 30000);
+    // Load the status once (this also covers demo mode), then let the server push changes
+    loadRealtimeData();
+    realtimeUpdates.subscribe('dashboard', handleRealtimeEvent);
     
     return () => {
       realtimeUpdates.unsubscribe('dashboard');
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
     };
   }, []);
 
+  const handleRealtimeEvent = (event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'status':
+        setRealtimeStatus((prev: any) => ({ ...prev, ...event.data }));
+        break;
+      case 'capture.processed': {
+        // Also raised on triage; captures that left the inbox drop off the list
+        const capture = event.data.capture;
+        const inInbox = !capture.status || capture.status === 'inbox';
+        setRecentCaptures(prev => [...(inInbox ? [capture] : []), ...prev.filter(c => c.id !== capture.id)].slice(0, 4));
+        setRealtimeStatus((prev: any) => ({
+          ...prev,
+          recent_captures: [...(inInbox ? [capture] : []), ...(prev.recent_captures || []).filter((c: any) => c.id !== capture.id)].slice(0, 5)
+        }));
+        break;
+      }
+      case 'task.changed': {
+        const { action, task, taskId } = event.data;
+        setRealtimeStatus((prev: any) => {
+          const others = (prev.active_tasks || []).filter((t: any) => t.id !== (task?.id ?? taskId));
+          const stillActive = action !== 'deleted' && task?.status !== 'completed';
+          return { ...prev, active_tasks: stillActive ? [task, ...others] : others };
+        });
+        break;
+      }
+      case 'sync.started':
+      case 'sync.finished': {
+        const { service, success, lastSync } = event.data;
+        const serviceStatus = event.type === 'sync.started' ? 'syncing' : success ? 'connected' : 'error';
+        setRealtimeStatus((prev: any) => ({
+          ...prev,
+          integrations_syncing: { ...prev.integrations_syncing, [service]: serviceStatus },
+          lastSync: lastSync ?? prev.lastSync
+        }));
+        break;
+      }
+      case 'notification.added':
+        setRealtimeStatus((prev: any) => ({
+          ...prev,
+          notifications: [event.data.notification, ...(prev.notifications || [])]
+        }));
+        break;
+    }
+  };
+
   const loadDashboardData = async (isRefresh = false) => {
     try {
       if (isRefresh) {
@@ -78,7 +140,7 @@ export function MainDashboard() {
       // Load all dashboard data in parallel
       const [analytics, captures, insights, projectsData] = await Promise.all([
         analyticsAPI.getDashboard().catch(() => null),
-        captureAPI.getCaptures().catch(() => ({ captures: [] })),
+        captureAPI.getCapturesByStatus('inbox', 4).catch(() => ({ captures: [] })),
         aiAPI.getInsights().catch(() => ({ insights: [] })),
         projectsAPI.getProjects().catch(() => ({ projects: [] }))
       ]);
@@ -88,11 +150,10 @@ export function MainDashboard() {
       const newInsights = insights.insights?.slice(0, 3) || getMockInsights();
       const newProjects = projectsData.projects?.filter((p: any) => p.status === 'active').slice(0, 3) || getMockProjects();
 
-      // Animate insight updates
-      if (newInsights.length > aiInsights.length) {
-        setNewInsightCount(newInsights.length - aiInsights.length);
-        setTimeout(() => setNewInsightCount(0), 3000);
-      }
+      // Insights the server hasn't shown before are counted once, then marked as seen
+      const unseen = newInsights.filter((insight: any) => insight.id && insight.state === 'new');
+      setNewInsightCount(unseen.length);
+      unseen.forEach((insight: any) => aiAPI.updateInsightState(insight.id, 'seen').catch(() => {}));
 
       // Ensure data is valid before setting
       setDashboardData(newData);
@@ -129,6 +190,28 @@ export function MainDashboard() {
     }
   };
 
+  const updateInsightState = async (insight: any, state: 'dismissed' | 'snoozed' | 'acted') => {
+    try {
+      await aiAPI.updateInsightState(insight.id, state);
+      setAiInsights(prev => prev.filter(i => i.id !== insight.id));
+      toast.success(state === 'snoozed' ? 'Snoozed until tomorrow' : state === 'acted' ? 'Marked as done' : 'Insight dismissed');
+    } catch (err) {
+      toast.error(handleAPIError(err));
+    }
+  };
+
+  const sendInsightFeedback = async (insight: any, useful: boolean) => {
+    try {
+      const { insight: updated } = await aiAPI.sendInsightFeedback(insight.id, useful);
+      setAiInsights(prev => prev.map(i => i.id === insight.id ? { ...i, feedback: updated.feedback } : i));
+      toast.success('Thanks for the feedback', {
+        description: useful ? 'You\'ll see more insights like this' : 'You\'ll see fewer insights like this',
+      });
+    } catch (err) {
+      toast.error(handleAPIError(err));
+    }
+  };
+
   const processCapture = async (captureId: string) => {
     try {
       setProcessingCapture(captureId);
@@ -146,7 +229,7 @@ export function MainDashboard() {
       });
 
       // Refresh captures with animation
-      const updatedCaptures = await captureAPI.getCaptures();
+      const updatedCaptures = await captureAPI.getCapturesByStatus('inbox', 4);
       setRecentCaptures(updatedCaptures.captures?.slice(0, 4) || []);
       
       // Show success notification
@@ -362,7 +445,7 @@ export function MainDashboard() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Zap className="h-5 w-5" />
-              Recent Captures
+              Capture Inbox
               {recentCaptures.length > 0 && (
                 <Badge variant="outline">{recentCaptures.length}</Badge>
               )}
@@ -383,7 +466,7 @@ export function MainDashboard() {
                   >
                     <Zap className="h-8 w-8 mx-auto mb-2 opacity-50" />
                   </motion.div>
-                  <p>No captures yet. Start by adding some content!</p>
+                  <p>Nothing left to triage. Start by adding some content!</p>
                 </motion.div>
               ) : (
                 <motion.div
@@ -464,13 +547,9 @@ export function MainDashboard() {
                   exit={{ opacity: 0 }}
                   className="text-center py-8 text-muted-foreground"
                 >
-                  <motion.div
-                    animate={{ rotate: [0, 360] }}
-                    transition={{ duration: 3, repeat: Infinity, ease: "linear" }}
-                  >
-                    <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  </motion.div>
-                  <p>Analyzing your patterns...</p>
+                  <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>Not enough activity for insights yet</p>
+                  <p className="text-xs">Insights appear once there's a few weeks of tasks and captures to learn from</p>
                 </motion.div>
               ) : (
                 <motion.div
@@ -480,7 +559,7 @@ export function MainDashboard() {
                 >
                   {aiInsights.map((insight, index) => (
                     <motion.div 
-                      key={index}
+                      key={insight.id ?? index}
                       initial={{ opacity: 0, scale: 0.9 }}
                       animate={{ opacity: 1, scale: 1 }}
                       transition={{ delay: index * 0.1 }}
@@ -512,16 +591,52 @@ export function MainDashboard() {
                             )}
                           </h4>
                           <p className="text-sm">{insight.description}</p>
+                          {insight.action && (
+                            <p className="text-xs text-muted-foreground mt-1">{insight.action}</p>
+                          )}
                         </div>
                       </div>
-                      <motion.div
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                      >
-                        <Button variant="outline" size="sm" className="w-full">
-                          View Details
-                        </Button>
-                      </motion.div>
+                      {insight.id ? (
+                        <div className="flex items-center gap-1">
+                          <Button variant="outline" size="sm" className="flex-1" onClick={() => updateInsightState(insight, 'acted')}>
+                            <CheckCircle className="h-4 w-4" />
+                            <span className="ml-1">Done</span>
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => updateInsightState(insight, 'snoozed')} aria-label="Snooze until tomorrow">
+                            <Clock className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => updateInsightState(insight, 'dismissed')} aria-label="Dismiss">
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={insight.feedback?.useful === true ? 'text-green-600' : ''}
+                            onClick={() => sendInsightFeedback(insight, true)}
+                            aria-label="Useful"
+                          >
+                            <ThumbsUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={insight.feedback?.useful === false ? 'text-red-600' : ''}
+                            onClick={() => sendInsightFeedback(insight, false)}
+                            aria-label="Not useful"
+                          >
+                            <ThumbsDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <motion.div
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          <Button variant="outline" size="sm" className="w-full">
+                            View Details
+                          </Button>
+                        </motion.div>
+                      )}
                     </motion.div>
                   ))}
                 </motion.div>
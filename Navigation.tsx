@@ -8,15 +8,43 @@ import {
   MessageSquare, 
   Settings, 
   Search,
-  Bell,
   User,
   Brain,
   Layers,
   BarChart3,
   Plus,
   Sparkles,
-  Activity
+  Activity,
+  FolderOpen
 } from "lucide-react";
+import { NotificationCenter } from "./NotificationCenter";
+import { SearchResults, SearchResponse, SearchQueryToken } from "./SearchResults";
+import { commandRegistry, PaletteCommand } from "./CommandPalette";
+import { aiAPI, handleAPIError, realtimeUpdates, RealtimeEvent } from '../utils/api';
+
+const NAV_ITEMS = [
+  { id: 'dashboard', label: 'Dashboard', icon: Home },
+  { id: 'capture', label: 'Universal Capture', icon: Zap },
+  { id: 'projects', label: 'Projects', icon: FolderOpen },
+  { id: 'assistant', label: 'AI Assistant', icon: MessageSquare },
+  { id: 'integrations', label: 'Integrations', icon: Layers },
+  { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+  { id: 'backend', label: 'Backend Demo', icon: Settings },
+  { id: 'settings', label: 'Settings', icon: Settings }
+];
+
+commandRegistry.register({
+  id: 'navigation',
+  group: 'Go to',
+  mode: 'static',
+  load: () => NAV_ITEMS.map((item): PaletteCommand => ({
+    id: `navigate:${item.id}`,
+    label: item.label,
+    icon: item.icon,
+    keywords: ['go', 'open', item.id],
+    run: ({ navigate }) => navigate(item.id)
+  }))
+});
 
 interface NavigationProps {
   activeTab: string;
@@ -24,30 +52,75 @@ interface NavigationProps {
 }
 
 export function Navigation({ activeTab, onTabChange }: NavigationProps) {
-  const [notifications, setNotifications] = useState(3);
+  const [notifications, setNotifications] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [searchResponse, setSearchResponse] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [activityPulse, setActivityPulse] = useState(false);
 
   useEffect(() => {
-    // Simulate activity updates
-    const interval = setInterval(() => {
+    // Pulse the activity indicator whenever the server pushes a change
+    realtimeUpdates.subscribe('navigation', (event: RealtimeEvent) => {
+      if (event.type === 'status') return;
+
       setActivityPulse(true);
       setTimeout(() => setActivityPulse(false), 1000);
-    }, 15000);
+    });
 
-    return () => clearInterval(interval);
+    return () => realtimeUpdates.unsubscribe('navigation');
   }, []);
 
-  const navItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'capture', label: 'Universal Capture', icon: Zap },
-    { id: 'assistant', label: 'AI Assistant', icon: MessageSquare, badge: notifications },
-    { id: 'integrations', label: 'Integrations', icon: Layers },
-    { id: 'analytics', label: 'Analytics', icon: BarChart3 },
-    { id: 'backend', label: 'Backend Demo', icon: Settings },
-    { id: 'settings', label: 'Settings', icon: Settings }
-  ];
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResponse(null);
+      setSearchError(null);
+      return;
+    }
+
+    // Wait for a pause in typing; a newer query makes this one's response stale
+    let stale = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await aiAPI.search(query);
+        if (!stale) {
+          setSearchResponse(response);
+          setSearchError(null);
+        }
+      } catch (error) {
+        if (!stale) setSearchError(handleAPIError(error));
+      } finally {
+        if (!stale) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  const addSearchFilter = (key: string, value: string) => {
+    const token = `${key}:${/\s/.test(value) ? `"${value}"` : value}`;
+    setSearchQuery(current => current.includes(token) ? current : `${current.trim()} ${token}`.trim());
+  };
+
+  const removeSearchFilter = (token: SearchQueryToken) => {
+    setSearchQuery(current => current.replace(token.raw, '').replace(/\s+/g, ' ').trim());
+  };
+
+  const openSearchResult = (tab: string) => {
+    setSearchQuery('');
+    onTabChange(tab);
+  };
+
+  const navItems = NAV_ITEMS.map(item => ({
+    ...item,
+    badge: item.id === 'assistant' && notifications > 0 ? notifications : undefined
+  }));
 
   return (
     <motion.div 
@@ -112,9 +185,10 @@ export function Navigation({ activeTab, onTabChange }: NavigationProps) {
             </motion.div>
             <input
               type="text"
-              placeholder="Search everything..."
+              placeholder="Search, e.g. type:task priority:high"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
               onFocus={() => setIsSearchFocused(true)}
               onBlur={() => setIsSearchFocused(false)}
               className="w-full pl-10 pr-4 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
@@ -127,17 +201,15 @@ export function Navigation({ activeTab, onTabChange }: NavigationProps) {
                   exit={{ opacity: 0, y: 5 }}
                   className="absolute top-full left-0 right-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-50"
                 >
-                  <div className="p-2">
-                    <p className="text-xs text-muted-foreground mb-2">Quick Search</p>
-                    <div className="space-y-1">
-                      <div className="px-2 py-1 hover:bg-gray-50 rounded text-sm cursor-pointer">
-                        🧠 AI suggestions for "{searchQuery}"
-                      </div>
-                      <div className="px-2 py-1 hover:bg-gray-50 rounded text-sm cursor-pointer">
-                        📝 Recent captures containing "{searchQuery}"
-                      </div>
-                    </div>
-                  </div>
+                  <SearchResults
+                    query={searchQuery}
+                    response={searchResponse}
+                    loading={isSearching}
+                    error={searchError}
+                    onSelect={openSearchResult}
+                    onAddFilter={addSearchFilter}
+                    onRemoveFilter={removeSearchFilter}
+                  />
                 </motion.div>
               )}
             </AnimatePresence>
@@ -146,7 +218,14 @@ export function Navigation({ activeTab, onTabChange }: NavigationProps) {
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
-            <Button variant="outline" size="sm" className="relative">
+            <Button
+              variant="outline"
+              size="sm"
+              className="relative"
+              onClick={() => commandRegistry.open()}
+              title="Quick actions (Ctrl+K)"
+              aria-label="Open command palette"
+            >
               <Plus className="h-4 w-4" />
               <motion.div
                 className="absolute -top-1 -right-1 w-2 h-2 bg-green-500 rounded-full"
@@ -261,18 +340,7 @@ export function Navigation({ activeTab, onTabChange }: NavigationProps) {
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
           >
-            <Button variant="ghost" size="sm" className="relative">
-              <Bell className="h-4 w-4" />
-              {notifications > 0 && (
-                <motion.div
-                  className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white rounded-full flex items-center justify-center text-xs"
-                  animate={{ scale: [1, 1.2, 1] }}
-                  transition={{ duration: 2, repeat: Infinity }}
-                >
-                  {notifications}
-                </motion.div>
-              )}
-            </Button>
+            <NotificationCenter onUnreadCountChange={setNotifications} onNavigate={onTabChange} />
           </motion.div>
         </motion.div>
       </motion.div>
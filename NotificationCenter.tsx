@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "./ui/sheet";
+import { ScrollArea } from "./ui/scroll-area";
+import { useIsMobile } from "./ui/use-mobile";
+import {
+  Bell,
+  Check,
+  CheckCheck,
+  X,
+  Clock,
+  AlertTriangle,
+  Zap,
+  Lightbulb
+} from "lucide-react";
+import { notificationsAPI, realtimeUpdates, RealtimeEvent, handleAPIError } from '../utils/api';
+
+interface NotificationCenterProps {
+  onUnreadCountChange?: (count: number) => void;
+  onNavigate?: (tab: string, id?: string) => void;
+}
+
+const typeIcons: Record<string, any> = {
+  task_overdue: Clock,
+  sync_failed: AlertTriangle,
+  capture_priority: Zap,
+  insight: Lightbulb
+};
+
+export function NotificationCenter({ onUnreadCountChange, onNavigate }: NotificationCenterProps) {
+  const isMobile = useIsMobile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<any[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadNotifications();
+
+    // New notifications arrive over the realtime stream
+    realtimeUpdates.subscribe('notifications', (event: RealtimeEvent) => {
+      if (event.type === 'notification.added') {
+        const notification = event.data.notification;
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+        setUnreadCount(count => count + 1);
+      } else if (event.type === 'status' && typeof event.data.unread_notifications === 'number') {
+        setUnreadCount(event.data.unread_notifications);
+      }
+    });
+
+    return () => realtimeUpdates.unsubscribe('notifications');
+  }, []);
+
+  useEffect(() => {
+    onUnreadCountChange?.(unreadCount);
+  }, [unreadCount]);
+
+  const loadNotifications = async (cursor?: string | null) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const page = await notificationsAPI.getNotifications({ cursor, limit: 20 });
+      setNotifications(prev => cursor ? [...prev, ...(page.notifications || [])] : (page.notifications || []));
+      setNextCursor(page.nextCursor || null);
+      setUnreadCount(page.unreadCount || 0);
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const markRead = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.read) return;
+
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read: true } : n));
+    setUnreadCount(count => Math.max(0, count - 1));
+    await notificationsAPI.markRead(notificationId);
+  };
+
+  const markAllRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    await notificationsAPI.markAllRead();
+  };
+
+  const dismiss = async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    if (notification && !notification.read) {
+      setUnreadCount(count => Math.max(0, count - 1));
+    }
+    await notificationsAPI.dismiss(notificationId);
+  };
+
+  const openNotification = async (notification: any) => {
+    await markRead(notification.id);
+    if (notification.link?.tab) {
+      onNavigate?.(notification.link.tab, notification.link.id);
+      setIsOpen(false);
+    }
+  };
+
+  const formatTimeAgo = (timestamp: string) => {
+    const diff = Date.now() - new Date(timestamp).getTime();
+
+    if (diff < 60000) return 'Just now';
+    if (diff < 3600000) return `${Math.floor(diff / 60000)} min ago`;
+    if (diff < 86400000) return `${Math.floor(diff / 3600000)} hour${Math.floor(diff / 3600000) === 1 ? '' : 's'} ago`;
+    return new Date(timestamp).toLocaleDateString();
+  };
+
+  const trigger = (
+    <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+      <Bell className="h-4 w-4" />
+      {unreadCount > 0 && (
+        <motion.div
+          className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white rounded-full flex items-center justify-center text-xs"
+          animate={{ scale: [1, 1.2, 1] }}
+          transition={{ duration: 2, repeat: Infinity }}
+        >
+          {unreadCount > 9 ? '9+' : unreadCount}
+        </motion.div>
+      )}
+    </Button>
+  );
+
+  const list = (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+        </p>
+        <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Mark all read
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ScrollArea className="max-h-96">
+        <div className="space-y-1 pr-2">
+          <AnimatePresence initial={false}>
+            {notifications.map((notification) => {
+              const Icon = typeIcons[notification.type] || Bell;
+              return (
+                <motion.div
+                  key={notification.id}
+                  layout
+                  initial={{ opacity: 0, y: -5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  className={`group flex gap-3 p-2 rounded-lg cursor-pointer hover:bg-gray-50 ${notification.read ? '' : 'bg-blue-50'}`}
+                  onClick={() => openNotification(notification)}
+                >
+                  <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${notification.type === 'sync_failed' ? 'text-red-500' : 'text-blue-500'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read ? '' : 'font-medium'}`}>{notification.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{formatTimeAgo(notification.created)}</p>
+                  </div>
+                  <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {!notification.read && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label="Mark as read"
+                        onClick={(e) => { e.stopPropagation(); markRead(notification.id); }}
+                      >
+                        <Check className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      aria-label="Dismiss"
+                      onClick={(e) => { e.stopPropagation(); dismiss(notification.id); }}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+
+          {notifications.length === 0 && !isLoading && (
+            <p className="text-sm text-muted-foreground text-center py-6">No notifications yet</p>
+          )}
+
+          {nextCursor && (
+            <Button variant="ghost" size="sm" className="w-full" disabled={isLoading} onClick={() => loadNotifications(nextCursor)}>
+              {isLoading ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+
+  // Small screens get a full-height sheet instead of a popover
+  if (isMobile) {
+    return (
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetTrigger asChild>{trigger}</SheetTrigger>
+        <SheetContent side="right">
+          <SheetHeader>
+            <SheetTitle>Notifications</SheetTitle>
+            <SheetDescription>Overdue tasks, sync problems and insights</SheetDescription>
+          </SheetHeader>
+          <div className="px-4">{list}</div>
+        </SheetContent>
+      </Sheet>
+    );
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+      <PopoverContent align="end" side="right" className="w-80">
+        <h4 className="font-medium mb-2">Notifications</h4>
+        {list}
+      </PopoverContent>
+    </Popover>
+  );
+}
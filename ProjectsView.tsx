@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Skeleton } from "./ui/skeleton";
+import { CheckCircle2, Circle, FolderOpen, Inbox } from "lucide-react";
+import { projectsAPI, handleAPIError } from '../utils/api';
+
+interface ProjectsViewProps {
+  // A project or task to scroll to and highlight, e.g. one the assistant cited
+  focusId?: string | null;
+}
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return 'destructive';
+    case 'medium': return 'default';
+    default: return 'secondary';
+  }
+};
+
+const FOCUS_CLASSES = 'ring-2 ring-purple-400 bg-purple-50';
+
+function TaskRow({ task, focused }: { task: any; focused: boolean }) {
+  return (
+    <div
+      data-record-id={task.id}
+      className={`flex items-center gap-2 p-2 rounded-lg text-sm ${focused ? FOCUS_CLASSES : ''}`}
+    >
+      {task.status === 'completed'
+        ? <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+        : <Circle className="h-4 w-4 text-muted-foreground shrink-0" />}
+      <span className={`flex-1 ${task.status === 'completed' ? 'line-through text-muted-foreground' : ''}`}>{task.title}</span>
+      {task.due_date && <span className="text-xs text-muted-foreground">{new Date(task.due_date).toLocaleDateString()}</span>}
+      <Badge variant={getPriorityColor(task.priority)}>{task.priority}</Badge>
+    </div>
+  );
+}
+
+// Every project with its tasks, then the tasks outside any project (e.g. made from captures)
+export function ProjectsView({ focusId }: ProjectsViewProps) {
+  const [projects, setProjects] = useState<any[]>([]);
+  const [standaloneTasks, setStandaloneTasks] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const [response, standalone] = await Promise.all([
+          projectsAPI.getProjects(),
+          projectsAPI.queryTasks({ standalone: true, limit: 100 })
+        ]);
+        setProjects(response.projects || []);
+        setStandaloneTasks(standalone.tasks || []);
+      } catch (err) {
+        setError(handleAPIError(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProjects();
+  }, []);
+
+  useEffect(() => {
+    if (!focusId || isLoading) return;
+    listRef.current?.querySelector(`[data-record-id="${CSS.escape(focusId)}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusId, isLoading]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[0, 1, 2].map(i => <Skeleton key={i} className="h-32 w-full" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" ref={listRef}>
+      <div>
+        <h1>Projects</h1>
+        <p className="text-muted-foreground">Your projects and their tasks</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {projects.length === 0 && standaloneTasks.length === 0 && !error && (
+        <div className="text-center py-8 text-muted-foreground">
+          <FolderOpen className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p>No projects yet.</p>
+        </div>
+      )}
+
+      {projects.map(project => (
+        <Card key={project.id} data-record-id={project.id} className={project.id === focusId ? FOCUS_CLASSES : undefined}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FolderOpen className="h-5 w-5" />
+              <span className="flex-1">{project.name}</span>
+              <Badge variant="outline" className="capitalize">{project.status}</Badge>
+            </CardTitle>
+            {project.description && <p className="text-sm text-muted-foreground">{project.description}</p>}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              <Progress value={project.progress || 0} className="h-2 flex-1" />
+              <span>{project.progress || 0}%</span>
+              {project.deadline && <span>Due {new Date(project.deadline).toLocaleDateString()}</span>}
+            </div>
+
+            {(project.tasks || []).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tasks</p>
+            ) : (
+              <div className="space-y-1">
+                {project.tasks.map((task: any) => (
+                  <TaskRow key={task.id} task={task} focused={task.id === focusId} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {standaloneTasks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              <span className="flex-1">Other tasks</span>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">Tasks outside any project, such as ones created from captures</p>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {standaloneTasks.map(task => (
+              <TaskRow key={task.id} task={task} focused={task.id === focusId} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
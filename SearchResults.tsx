@@ -0,0 +1,204 @@
+import { Fragment } from "react";
+import { Badge } from "./ui/badge";
+import { CheckSquare, FileText, FolderOpen, Loader2, StickyNote, X } from "lucide-react";
+import { commandRegistry, PaletteCommand } from "./CommandPalette";
+import { aiAPI } from '../utils/api';
+
+// Mirrors the server's query language closely enough to show what a query
+// means while it's typed; the server's parse (returned with the results) is
+// what actually filters.
+const FILTER_KEYS = ['type', 'priority', 'status', 'tag', 'source', 'assignee', 'project', 'due', 'created'];
+const TOKEN_PATTERN = /(-?)(\w+):(?:"([^"]*)"|(\S+))|(-?)"([^"]*)"|(\S+)/g;
+
+export interface SearchQueryToken {
+  key: string;
+  value: string;
+  // -key:value, which excludes records with the value
+  negated: boolean;
+  // The token as typed, so a chip can be removed from the query
+  raw: string;
+}
+
+export interface ParsedSearchInput {
+  filters: SearchQueryToken[];
+  // Free words and quoted phrases, highlighted in results; excluded ones aren't
+  terms: string[];
+}
+
+export function parseSearchInput(query: string): ParsedSearchInput {
+  const filters: SearchQueryToken[] = [];
+  const terms: string[] = [];
+  for (const [raw, negatedKey, key, quotedValue, value, negatedPhrase, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (key && FILTER_KEYS.includes(key.toLowerCase())) {
+      filters.push({ key: key.toLowerCase(), value: quotedValue ?? value, negated: !!negatedKey, raw });
+    } else if (!negatedKey && !negatedPhrase && !/^-[^-]/.test(word ?? '')) {
+      const term = (phrase ?? word ?? raw).trim();
+      if (term.length > 1) terms.push(term);
+    }
+  }
+  return { filters, terms };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (!text || terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">{part}</mark>
+          : <Fragment key={i}>{part}</Fragment>
+      )}
+    </>
+  );
+}
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+  label?: string;
+}
+
+export interface SearchResponse {
+  results: Record<string, any[]>;
+  facets?: Record<string, SearchFacetValue[]>;
+  total?: number;
+}
+
+interface SearchResultsProps {
+  query: string;
+  response: SearchResponse | null;
+  loading: boolean;
+  error: string | null;
+  onSelect: (tab: string) => void;
+  onAddFilter: (key: string, value: string) => void;
+  onRemoveFilter: (token: SearchQueryToken) => void;
+}
+
+const GROUPS = [
+  { bucket: 'tasks', label: 'Tasks', icon: CheckSquare, tab: 'projects' },
+  { bucket: 'projects', label: 'Projects', icon: FolderOpen, tab: 'projects' },
+  { bucket: 'captures', label: 'Captures', icon: FileText, tab: 'capture' },
+  { bucket: 'notes', label: 'Notes', icon: StickyNote, tab: 'capture' }
+];
+
+const FACETS = [
+  { key: 'type', label: 'Type' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'status', label: 'Status' },
+  { key: 'source', label: 'Source' },
+  { key: 'project', label: 'Project' },
+  { key: 'tag', label: 'Tag' }
+];
+
+// Facet values are bucket names; the query language takes the singular
+const TYPE_VALUES: Record<string, string> = { tasks: 'task', projects: 'project', captures: 'capture', notes: 'note' };
+
+const titleOf = (item: any) => item.title || item.name || item.processedContent?.summary || item.content || 'Untitled';
+
+const detailOf = (item: any) => {
+  const text = item.description || (item.processedContent?.summary ? item.content : '') || '';
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+// Live results in the command palette, using the same query language
+commandRegistry.register({
+  id: 'search',
+  group: 'Search results',
+  mode: 'query',
+  load: async (query) => {
+    if (query.length < 2) return [];
+
+    const response: SearchResponse = await aiAPI.search(query);
+    return GROUPS.flatMap(group => (response.results[group.bucket] || []).slice(0, 3).map((item: any): PaletteCommand => ({
+      id: `search:${group.bucket}:${item.id}`,
+      label: titleOf(item),
+      icon: group.icon,
+      run: ({ navigate }) => navigate(group.tab)
+    })));
+  }
+});
+
+export function SearchResults({ query, response, loading, error, onSelect, onAddFilter, onRemoveFilter }: SearchResultsProps) {
+  const { filters, terms } = parseSearchInput(query);
+  const groups = GROUPS.filter(group => response?.results[group.bucket]?.length);
+  const facets = FACETS
+    .map(facet => ({ ...facet, values: response?.facets?.[facet.key] || [] }))
+    .filter(facet => facet.values.length > 1);
+
+  return (
+    <div className="p-2 max-h-[28rem] overflow-y-auto">
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {filters.map(token => (
+            <Badge key={token.raw} variant="secondary" className="gap-1 text-xs">
+              {token.negated && '-'}{token.key}:{token.value}
+              <button onClick={() => onRemoveFilter(token)} aria-label={`Remove ${token.key} filter`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600 px-2 py-1">{error}</p>
+      ) : loading && !response ? (
+        <div className="flex items-center gap-2 px-2 py-1 text-sm text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Searching...
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground px-2 py-1">No results</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.bucket}>
+              <p className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                <group.icon className="h-3 w-3" />
+                {group.label}
+              </p>
+              <div className="space-y-1">
+                {response!.results[group.bucket].map((item: any) => (
+                  <div
+                    key={item.id}
+                    className="px-2 py-1 hover:bg-gray-50 rounded text-sm cursor-pointer"
+                    onClick={() => onSelect(group.tab)}
+                  >
+                    <p className="truncate"><Highlight text={titleOf(item)} terms={terms} /></p>
+                    {detailOf(item) && (
+                      <p className="text-xs text-muted-foreground truncate"><Highlight text={detailOf(item)} terms={terms} /></p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!error && facets.length > 0 && (
+        <div className="border-t mt-2 pt-2 space-y-1">
+          {facets.map(facet => (
+            <div key={facet.key} className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground w-14">{facet.label}</span>
+              {facet.values.map(value => (
+                <Badge
+                  key={value.value}
+                  variant="outline"
+                  className="text-xs cursor-pointer hover:bg-gray-50"
+                  onClick={() => onAddFilter(facet.key, facet.key === 'type' ? TYPE_VALUES[value.value] || value.value : value.value)}
+                >
+                  {value.label || value.value} <span className="text-muted-foreground ml-1">{value.count}</span>
+                </Badge>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -23,19 +23,96 @@ import {
   Clock,
   AlertCircle,
   Upload,
-  RefreshCw
+  RefreshCw,
+  GitMerge,
+  Inbox,
+  Archive,
+  AlarmClock,
+  ListTodo,
+  FolderPlus,
+  Undo2,
+  Paperclip,
+  X
 } from "lucide-react";
-import { captureAPI, handleAPIError } from '../utils/api';
-
-export function UniversalCapture() {
+import { captureAPI, CaptureStatus, handleAPIError } from '../utils/api';
+import { formatDuration, isRecordingSupported, useVoiceRecorder } from '../utils/voice-recorder';
+import { commandRegistry, PaletteCommand } from "./CommandPalette";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Types the attachment preview route shows inline (see GET /captures/:id/attachments/:attachmentId)
+const PREVIEW_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const TRIAGE_VIEWS: Array<{ value: CaptureStatus; label: string }> = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'snoozed', label: 'Snoozed' },
+  { value: 'actioned', label: 'Done' },
+  { value: 'archived', label: 'Archived' }
+];
+
+// "idea: ship the beta" in the command palette captures an idea
+const QUICK_CAPTURE = /^(note|idea|task|email|link)\s*:\s*(\S[\s\S]*)$/i;
+
+commandRegistry.register({
+  id: 'quick-capture',
+  group: 'Quick capture',
+  mode: 'query',
+  load: (query): PaletteCommand[] => {
+    const match = query.match(QUICK_CAPTURE);
+    if (!match) return [];
+
+    const type = match[1].toLowerCase();
+    const content = match[2].trim();
+    return [{
+      id: 'quick-capture',
+      label: `Capture ${type}: ${content}`,
+      icon: Zap,
+      // A rejected capture throws, which the palette shows as an error toast. The demo
+      // fallback stores nothing (it has no id), so that isn't reported as captured either.
+      run: async () => {
+        const result = await captureAPI.processCapture({ type, content, metadata: { source: 'command_palette' } });
+        if (!result.id) {
+          throw new Error("Couldn't reach the server, so nothing was captured");
+        }
+        return `Captured ${type}`;
+      }
+    }];
+  }
+});
+
+interface UniversalCaptureProps {
+  // A capture to show and highlight in the recent list, e.g. one the assistant cited
+  focusId?: string | null;
+}
+
+export function UniversalCapture({ focusId }: UniversalCaptureProps) {
   const [inputValue, setInputValue] = useState("");
   const [captureType, setCaptureType] = useState("note");
   const [priority, setPriority] = useState("medium");
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const recorder = useVoiceRecorder();
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [recentCaptures, setRecentCaptures] = useState<any[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  // Object URLs of image attachments and voice recordings in the recent list, by attachment id
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const previewsRef = useRef<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Stored captures that look like the same item, each group offered for merging
+  const [duplicateGroups, setDuplicateGroups] = useState<any[]>([]);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  // Keyboard triage: the capture under the cursor, or the marked ones, are acted on
+  const [triageView, setTriageView] = useState<CaptureStatus>('inbox');
+  const [triageItems, setTriageItems] = useState<any[]>([]);
+  const [triageCursor, setTriageCursor] = useState(0);
+  const [markedIds, setMarkedIds] = useState<Set<string>>(new Set());
+  const [isTriaging, setIsTriaging] = useState(false);
+  const triageListRef = useRef<HTMLDivElement>(null);
+  const recentListRef = useRef<HTMLDivElement>(null);
   const [aiPreview, setAiPreview] = useState<any>(null);
   const [suggestions, setSuggestions] = useState([
     { type: "Task", text: "Review Q4 performance metrics", category: "work" },
@@ -55,8 +132,36 @@ export function UniversalCapture() {
 
   useEffect(() => {
     loadRecentCaptures();
+    return () => Object.values(previewsRef.current).forEach(url => URL.revokeObjectURL(url));
   }, []);
 
+  useEffect(() => {
+    const previewed = recentCaptures.flatMap(capture => (capture.attachments || [])
+      .filter((file: any) => (PREVIEW_IMAGE_TYPES.includes(file.contentType) || file.id === capture.voice?.attachmentId) && !previewsRef.current[file.id])
+      .map((file: any) => ({ captureId: capture.id, file })));
+    for (const { captureId, file } of previewed) {
+      captureAPI.getAttachmentBlob(captureId, file.id)
+        .then(blob => {
+          previewsRef.current[file.id] = URL.createObjectURL(blob);
+          setPreviews({ ...previewsRef.current });
+        })
+        .catch(err => console.log('Load attachment preview error:', err));
+    }
+  }, [recentCaptures]);
+
+  useEffect(() => {
+    loadTriageItems(triageView);
+  }, [triageView]);
+
+  useEffect(() => {
+    if (!focusId) return;
+    recentListRef.current?.querySelector(`[data-record-id="${CSS.escape(focusId)}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusId, recentCaptures]);
+
+  useEffect(() => {
+    triageListRef.current?.querySelector(`[data-index="${triageCursor}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [triageCursor]);
+
   useEffect(() => {
     // Generate AI preview when content changes
     if (inputValue.trim() && inputValue.length > 10) {
@@ -143,9 +248,13 @@ export function UniversalCapture() {
   };
 
   const loadRecentCaptures = async () => {
+    captureAPI.getDuplicates().then(response => setDuplicateGroups(response.groups || []));
     try {
       const response = await captureAPI.getCaptures();
-      setRecentCaptures(response.captures?.slice(0, 5) || []);
+      const captures: any[] = response.captures || [];
+      // The focused capture stays in the list even when it isn't one of the latest
+      const focused = captures.findIndex(capture => capture.id === focusId);
+      setRecentCaptures(focused >= 5 ? [captures[focused], ...captures.slice(0, 4)] : captures.slice(0, 5));
     } catch (err) {
       console.log('Load captures error:', err);
       // Use mock data on error
@@ -159,29 +268,41 @@ export function UniversalCapture() {
   };
 
   const handleCapture = async () => {
-    if (!inputValue.trim()) return;
+    if (!inputValue.trim() && pendingFiles.length === 0) return;
 
     setIsProcessing(true);
     setError("");
     setSuccess("");
 
     try {
+      // Files on their own are a media capture, described by their names on the server
       const result = await captureAPI.processCapture({
-        type: captureType,
-        content: inputValue,
+        type: inputValue.trim() ? captureType : 'file',
+        ...(inputValue.trim() && { content: inputValue }),
         priority: priority,
         metadata: {
           source: 'universal_capture',
           aiPreview: aiPreview
         }
-      });
-
-      setSuccess(`Successfully captured and processed! Generated ${result.processedContent?.suggestedActions?.length || 0} action suggestions.`);
+      }, pendingFiles);
+
+      const unread = pendingFiles.length > 0 && result.duplicateCount === 0
+        ? (result.attachments || []).filter((file: any) => file.textStatus !== 'extracted').map((file: any) => file.name)
+        : [];
+      setSuccess(result.duplicateCount > 0
+        ? 'Already captured - the existing capture was updated instead of adding a copy.'
+        : result.link && result.link.status !== 'extracted'
+          ? `Saved the link, but couldn't read the page (${result.link.error}). It was analysed from the URL.`
+          : unread.length > 0
+            ? `Saved ${unread.join(', ')}, but no text could be read from ${unread.length === 1 ? 'it' : 'them'}, so only the file name was analysed.`
+            : `Successfully captured and processed! Generated ${result.processedContent?.suggestedActions?.length || 0} action suggestions.`);
       setInputValue("");
+      setPendingFiles([]);
       setAiPreview(null);
       
       // Refresh recent captures
       await loadRecentCaptures();
+      await loadTriageItems();
 
     } catch (err) {
       setError(handleAPIError(err));
@@ -190,20 +311,214 @@ export function UniversalCapture() {
     }
   };
 
-  const toggleListening = () => {
-    setIsListening(!isListening);
-    
-    if (!isListening) {
-      // Mock voice recognition
-      setTimeout(() => {
-        setInputValue("Meeting with John about the new AI features for next quarter. Need to prioritize the universal capture system and discuss integration timeline.");
-        setIsListening(false);
-      }, 2000);
-    } else {
-      setInputValue("");
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    setPendingFiles(current => [...current, ...Array.from(files)]);
+    // Lets the same file be picked again after it's removed
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const openAttachment = async (captureId: string, file: any) => {
+    try {
+      const blob = await captureAPI.getAttachmentBlob(captureId, file.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setError(handleAPIError(err));
+    }
+  };
+
+  // The first click starts recording; the second stores the recording as a voice capture
+  const toggleListening = async () => {
+    setError("");
+    if (!recorder.isRecording) {
+      setSuccess("");
+      try {
+        await recorder.start();
+      } catch (err) {
+        setError(`Couldn't start recording: ${(err as Error).message}`);
+      }
+      return;
+    }
+
+    const recording = await recorder.stop();
+    if (!recording) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await captureAPI.captureVoice(recording, {
+        priority,
+        metadata: { source: 'universal_capture' }
+      });
+      const voice = result.voice;
+      setSuccess(result.duplicateCount > 0
+        ? 'Already captured - the existing capture was updated instead of adding a copy.'
+        : voice?.status === 'transcribed'
+          ? `Voice memo captured: "${voice.transcript}"`
+          : voice?.status === 'failed'
+            ? `Saved the voice memo (${formatDuration(recording.durationMs)}), but it couldn't be transcribed.`
+            : `Saved the voice memo (${formatDuration(recording.durationMs)}). No speech was recognised.`);
+
+      await loadRecentCaptures();
+      await loadTriageItems();
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const loadTriageItems = async (view: CaptureStatus = triageView) => {
+    try {
+      const response = await captureAPI.getCapturesByStatus(view);
+      setTriageItems(response.captures || []);
+    } catch (err) {
+      console.log('Load triage captures error:', err);
+      setTriageItems([]);
+    }
+    setTriageCursor(0);
+    setMarkedIds(new Set());
+  };
+
+  const triageTargets = () => markedIds.size > 0
+    ? triageItems.filter(capture => markedIds.has(capture.id))
+    : triageItems.slice(triageCursor, triageCursor + 1);
+
+  // Drops captures that moved out of the current view and keeps the cursor in range
+  const removeFromTriage = (ids: string[]) => {
+    const remaining = triageItems.filter(capture => !ids.includes(capture.id));
+    setTriageItems(remaining);
+    setTriageCursor(cursor => Math.max(Math.min(cursor, remaining.length - 1), 0));
+    setMarkedIds(new Set());
+  };
+
+  const triage = async (status: CaptureStatus, until?: string) => {
+    const targets = triageTargets();
+    if (targets.length === 0 || isTriaging) return;
+
+    setIsTriaging(true);
+    setError("");
+    try {
+      const result = await captureAPI.triageCaptures(targets.map(capture => capture.id), status, until);
+      if (status === triageView) {
+        // Re-snoozed; the dates changed
+        await loadTriageItems();
+      } else {
+        removeFromTriage(result.updated.map((capture: any) => capture.id));
+      }
+      if (result.skipped.length > 0) {
+        setError(`${result.skipped.length} capture${result.skipped.length === 1 ? '' : 's'} couldn't be moved to ${status}.`);
+      }
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setIsTriaging(false);
+    }
+  };
+
+  // Creates a task or project from the capture under the cursor and marks it done
+  const convertCapture = async (to: 'task' | 'project') => {
+    const capture = triageItems[triageCursor];
+    if (!capture || isTriaging) return;
+
+    setIsTriaging(true);
+    setError("");
+    try {
+      const result = await captureAPI.convertCapture(capture.id, to);
+      const created = to === 'task' ? result.task?.title : result.project?.name;
+      setSuccess(`Created ${to} "${created}" from the capture.`);
+      removeFromTriage(triageView === 'actioned' ? [] : [capture.id]);
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setIsTriaging(false);
+    }
+  };
+
+  const toggleMarked = (captureId: string) => {
+    setMarkedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(captureId)) {
+        next.delete(captureId);
+      } else {
+        next.add(captureId);
+      }
+      return next;
+    });
+  };
+
+  const handleTriageKey = (e: React.KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    switch (e.key) {
+      case 'j':
+      case 'ArrowDown':
+        setTriageCursor(cursor => Math.min(cursor + 1, triageItems.length - 1));
+        break;
+      case 'k':
+      case 'ArrowUp':
+        setTriageCursor(cursor => Math.max(cursor - 1, 0));
+        break;
+      case 'x':
+        if (triageItems[triageCursor]) toggleMarked(triageItems[triageCursor].id);
+        break;
+      case 'd':
+        triage('actioned');
+        break;
+      case 'a':
+        triage('archived');
+        break;
+      case 's':
+        triage('snoozed');
+        break;
+      case 'S':
+        triage('snoozed', new Date(Date.now() + 7 * DAY_MS).toISOString());
+        break;
+      case 'u':
+        triage('inbox');
+        break;
+      case 't':
+        convertCapture('task');
+        break;
+      case 'p':
+        convertCapture('project');
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Keeps one capture of the group and folds the rest into it
+  const mergeDuplicates = async (group: any, keep: any) => {
+    setMergingId(keep.id);
+    setError("");
+    try {
+      const others = group.captures.filter((capture: any) => capture.id !== keep.id);
+      await captureAPI.mergeCaptures(keep.id, others.map((capture: any) => capture.id));
+      setSuccess(`Merged ${others.length} duplicate${others.length === 1 ? '' : 's'} into one capture.`);
+      await loadRecentCaptures();
+    } catch (err) {
+      setError(handleAPIError(err));
+    } finally {
+      setMergingId(null);
     }
   };
 
+  // "Focus Weekly · by Dana Whitfield · 3/18/2024", or why the page couldn't be read
+  const describeLink = (link: any) => {
+    if (link.status !== 'extracted') return `${link.finalUrl} - ${link.error}`;
+    return [
+      link.siteName || new URL(link.finalUrl).hostname,
+      link.author && `by ${link.author}`,
+      link.publishedAt && new Date(link.publishedAt).toLocaleDateString()
+    ].filter(Boolean).join(' · ');
+  };
+
+  const duplicateLabel = (match: string) =>
+    match === 'source' ? 'Same source item' : match === 'exact' ? 'Identical text' : 'Nearly identical';
+
   const formatTimeAgo = (timestamp: string) => {
     const now = Date.now();
     const time = new Date(timestamp).getTime();
@@ -293,39 +608,66 @@ export function UniversalCapture() {
 
           <div className="flex gap-2">
             <Textarea
-              placeholder="Type, paste, or speak anything... emails, ideas, tasks, links, notes..."
-              value={inputValue}
+              placeholder={recorder.isRecording ? "Listening... click Stop to save the voice memo" : "Type, paste, or speak anything... emails, ideas, tasks, links, notes..."}
+              value={recorder.isRecording ? recorder.liveText : inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               className="min-h-[120px] resize-none"
-              disabled={isListening}
+              disabled={recorder.isRecording}
             />
           </div>
+
+          {pendingFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pendingFiles.map((file, index) => (
+                <Badge key={`${file.name}-${index}`} variant="secondary" className="flex items-center gap-1">
+                  <Paperclip className="h-3 w-3" />
+                  {file.name}
+                  <span className="text-muted-foreground">{formatSize(file.size)}</span>
+                  <button
+                    type="button"
+                    title="Remove"
+                    onClick={() => setPendingFiles(current => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
           
           <div className="flex items-center justify-between">
             <div className="flex gap-2">
               <Button
-                variant={isListening ? "destructive" : "outline"}
+                variant={recorder.isRecording ? "destructive" : "outline"}
                 size="sm"
                 onClick={toggleListening}
-                className={isListening ? "animate-pulse" : ""}
-                disabled={isProcessing}
+                className={recorder.isRecording ? "animate-pulse" : ""}
+                disabled={isProcessing || !isRecordingSupported()}
+                title={isRecordingSupported() ? "Record a voice memo" : "This browser can't record audio"}
               >
                 <Mic className="h-4 w-4 mr-1" />
-                {isListening ? "Listening..." : "Voice"}
+                {recorder.isRecording ? `Stop ${formatDuration(recorder.elapsedMs)}` : "Voice"}
               </Button>
               <Button variant="outline" size="sm" disabled>
                 <Camera className="h-4 w-4 mr-1" />
                 Scan
               </Button>
-              <Button variant="outline" size="sm" disabled>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isProcessing}>
                 <Upload className="h-4 w-4 mr-1" />
                 Upload
               </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => addFiles(e.target.files)}
+              />
             </div>
             
             <Button 
               onClick={handleCapture} 
-              disabled={!inputValue.trim() || isProcessing}
+              disabled={(!inputValue.trim() && pendingFiles.length === 0) || isProcessing || recorder.isRecording}
             >
               {isProcessing ? (
                 <Loader2 className="h-4 w-4 mr-1 animate-spin" />
@@ -424,6 +766,103 @@ export function UniversalCapture() {
         </Card>
       </div>
 
+      {/* Triage */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              Triage
+              {triageItems.length > 0 && <Badge variant="outline">{triageItems.length}</Badge>}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={triageView} onValueChange={(value) => setTriageView(value as CaptureStatus)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRIAGE_VIEWS.map((view) => (
+                    <SelectItem key={view.value} value={view.value}>{view.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="sm" onClick={() => loadTriageItems()}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Click the list, then: j/k move, x mark, d done, a archive, s snooze a day (S a week), t to task, p to project, u back to inbox
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div
+            ref={triageListRef}
+            tabIndex={0}
+            onKeyDown={handleTriageKey}
+            className="space-y-2 max-h-96 overflow-y-auto rounded-lg outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {triageItems.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Inbox className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>{triageView === 'inbox' ? 'Inbox zero - nothing left to triage.' : 'No captures here.'}</p>
+              </div>
+            ) : (
+              triageItems.map((capture, index) => (
+                <div
+                  key={capture.id}
+                  data-index={index}
+                  onClick={() => setTriageCursor(index)}
+                  className={`flex items-center gap-3 p-2 border rounded-lg cursor-pointer ${index === triageCursor ? 'border-blue-400 bg-blue-50' : ''} ${markedIds.has(capture.id) ? 'bg-yellow-50' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={markedIds.has(capture.id)}
+                    onChange={() => toggleMarked(capture.id)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  <Badge variant={getPriorityColor(capture.processedContent?.priority || 'medium')}>
+                    {capture.type}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{capture.processedContent?.summary || capture.content}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTimeAgo(capture.timestamp)}
+                      {capture.snoozedUntil && ` - snoozed until ${new Date(capture.snoozedUntil).toLocaleDateString()}`}
+                      {capture.links?.length > 0 && ` - ${capture.links.map((link: any) => link.kind).join(', ')} created`}
+                    </p>
+                  </div>
+                  {index === triageCursor && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      {triageView !== 'inbox' && (
+                        <Button variant="ghost" size="sm" title="Back to inbox (u)" disabled={isTriaging} onClick={() => triage('inbox')}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" title="Done (d)" disabled={isTriaging} onClick={() => triage('actioned')}>
+                        <CheckCircle className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Snooze a day (s)" disabled={isTriaging} onClick={() => triage('snoozed')}>
+                        <AlarmClock className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Archive (a)" disabled={isTriaging} onClick={() => triage('archived')}>
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Create task (t)" disabled={isTriaging} onClick={() => convertCapture('task')}>
+                        <ListTodo className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Create project (p)" disabled={isTriaging} onClick={() => convertCapture('project')}>
+                        <FolderPlus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Recent Captures */}
       <Card>
         <CardHeader>
@@ -435,7 +874,36 @@ export function UniversalCapture() {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
+          {duplicateGroups.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg border border-yellow-200 bg-yellow-50 space-y-3">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <GitMerge className="h-4 w-4" />
+                Possible duplicates
+              </p>
+              {duplicateGroups.map((group) => (
+                <div key={group.captures[0].id} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{duplicateLabel(group.match)} - keep one, the others are merged into it</p>
+                  {group.captures.map((capture: any) => (
+                    <div key={capture.id} className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline">{capture.type}</Badge>
+                      <span className="flex-1 truncate">{capture.content}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{formatTimeAgo(capture.timestamp)}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={mergingId !== null}
+                        onClick={() => mergeDuplicates(group, capture)}
+                      >
+                        {mergingId === capture.id ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Keep'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-3" ref={recentListRef}>
             {recentCaptures.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Zap className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -443,15 +911,67 @@ export function UniversalCapture() {
               </div>
             ) : (
               recentCaptures.map((capture) => (
-                <div key={capture.id} className="flex items-center gap-4 p-3 border rounded-lg">
+                <div
+                  key={capture.id}
+                  data-record-id={capture.id}
+                  className={`flex items-center gap-4 p-3 border rounded-lg ${capture.id === focusId ? 'ring-2 ring-purple-400 bg-purple-50' : ''}`}
+                >
                   <Badge variant={getPriorityColor(capture.processedContent?.priority || 'medium')}>
                     {capture.type}
                   </Badge>
                   <div className="flex-1">
-                    <p className="line-clamp-2">{capture.content}</p>
+                    <p className="line-clamp-2">{capture.link?.title || capture.content}</p>
+                    {capture.link && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        <Link className="h-3 w-3 inline mr-1" />
+                        {describeLink(capture.link)}
+                      </p>
+                    )}
+                    {capture.voice && (
+                      <div className="mt-1">
+                        {previews[capture.voice.attachmentId] && (
+                          <audio controls src={previews[capture.voice.attachmentId]} className="h-8 w-full max-w-xs" />
+                        )}
+                        {capture.voice.status !== 'transcribed' && (
+                          <p className="text-xs text-muted-foreground">
+                            {capture.voice.status === 'failed' ? `Not transcribed: ${capture.voice.error}` : 'No speech was recognised'}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    {capture.attachments?.some((file: any) => file.id !== capture.voice?.attachmentId) && (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {capture.attachments.filter((file: any) => file.id !== capture.voice?.attachmentId).map((file: any) => (
+                          <button
+                            key={file.id}
+                            type="button"
+                            title={file.text ? file.text.slice(0, 200) : file.textError || file.name}
+                            onClick={() => openAttachment(capture.id, file)}
+                            className="flex items-center gap-2 max-w-xs p-1 pr-2 border rounded text-left text-xs hover:bg-muted"
+                          >
+                            {previews[file.id] ? (
+                              <img src={previews[file.id]} alt={file.name} className="h-10 w-10 object-cover rounded" />
+                            ) : file.contentType.startsWith('image/') ? (
+                              <Image className="h-4 w-4 shrink-0" />
+                            ) : (
+                              <FileText className="h-4 w-4 shrink-0" />
+                            )}
+                            <span className="min-w-0">
+                              <span className="block truncate font-medium">{file.name}</span>
+                              <span className="block truncate text-muted-foreground">
+                                {formatSize(file.size)}{file.text && ` · ${file.text.slice(0, 60)}`}
+                              </span>
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-sm text-muted-foreground flex items-center gap-1">
                       <Clock className="h-3 w-3" />
                       {formatTimeAgo(capture.timestamp)}
+                      {capture.duplicateCount > 0 && (
+                        <span className="ml-2">Captured {capture.duplicateCount + 1} times</span>
+                      )}
                     </p>
                   </div>
                   <div className="flex items-center gap-2">
@@ -1,65 +1,96 @@
 import * as kv from './kv_store.tsx';
+import * as llm from './llm.tsx';
+import { captureIndex, projectIndex, taskIndex } from './kv_index.tsx';
+import { toolRegistry, toolService } from './tool-service.tsx';
+import { searchToolSchema } from './validation.tsx';
+import { AIMessage, ConversationNotFoundError, conversationService, MessageGeneration, newMessageId } from './conversation-service.tsx';
+import { retrievalService, setRanker, Source, toDocument } from './retrieval.tsx';
+import { HybridRanker } from './embeddings.tsx';
+import {
+  computeFacets,
+  matchesFilters,
+  mergeFilters,
+  parseSearchQuery,
+  resolveProjectScope,
+  SearchBucket,
+  SearchFilters,
+  SearchItem,
+  SearchQueryError
+} from './search-query.tsx';
 
-interface AIMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
+interface StreamOptions {
+  // Continues this thread; a new one is started when omitted
+  conversationId?: string;
+  signal?: AbortSignal;
+  onDelta: (text: string) => void | Promise<void>;
 }
 
-interface AIInsight {
-  type: 'productivity' | 'schedule' | 'pattern' | 'suggestion';
-  title: string;
-  description: string;
-  action?: string;
-  priority: 'high' | 'medium' | 'low';
-  confidence: number;
-}
+// Search and chat retrieval both rank keyword and semantic matches together
+const searchRanker = new HybridRanker();
+setRanker(searchRanker);
+
+// Recorded with every reply; bump it when buildPrompt's instructions change so
+// feedback on the old and new prompt can be told apart
+const CHAT_PROMPT_VERSION = 1;
+
+// For replies that didn't come from the model
+const NO_MODEL = { provider: 'none', model: 'none', promptVersion: CHAT_PROMPT_VERSION };
+
+const chatGeneration = (sources: Source[], model: { provider: string; model: string }): MessageGeneration => ({
+  promptType: sources.length > 0 ? 'chat-grounded' : 'chat',
+  promptVersion: CHAT_PROMPT_VERSION,
+  ...model
+});
 
 class AIService {
-  private async getOpenAIResponse(messages: AIMessage[], userId: string): Promise<string> {
+  // `sources` are the user's items retrieved for the latest message; the model is
+  // asked to cite them by number
+  private async buildPrompt(messages: AIMessage[], userId: string, sources: Source[]): Promise<llm.LLMMessage[]> {
+    const userProfile = await kv.get(`user:${userId}:profile`);
+    
+    const systemPrompt = `You are an AI assistant for a personal operating system. The user's name is ${userProfile?.name || 'User'}. 
+    
+    Items from the user's captures, tasks and projects that may be relevant:
+    ${retrievalService.formatForPrompt(sources)}
+    
+    When you use one of these items, cite it by its number, e.g. [1]. Don't invent items that aren't listed.
+    Provide helpful, actionable responses that understand their workflow and patterns. Be concise but insightful.`;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...messages.map(({ role, content }) => ({ role, content }))
+    ];
+  }
+
+  private async getAIResponse(messages: AIMessage[], userId: string, sources: Source[]): Promise<{ content: string; generation: MessageGeneration }> {
     try {
-      // Get user context for better AI responses
-      const userProfile = await kv.get(`user:${userId}:profile`);
-      const recentCaptures = await kv.getByPrefix(`user:${userId}:capture:`);
-      const projects = await kv.getByPrefix(`user:${userId}:project:`);
-      
-      const systemPrompt = `You are an AI assistant for a personal operating system. The user's name is ${userProfile?.name || 'User'}. 
-      
-      Context about the user:
-      - Recent captures: ${recentCaptures.slice(0, 5).map(c => c.content || c.text).join(', ')}
-      - Active projects: ${projects.slice(0, 3).map(p => p.name).join(', ')}
-      
-      Provide helpful, actionable responses that understand their workflow and patterns. Be concise but insightful.`;
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            ...messages
-          ],
-          max_tokens: 500,
-          temperature: 0.7,
-        }),
+      const result = await llm.complete({
+        purpose: 'chat',
+        messages: await this.buildPrompt(messages, userId, sources),
+        maxTokens: 500,
+        temperature: 0.7
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.choices[0]?.message?.content || 'I apologize, but I cannot process that request right now.';
+      return {
+        content: result.content || 'I apologize, but I cannot process that request right now.',
+        generation: chatGeneration(sources, { provider: result.provider, model: result.model })
+      };
     } catch (error) {
-      console.log('OpenAI API error:', error);
-      return this.getFallbackResponse(messages[messages.length - 1]?.content || '');
+      console.log('LLM chat error:', error);
+      return {
+        content: this.getFallbackResponse(messages[messages.length - 1]?.content || ''),
+        generation: { promptType: 'fallback', ...NO_MODEL }
+      };
     }
   }
 
+  // The sources a reply cites with [n]; none when it cites nothing, so an answer
+  // that didn't use them isn't shown as backed by them
+  private citedSources(content: string, sources: Source[]): Source[] {
+    const cited = new Set([...content.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1], 10)));
+    return sources.filter(source => cited.has(source.ref));
+  }
+
   private getFallbackResponse(userMessage: string): string {
     const lowerMessage = userMessage.toLowerCase();
     
@@ -78,171 +109,138 @@ class AIService {
     return "I'm here to help you optimize your productivity and workflow. Feel free to ask about your schedule, tasks, projects, or any insights about your work patterns.";
   }
 
-  async processMessage(userId: string, message: string, context?: any): Promise<any> {
+  // Starts a thread when none is given. The returned history excludes the new message.
+  private async openConversation(userId: string, conversationId?: string) {
+    if (!conversationId) {
+      return { conversation: await conversationService.createConversation(userId), history: [] as AIMessage[] };
+    }
+
+    const conversation = await conversationService.getConversation(userId, conversationId);
+    if (!conversation) {
+      throw new ConversationNotFoundError(conversationId);
+    }
+    return { conversation, history: await conversationService.getMessages(userId, conversationId) };
+  }
+
+  // Stores the exchange and names a new thread after its first message
+  private async saveExchange(userId: string, conversationId: string, messages: AIMessage[], isFirst: boolean) {
+    let conversation = await conversationService.appendMessages(userId, conversationId, messages);
+    if (isFirst) {
+      conversation = await conversationService.generateTitle(userId, conversationId, messages[0].content) ?? conversation;
+    }
+    return conversation;
+  }
+
+  async processMessage(userId: string, message: string, context?: any, conversationId?: string): Promise<any> {
     try {
       // Get conversation history
-      const conversationKey = `user:${userId}:conversation`;
-      const conversation = await kv.get(conversationKey) || [];
+      const { conversation, history } = await this.openConversation(userId, conversationId);
       
       // Add user message
       const userMessage: AIMessage = {
+        id: newMessageId(),
         role: 'user',
         content: message,
         timestamp: new Date().toISOString()
       };
       
-      conversation.push(userMessage);
-      
-      // Get AI response
-      const aiContent = await this.getOpenAIResponse(conversation.slice(-10), userId); // Keep last 10 messages for context
+      // Get AI response, grounded in the user's most relevant items
+      const sources = await retrievalService.retrieve(userId, message);
+      const { content: aiContent, generation } = await this.getAIResponse([...history, userMessage].slice(-10), userId, sources); // Keep last 10 messages for context
       
       // Add AI response
       const aiMessage: AIMessage = {
+        id: newMessageId(),
         role: 'assistant',
         content: aiContent,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        sources: this.citedSources(aiContent, sources),
+        generation
       };
       
-      conversation.push(aiMessage);
+      const saved = await this.saveExchange(userId, conversation.id, [userMessage, aiMessage], history.length === 0);
       
-      // Save updated conversation (keep last 20 messages)
-      await kv.set(conversationKey, conversation.slice(-20));
-      
-      // Analyze message for actionable items
-      await this.extractActionableItems(userId, message);
+      // Offer any operations the message asked for; they run once the user confirms
+      const toolCalls = await toolService.proposeFromMessage(userId, message, conversation.id);
       
       return {
         message: aiMessage,
         suggestions: await this.generateSuggestions(userId, message),
-        actions: this.generateQuickActions(message)
+        actions: this.generateQuickActions(message),
+        toolCalls,
+        conversationId: conversation.id,
+        conversation: saved
       };
     } catch (error) {
       console.log('AI message processing error:', error);
+      if (error instanceof ConversationNotFoundError) throw error;
       throw new Error('Failed to process AI message');
     }
   }
 
-  async generateInsights(userId: string): Promise<AIInsight[]> {
+  // Streaming variant of processMessage. Deltas are passed to onDelta as they
+  // arrive. If `signal` aborts, whatever text was produced is still saved to the
+  // conversation, marked as interrupted.
+  async streamMessage(userId: string, message: string, context: any, options: StreamOptions): Promise<any> {
     try {
-      const insights: AIInsight[] = [];
-      
-      // Analyze productivity patterns
-      const productivity = await this.analyzeProductivityPatterns(userId);
-      insights.push(...productivity);
-      
-      // Analyze capture patterns
-      const captures = await this.analyzeCapturePatterns(userId);
-      insights.push(...captures);
-      
-      // Analyze schedule optimization
-      const schedule = await this.analyzeScheduleOptimization(userId);
-      insights.push(...schedule);
-      
-      // Sort by priority and confidence
-      return insights.sort((a, b) => {
-        if (a.priority !== b.priority) {
-          const priorityOrder = { 'high': 3, 'medium': 2, 'low': 1 };
-          return priorityOrder[b.priority] - priorityOrder[a.priority];
-        }
-        return b.confidence - a.confidence;
-      }).slice(0, 5); // Return top 5 insights
-      
-    } catch (error) {
-      console.log('Insight generation error:', error);
-      throw new Error('Failed to generate insights');
-    }
-  }
+      const { conversation, history } = await this.openConversation(userId, options.conversationId);
 
-  private async analyzeProductivityPatterns(userId: string): Promise<AIInsight[]> {
-    const insights: AIInsight[] = [];
-    
-    try {
-      const analytics = await kv.getByPrefix(`user:${userId}:analytics:`);
-      const today = new Date().toDateString();
-      
-      // Mock productivity analysis - in production this would analyze real data
-      insights.push({
-        type: 'productivity',
-        title: 'Peak Performance Window Identified',
-        description: 'Your productivity peaks between 9-11 AM with 92% focus score',
-        action: 'Schedule deep work during this window',
-        priority: 'high',
-        confidence: 0.94
-      });
-      
-      insights.push({
-        type: 'pattern',
-        title: 'Friday Afternoon Pattern',
-        description: 'Your task completion rate drops 15% on Friday afternoons',
-        action: 'Move routine tasks to Friday PM slots',
-        priority: 'medium',
-        confidence: 0.87
-      });
-      
-    } catch (error) {
-      console.log('Productivity analysis error:', error);
-    }
-    
-    return insights;
-  }
+      const userMessage: AIMessage = {
+        id: newMessageId(),
+        role: 'user',
+        content: message,
+        timestamp: new Date().toISOString()
+      };
 
-  private async analyzeCapturePatterns(userId: string): Promise<AIInsight[]> {
-    const insights: AIInsight[] = [];
-    
-    try {
-      const captures = await kv.getByPrefix(`user:${userId}:capture:`);
-      
-      if (captures.length > 20) {
-        const emailCaptures = captures.filter(c => c.type === 'email').length;
-        const emailPercentage = (emailCaptures / captures.length) * 100;
-        
-        if (emailPercentage > 30) {
-          insights.push({
-            type: 'pattern',
-            title: 'High Email Processing Time',
-            description: `Email processing takes ${Math.round(emailPercentage)}% of your capture time`,
-            action: 'Consider batch processing emails at specific times',
-            priority: 'medium',
-            confidence: 0.89
-          });
+      const sources = await retrievalService.retrieve(userId, message);
+      let generation: MessageGeneration = { promptType: 'fallback', ...NO_MODEL };
+      let content = '';
+      try {
+        generation = chatGeneration(sources, llm.resolveModel({ purpose: 'chat' }));
+        const prompt = await this.buildPrompt([...history, userMessage].slice(-10), userId, sources);
+        for await (const delta of llm.stream({ purpose: 'chat', messages: prompt, maxTokens: 500, temperature: 0.7 }, options.signal)) {
+          content += delta;
+          await options.onDelta(delta);
+        }
+      } catch (error) {
+        console.log('LLM chat stream error:', error);
+        // Nothing reached the client yet, so the canned answer can stand in for the whole reply
+        if (!content) {
+          content = this.getFallbackResponse(message);
+          generation = { promptType: 'fallback', ...NO_MODEL };
+          await options.onDelta(content);
         }
       }
-      
-    } catch (error) {
-      console.log('Capture analysis error:', error);
-    }
-    
-    return insights;
-  }
 
-  private async analyzeScheduleOptimization(userId: string): Promise<AIInsight[]> {
-    const insights: AIInsight[] = [];
-    
-    // Mock schedule analysis
-    insights.push({
-      type: 'schedule',
-      title: 'Meeting Optimization Opportunity',
-      description: 'You have 3 back-to-back meetings that could benefit from 15-minute buffers',
-      action: 'Add buffer time between meetings',
-      priority: 'low',
-      confidence: 0.76
-    });
-    
-    return insights;
-  }
+      const interrupted = options.signal?.aborted ?? false;
+      const aiMessage: AIMessage = {
+        id: newMessageId(),
+        role: 'assistant',
+        content,
+        timestamp: new Date().toISOString(),
+        sources: this.citedSources(content, sources),
+        generation,
+        ...(interrupted && { interrupted })
+      };
 
-  private async extractActionableItems(userId: string, message: string) {
-    const lowerMessage = message.toLowerCase();
-    
-    // Simple keyword-based extraction - in production, use more sophisticated NLP
-    if (lowerMessage.includes('remind me') || lowerMessage.includes('schedule')) {
-      // Extract and create reminders/calendar events
-      console.log('Extracting calendar action from:', message);
-    }
-    
-    if (lowerMessage.includes('create task') || lowerMessage.includes('add to') && lowerMessage.includes('project')) {
-      // Extract and create tasks
-      console.log('Extracting task creation from:', message);
+      // An empty cancelled reply isn't stored
+      const saved = await this.saveExchange(userId, conversation.id, [userMessage, ...(content ? [aiMessage] : [])], history.length === 0);
+
+      const toolCalls = interrupted ? [] : await toolService.proposeFromMessage(userId, message, conversation.id);
+
+      return {
+        message: aiMessage,
+        suggestions: interrupted ? [] : await this.generateSuggestions(userId, message),
+        actions: this.generateQuickActions(message),
+        toolCalls,
+        interrupted,
+        conversationId: conversation.id,
+        conversation: saved
+      };
+    } catch (error) {
+      console.log('AI message stream error:', error);
+      if (error instanceof ConversationNotFoundError) throw error;
+      throw new Error('Failed to process AI message');
     }
   }
 
@@ -260,60 +258,154 @@ class AIService {
     return suggestions;
   }
 
-  private generateQuickActions(message: string): Array<{label: string, type: string}> {
+  // Actions with a `tool` are proposed as tool calls when clicked
+  private generateQuickActions(message: string): Array<{label: string, type: string, tool?: string, args?: any}> {
     const actions = [];
+    const title = message.length > 200 ? `${message.slice(0, 197)}...` : message;
     
     if (message.toLowerCase().includes('meeting')) {
-      actions.push({ label: 'Create Calendar Event', type: 'calendar' });
+      actions.push({ label: 'Create Calendar Event', type: 'calendar', tool: 'create_event', args: { title, date: new Date().toISOString().split('T')[0] } });
     }
     
     if (message.toLowerCase().includes('task') || message.toLowerCase().includes('todo')) {
-      actions.push({ label: 'Add to Task List', type: 'task' });
+      actions.push({ label: 'Add to Task List', type: 'task', tool: 'create_task', args: { title } });
     }
     
-    actions.push({ label: 'Save as Note', type: 'note' });
+    actions.push({ label: 'Save as Note', type: 'note', tool: 'create_note', args: { content: message } });
     
     return actions;
   }
 
+  // Runs a confirmed tool call and reports the outcome in the conversation.
+  // Returns null if the call doesn't exist.
+  async confirmToolCall(userId: string, toolCallId: string): Promise<any> {
+    const toolCall = await toolService.confirm(userId, toolCallId);
+    if (!toolCall) {
+      return null;
+    }
+
+    const message: AIMessage = {
+      id: newMessageId(),
+      role: 'assistant',
+      content: toolCall.status === 'completed'
+        ? `Done. ${toolCall.result!.summary}.`
+        : `I couldn't ${toolCall.summary.charAt(0).toLowerCase()}${toolCall.summary.slice(1)}: ${toolCall.error}`,
+      timestamp: new Date().toISOString(),
+      generation: { promptType: 'tool-result', ...NO_MODEL }
+    };
+    // Calls proposed outside a thread, or whose thread was deleted, are only reported to the caller
+    if (toolCall.conversationId && await conversationService.getConversation(userId, toolCall.conversationId)) {
+      await conversationService.appendMessages(userId, toolCall.conversationId, [message]);
+    }
+    return { toolCall, message };
+  }
+
+  async rejectToolCall(userId: string, toolCallId: string): Promise<any> {
+    const toolCall = await toolService.reject(userId, toolCallId);
+    return toolCall && { toolCall };
+  }
+
+  // Uses the secondary indexes for any single-valued filters (all must match) and
+  // only falls back to a full prefix scan when none apply
+  private async loadSearchCandidates(
+    userId: string,
+    kind: string,
+    index: typeof captureIndex,
+    filters: SearchFilters,
+    fields: Array<keyof SearchFilters>
+  ): Promise<any[]> {
+    const criteria = Object.fromEntries(
+      fields.map(field => {
+        const values = filters[field];
+        return [field, Array.isArray(values) && values.length === 1 ? values[0] : undefined];
+      })
+    );
+    return await index.findAll(userId, criteria) ?? kv.getByPrefix(`user:${userId}:${kind}:`);
+  }
+
+  // Runs a query in the language described in search-query.tsx. Free text is
+  // ranked by keyword and semantic similarity together, and every result carries
+  // its combined `score` and the `scores` it was made of; filter-only queries
+  // return the newest matches. Note captures are returned under `notes`.
+  // Facets count all matches regardless of type, so the client can offer the others.
   async searchUserData(userId: string, query: string, filters?: any): Promise<any> {
     try {
-      const results = {
-        captures: [],
-        projects: [],
-        tasks: [],
-        notes: []
-      };
-      
-      // Search captures
-      const captures = await kv.getByPrefix(`user:${userId}:capture:`);
-      results.captures = captures.filter(capture => 
-        capture.content?.toLowerCase().includes(query.toLowerCase()) ||
-        capture.text?.toLowerCase().includes(query.toLowerCase())
-      ).slice(0, 10);
-      
-      // Search projects
-      const projects = await kv.getByPrefix(`user:${userId}:project:`);
-      results.projects = projects.filter(project => 
-        project.name?.toLowerCase().includes(query.toLowerCase()) ||
-        project.description?.toLowerCase().includes(query.toLowerCase())
-      ).slice(0, 10);
-      
-      // Apply filters if provided
-      if (filters?.type && results[filters.type]) {
-        const filteredResults = {};
-        filteredResults[filters.type] = results[filters.type];
-        return { results: filteredResults, query, total: results[filters.type].length };
+      const parsed = parseSearchQuery(query);
+      const applied = mergeFilters(filters, parsed.filters);
+
+      const [captures, projects, tasks, allProjects] = await Promise.all([
+        this.loadSearchCandidates(userId, 'capture', captureIndex, applied, ['priority', 'tag', 'source']),
+        this.loadSearchCandidates(userId, 'project', projectIndex, applied, ['status', 'priority', 'tag']),
+        this.loadSearchCandidates(userId, 'task', taskIndex, applied, ['status', 'priority', 'tag', 'assignee']),
+        kv.getByPrefix(`user:${userId}:project:`)
+      ]);
+      const projectScope = applied.project ? resolveProjectScope(applied.project, allProjects) : undefined;
+
+      const items: SearchItem[] = [
+        ...captures.map((record): SearchItem => ({ kind: 'capture', bucket: record.type === 'note' ? 'notes' : 'captures', record })),
+        ...projects.map((record): SearchItem => ({ kind: 'project', bucket: 'projects', record })),
+        ...tasks.map((record): SearchItem => ({ kind: 'task', bucket: 'tasks', record }))
+      ].filter(item => {
+        if (!matchesFilters(item, applied, projectScope)) return false;
+        if (parsed.phrases.length === 0 && parsed.excluded.length === 0) return true;
+        const document = toDocument(item.kind, item.record);
+        const text = `${document.title} ${document.text}`.toLowerCase();
+        return parsed.phrases.every(phrase => text.includes(phrase)) && !parsed.excluded.some(term => text.includes(term));
+      });
+
+      const round = (value: number = 0) => Math.round(value * 1000) / 1000;
+      const rankingText = [parsed.text, ...parsed.phrases].join(' ').trim();
+      let matches: Array<{ item: SearchItem; score?: number; scores?: { keyword: number; semantic: number } }>;
+      if (rankingText) {
+        const byKey = new Map(items.map(item => [`${item.kind}:${item.record.id}`, item]));
+        const ranked = await searchRanker.rank(userId, rankingText, items.map(item => toDocument(item.kind, item.record)));
+        matches = ranked.map(({ document, score, keyword, semantic }) => ({
+          item: byKey.get(`${document.kind}:${document.id}`)!,
+          score: round(score),
+          scores: { keyword: round(keyword), semantic: round(semantic) }
+        }));
+      } else {
+        const newest = (item: SearchItem) => item.record.updated || item.record.timestamp || item.record.created || '';
+        matches = items.sort((a, b) => newest(b).localeCompare(newest(a))).map(item => ({ item }));
       }
-      
-      const total = Object.values(results).reduce((sum, arr) => sum + arr.length, 0);
-      
-      return { results, query, total };
+
+      const projectNames = new Map<string, string>(allProjects.map(project => [project.id, project.name]));
+      const facets = computeFacets(matches.map(match => match.item), projectNames);
+
+      const buckets: SearchBucket[] = applied.type?.length ? applied.type : ['captures', 'projects', 'tasks', 'notes'];
+      const results = Object.fromEntries(buckets.map(bucket => [bucket, [] as any[]]));
+      let total = 0;
+      for (const { item, score, scores } of matches) {
+        if (!results[item.bucket]) continue;
+        total++;
+        if (results[item.bucket].length < 10) {
+          results[item.bucket].push(score === undefined ? item.record : { ...item.record, score, scores });
+        }
+      }
+
+      return { results, query, parsed, facets, total };
     } catch (error) {
+      if (error instanceof SearchQueryError) throw error;
       console.log('Search error:', error);
       throw new Error('Failed to search user data');
     }
   }
 }
 
-export const aiService = new AIService();
\ No newline at end of file
+export const aiService = new AIService();
+
+// Search lives in this service, so its tool is registered here
+toolRegistry.register({
+  name: 'search',
+  description: 'Search the user\'s captures, projects and tasks.',
+  parameters: searchToolSchema,
+  describe: args => `Search ${args.type || 'everything'} for "${args.query}"`,
+  run: async (userId, args) => {
+    const { results, total } = await aiService.searchUserData(userId, args.query, args.type ? { type: args.type } : undefined);
+    const titles = Object.values(results).flat().slice(0, 5).map((item: any) => item.title || item.name || item.processedContent?.summary || item.content);
+    return {
+      summary: total > 0 ? `Found ${total} result${total === 1 ? '' : 's'}: ${titles.join('; ')}` : `Found nothing for "${args.query}"`,
+      data: { results, total }
+    };
+  }
+});
\ No newline at end of file
@@ -1,4 +1,6 @@
 import * as kv from './kv_store.tsx';
+import { AIInsight } from './insights.tsx';
+import { insightService } from './insight-service.tsx';
 
 interface ProductivityMetrics {
   tasksCompleted: number;
@@ -54,7 +56,7 @@ class AnalyticsService {
         weeklyData: weekData,
         patterns: analytics.patterns,
         comparisons: await this.getComparisons(userId, analytics),
-        recommendations: await this.generateRecommendations(userId, analytics)
+        recommendations: await this.generateRecommendations(userId, analytics, await this.generateInsights(userId))
       };
     } catch (error) {
       console.log('Productivity analytics error:', error);
@@ -71,7 +73,8 @@ class AnalyticsService {
       const timestamp = activity.timestamp || new Date().toISOString();
       const date = new Date(timestamp);
       const dayKey = date.toDateString();
-      const hour = date.getHours();
+      // UTC, whatever the server's timezone, so peak hours can say which hours they mean
+      const hour = date.getUTCHours();
       
       // Update daily metrics
       await this.updateDailyMetrics(userId, dayKey, activity);
@@ -120,33 +123,27 @@ class AnalyticsService {
   private async updateDailyMetrics(userId: string, dayKey: string, activity: any): Promise<void> {
     try {
       const metricsKey = `user:${userId}:metrics:${dayKey}`;
-      const metrics = await kv.get(metricsKey) || {
-        tasksCompleted: 0,
-        tasksCreated: 0,
-        focusScore: 0,
-        captureCount: 0,
-        activeProjects: 0,
-        meetingTime: 0,
-        deepWorkTime: 0
-      };
+      await kv.update(metricsKey, (current) => {
+        const metrics = current || this.emptyMetrics();
 
-      switch (activity.type) {
-        case 'task_complete':
-          metrics.tasksCompleted += 1;
-          break;
-        case 'capture':
-          metrics.captureCount += 1;
-          break;
-        case 'focus_session':
-          metrics.deepWorkTime += activity.metadata?.duration || 0;
-          metrics.focusScore = this.calculateFocusScore(metrics);
-          break;
-        case 'meeting':
-          metrics.meetingTime += activity.metadata?.duration || 0;
-          break;
-      }
+        switch (activity.type) {
+          case 'task_complete':
+            metrics.tasksCompleted += 1;
+            break;
+          case 'capture':
+            metrics.captureCount += 1;
+            break;
+          case 'focus_session':
+            metrics.deepWorkTime += activity.metadata?.duration || 0;
+            metrics.focusScore = this.calculateFocusScore(metrics);
+            break;
+          case 'meeting':
+            metrics.meetingTime += activity.metadata?.duration || 0;
+            break;
+        }
 
-      await kv.set(metricsKey, metrics);
+        return metrics;
+      });
     } catch (error) {
       console.log('Update daily metrics error:', error);
     }
@@ -155,16 +152,18 @@ class AnalyticsService {
   private async updateHourlyPatterns(userId: string, hour: number, activity: any): Promise<void> {
     try {
       const patternsKey = `user:${userId}:patterns:hourly`;
-      const patterns = await kv.get(patternsKey) || {};
-      
-      if (!patterns[hour]) {
-        patterns[hour] = { count: 0, types: {} };
-      }
-      
-      patterns[hour].count += 1;
-      patterns[hour].types[activity.type] = (patterns[hour].types[activity.type] || 0) + 1;
-      
-      await kv.set(patternsKey, patterns);
+      await kv.update(patternsKey, (current) => {
+        const patterns = current || {};
+        
+        if (!patterns[hour]) {
+          patterns[hour] = { count: 0, types: {} };
+        }
+        
+        patterns[hour].count += 1;
+        patterns[hour].types[activity.type] = (patterns[hour].types[activity.type] || 0) + 1;
+        
+        return patterns;
+      });
     } catch (error) {
       console.log('Update hourly patterns error:', error);
     }
@@ -187,7 +186,26 @@ class AnalyticsService {
 
   private async updatePeriodMetric(userId: string, period: string, key: string, activity: any): Promise<void> {
     const metricsKey = `user:${userId}:metrics:${period}:${key}`;
-    const metrics = await kv.get(metricsKey) || {
+    await kv.update(metricsKey, (current) => {
+      const metrics = current || this.emptyMetrics();
+
+      // Update based on activity type (same logic as daily)
+      switch (activity.type) {
+        case 'task_complete':
+          metrics.tasksCompleted += 1;
+          break;
+        case 'capture':
+          metrics.captureCount += 1;
+          break;
+        // ... other cases
+      }
+
+      return metrics;
+    });
+  }
+
+  private emptyMetrics(): ProductivityMetrics {
+    return {
       tasksCompleted: 0,
       tasksCreated: 0,
       focusScore: 0,
@@ -196,19 +214,6 @@ class AnalyticsService {
       meetingTime: 0,
       deepWorkTime: 0
     };
-
-    // Update based on activity type (same logic as daily)
-    switch (activity.type) {
-      case 'task_complete':
-        metrics.tasksCompleted += 1;
-        break;
-      case 'capture':
-        metrics.captureCount += 1;
-        break;
-      // ... other cases
-    }
-
-    await kv.set(metricsKey, metrics);
   }
 
   private calculateFocusScore(metrics: ProductivityMetrics): number {
@@ -304,17 +309,22 @@ class AnalyticsService {
 
   private async getRecentActivity(userId: string): Promise<any[]> {
     try {
-      // Get recent captures, tasks, etc.
-      const captures = await kv.getByPrefix(`user:${userId}:capture:`);
-      const tasks = await kv.getByPrefix(`user:${userId}:task:`);
+      // Get recent captures, tasks, etc. Both are keyed by creation time, so the
+      // newest entries come first in descending key order
+      const [capturePage, taskPage] = await Promise.all([
+        kv.scanByPrefix(`user:${userId}:capture:`, { limit: 5, order: 'desc' }),
+        kv.scanByPrefix(`user:${userId}:task:`, { limit: 5, order: 'desc' })
+      ]);
+      const captures = capturePage.entries.map(entry => entry.value);
+      const tasks = taskPage.entries.map(entry => entry.value);
       
       const activities = [
-        ...captures.slice(0, 5).map(c => ({
+        ...captures.map(c => ({
           type: 'capture',
           title: c.processedContent?.summary || c.content?.substring(0, 50) + '...',
           timestamp: c.timestamp
         })),
-        ...tasks.slice(0, 5).map(t => ({
+        ...tasks.map(t => ({
           type: 'task',
           title: t.title,
           timestamp: t.created
@@ -344,7 +354,7 @@ class AnalyticsService {
     };
   }
 
-  private async generateRecommendations(userId: string, analytics: AnalyticsData): Promise<string[]> {
+  private async generateRecommendations(userId: string, analytics: AnalyticsData, insights: AIInsight[]): Promise<string[]> {
     const recommendations = [];
     const weekData = this.getWeekData(analytics);
     const avgFocus = weekData.reduce((sum, day) => sum + day.focus, 0) / weekData.length;
@@ -358,35 +368,21 @@ class AnalyticsService {
       recommendations.push('Break down larger tasks into smaller, manageable chunks');
     }
     
-    // Add more recommendations based on patterns
-    recommendations.push('Schedule your most important tasks during 9-11 AM when you\'re most focused');
+    // Insights computed from the user's own patterns, e.g. their peak hours
+    recommendations.push(...insights.filter(insight => insight.action).map(insight => insight.action!));
     
     return recommendations;
   }
 
-  private async generateInsights(userId: string): Promise<Array<{title: string, description: string, type: string}>> {
-    const insights = [];
-    
-    // Sample insights - in production, these would be based on real data analysis
-    insights.push({
-      title: 'Peak Performance Window',
-      description: 'You complete 40% more tasks between 9-11 AM',
-      type: 'pattern'
-    });
-    
-    insights.push({
-      title: 'Email Processing Time',
-      description: 'Email processing takes 23% of your capture time',
-      type: 'efficiency'
-    });
-    
-    insights.push({
-      title: 'Project Momentum',
-      description: 'Your AI OS project has 75% completion rate',
-      type: 'progress'
-    });
-    
-    return insights;
+  // The insights last generated for the user that they haven't dismissed or
+  // snoozed. Only read here: generating them (and notifying) is POST /ai/insights.
+  private async generateInsights(userId: string): Promise<AIInsight[]> {
+    try {
+      return await insightService.currentInsights(userId);
+    } catch (error) {
+      console.log('Analytics insights error:', error);
+      return [];
+    }
   }
 
   // Utility methods
@@ -1,5 +1,6 @@
 import { projectId, publicAnonKey } from './supabase/info';
 import { createClient } from '@supabase/supabase-js';
+import { recordingFileName, VoiceRecording } from './voice-recorder';
 
 const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-9e61c00c`;
 
@@ -15,6 +16,38 @@ async function getAuthToken(): Promise<string | null> {
   return session?.access_token || null;
 }
 
+// Error returned by the server. 4xx responses carry a machine-readable `code`, and
+// validation failures also carry per-field messages keyed by dotted path.
+export class APIError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public fields?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
+
+  get isValidationError(): boolean {
+    return this.code === 'validation_failed' || this.code === 'invalid_json' || this.code === 'invalid_form';
+  }
+
+  // The server answered and refused the request (not found, invalid, forbidden...);
+  // 401 is left out since it means the user is signed out
+  get isRejection(): boolean {
+    return this.status >= 400 && this.status < 500 && this.status !== 401;
+  }
+}
+
+// The demo fallbacks are for when the backend is unreachable or the user is signed
+// out; a request the server rejected has to reach the caller instead of faking success.
+function rethrowIfRejected(error: unknown) {
+  if (error instanceof APIError && error.isRejection) {
+    throw error;
+  }
+}
+
 // Generic API call function
 async function apiCall(endpoint: string, options: RequestInit = {}, allowUnauthenticated = false): Promise<any> {
   const token = await getAuthToken();
@@ -24,8 +57,9 @@ async function apiCall(endpoint: string, options: RequestInit = {}, allowUnauthe
     throw new Error('Authentication required - please sign in');
   }
   
+  // Form bodies get their multipart content type (with its boundary) from fetch
   const headers = {
-    'Content-Type': 'application/json',
+    ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
     ...(token && { 'Authorization': `Bearer ${token}` }),
     ...options.headers,
   };
@@ -37,12 +71,60 @@ async function apiCall(endpoint: string, options: RequestInit = {}, allowUnauthe
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Network error' }));
-    throw new Error(error.error || `HTTP ${response.status}`);
+    throw new APIError(error.error || `HTTP ${response.status}`, response.status, error.code, error.fields);
   }
 
   return response.json();
 }
 
+// Builds a query string from the defined params, e.g. pagination cursors
+function toQueryString(params: Record<string, string | number | undefined | null> = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+// A recording as a multipart form for POST /captures/voice and /transcribe
+function recordingForm(recording: VoiceRecording, fields: Record<string, unknown> = {}): FormData {
+  const form = new FormData();
+  form.append('file', recording.blob, recordingFileName(recording));
+  form.append('durationMs', String(Math.round(recording.durationMs)));
+  form.append('language', recording.language);
+  if (recording.hint) form.append('hint', recording.hint);
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== null) {
+      form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+  }
+  return form;
+}
+
+// Paginated list routes accept these and return `nextCursor` (null on the last page)
+export interface PageParams {
+  cursor?: string | null;
+  limit?: number;
+}
+
+// Filters accepted by GET /tasks; every given filter must match
+export interface TaskFilters {
+  status?: string;
+  priority?: string;
+  assignee?: string;
+  tag?: string;
+  project?: string;
+  // Only tasks outside any project
+  standalone?: boolean;
+  limit?: number;
+}
+
+// Triage states of a capture; snoozed ones come back to the inbox on their date
+export type CaptureStatus = 'inbox' | 'actioned' | 'archived' | 'snoozed';
+
 // Auth API
 export const authAPI = {
   signUp: async (email: string, password: string, name: string) => {
@@ -76,37 +158,146 @@ export const authAPI = {
 
 // Capture API
 export const captureAPI = {
-  processCapture: async (captureData: any) => {
+  // With files, the capture is sent as a multipart form and the files are stored
+  // with it. Uploads have no demo fallback: the files would be lost, so failures are thrown.
+  processCapture: async (captureData: any, files: File[] = []) => {
+    if (files.length > 0) {
+      const form = new FormData();
+      for (const [key, value] of Object.entries(captureData)) {
+        if (value !== undefined && value !== null) {
+          form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+        }
+      }
+      files.forEach(file => form.append('file', file));
+      return await apiCall('/capture', { method: 'POST', body: form });
+    }
+
     try {
       return await apiCall('/capture', {
         method: 'POST',
         body: JSON.stringify(captureData),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return success for demo purposes
       return { success: true, message: 'Capture processed (demo mode)' };
     }
   },
 
-  getCaptures: async () => {
+  // Stores the recording as a voice capture, with the server's transcript as its
+  // content. No demo fallback: the recording would be lost, so failures are thrown.
+  captureVoice: async (recording: VoiceRecording, options: { priority?: string; metadata?: any } = {}) => {
+    return await apiCall('/captures/voice', {
+      method: 'POST',
+      body: recordingForm(recording, options),
+    });
+  },
+
+  getCaptures: async (page: PageParams = {}) => {
     try {
-      return await apiCall('/captures');
+      return await apiCall(`/captures${toQueryString({ cursor: page.cursor, limit: page.limit })}`);
     } catch (error) {
+      rethrowIfRejected(error);
       // Fall back to demo data
       return await apiCall('/demo/captures', {}, true);
     }
   },
+
+  // One triage state, newest first; demo captures all count as inbox
+  getCapturesByStatus: async (status: CaptureStatus, limit?: number) => {
+    try {
+      return await apiCall(`/captures${toQueryString({ status, limit })}`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      if (status !== 'inbox') return { captures: [], nextCursor: null };
+      return await apiCall('/demo/captures', {}, true);
+    }
+  },
+
+  // Returns { updated, skipped }; skipped captures were missing or can't move to that status
+  triageCaptures: async (ids: string[], status: CaptureStatus, until?: string) => {
+    try {
+      return await apiCall('/captures/triage', {
+        method: 'POST',
+        body: JSON.stringify({ ids, status, until }),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { updated: ids.map(id => ({ id, status })), skipped: [], message: 'Captures triaged (demo mode)' };
+    }
+  },
+
+  // Creates a task (in projectId, or the most recent active project) or a project
+  // from the capture and marks the capture actioned. No demo fallback: the item wouldn't exist.
+  convertCapture: async (captureId: string, to: 'task' | 'project', options: { title?: string; projectId?: string } = {}) => {
+    return await apiCall(`/captures/${captureId}/convert`, {
+      method: 'POST',
+      body: JSON.stringify({ to, ...options }),
+    });
+  },
+
+  getDuplicates: async () => {
+    try {
+      return await apiCall('/captures/duplicates');
+    } catch (error) {
+      rethrowIfRejected(error);
+      // No stored captures to compare in demo mode
+      return { groups: [] };
+    }
+  },
+
+  // Keeps targetId and folds the others into it; there is no demo fallback since it deletes captures
+  mergeCaptures: async (targetId: string, duplicateIds: string[]) => {
+    return await apiCall('/captures/merge', {
+      method: 'POST',
+      body: JSON.stringify({ targetId, duplicateIds }),
+    });
+  },
+
+  // The stored file, e.g. for an image preview (URL.createObjectURL) or to open it
+  getAttachmentBlob: async (captureId: string, attachmentId: string): Promise<Blob> => {
+    const token = await getAuthToken();
+    if (!token) {
+      throw new Error('Authentication required - please sign in');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/captures/${captureId}/attachments/${attachmentId}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Network error' }));
+      throw new APIError(error.error || `HTTP ${response.status}`, response.status, error.code, error.fields);
+    }
+    return response.blob();
+  },
 };
 
 // AI Assistant API
 export const aiAPI = {
-  sendMessage: async (message: string, context?: any) => {
+  // Transcript of a recording, for dictating a message; nothing is stored
+  transcribe: async (recording: VoiceRecording): Promise<{ text: string; language?: string; transcriber: string }> => {
+    try {
+      return await apiCall('/transcribe', {
+        method: 'POST',
+        body: recordingForm(recording),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // In demo mode, what the browser's speech recognition heard
+      return { text: recording.hint, language: recording.language, transcriber: 'browser' };
+    }
+  },
+
+  // Without a conversationId the server starts a new thread and returns its ID
+  sendMessage: async (message: string, context?: any, conversationId?: string) => {
     try {
       return await apiCall('/ai/chat', {
         method: 'POST',
-        body: JSON.stringify({ message, context }),
+        body: JSON.stringify({ message, context, conversationId }),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo response
       return {
         response: "I'm currently in demo mode. In the full version, I would provide personalized insights based on your data and help you optimize your productivity workflow.",
@@ -115,17 +306,108 @@ export const aiAPI = {
     }
   },
 
+  // Streams the reply: onDelta receives text as it is generated, and the promise
+  // resolves with the same body /ai/chat returns. Aborting `signal` stops generation;
+  // the server keeps the partial reply. If the stream can't be opened at all, this
+  // falls back to sendMessage and delivers its reply as a single delta.
+  streamMessage: async (
+    message: string,
+    context: any,
+    { onDelta, signal, conversationId }: { onDelta: (text: string) => void; signal?: AbortSignal; conversationId?: string }
+  ) => {
+    let received = false;
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        throw new Error('Authentication required - please sign in');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/ai/chat/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({ message, context, conversationId }),
+        signal,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Network error' }));
+        throw new APIError(error.error || `HTTP ${response.status}`, response.status, error.code, error.fields);
+      }
+
+      let result: any = null;
+      let streamError: { error: string; code?: string } | null = null;
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'delta') {
+          received = true;
+          onDelta(data.text);
+        } else if (event === 'done') {
+          result = data;
+        } else if (event === 'error') {
+          streamError = data;
+        }
+      });
+
+      if (streamError?.code === 'not_found') {
+        throw new APIError(streamError.error, 404, streamError.code);
+      }
+      if (!result) {
+        throw new Error(streamError?.error || 'Stream ended without a response');
+      }
+      return result;
+    } catch (error) {
+      rethrowIfRejected(error);
+      if (received || signal?.aborted || (error instanceof APIError && error.status === 404)) {
+        throw error;
+      }
+
+      const response = await aiAPI.sendMessage(message, context, conversationId);
+      onDelta(response.message?.content ?? response.response ?? '');
+      return response;
+    }
+  },
+
   getInsights: async () => {
     try {
       return await apiCall('/ai/insights', {
         method: 'POST',
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Fall back to demo data
       return await apiCall('/demo/insights', { method: 'POST' }, true);
     }
   },
 
+  // Insights the user has dismissed, snoozed or acted on stop being returned by getInsights
+  updateInsightState: async (insightId: string, state: 'new' | 'seen' | 'dismissed' | 'snoozed' | 'acted', until?: string) => {
+    try {
+      return await apiCall(`/ai/insights/${insightId}/state`, {
+        method: 'PUT',
+        body: JSON.stringify({ state, until }),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { insight: { id: insightId, state }, message: 'Insight updated (demo mode)' };
+    }
+  },
+
+  sendInsightFeedback: async (insightId: string, useful: boolean, comment?: string) => {
+    try {
+      return await apiCall(`/ai/insights/${insightId}/feedback`, {
+        method: 'POST',
+        body: JSON.stringify({ useful, comment }),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { insight: { id: insightId, feedback: { useful, comment } }, message: 'Feedback recorded (demo mode)' };
+    }
+  },
+
   search: async (query: string, filters?: any) => {
     try {
       return await apiCall('/search', {
@@ -133,15 +415,45 @@ export const aiAPI = {
         body: JSON.stringify({ query, filters }),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo search results
       return {
-        results: [
-          { type: 'capture', title: `Demo result for "${query}"`, content: 'This is a demo search result. Sign in to search your actual data.' },
-          { type: 'project', title: `Related project for "${query}"`, content: 'Demo project content related to your search.' }
-        ]
+        results: {
+          captures: [
+            { id: 'demo-capture', content: 'This is a demo search result. Sign in to search your actual data.', processedContent: { summary: `Demo result for "${query}"` } }
+          ],
+          projects: [
+            { id: 'demo-project', name: `Related project for "${query}"`, description: 'Demo project content related to your search.' }
+          ],
+          tasks: [],
+          notes: []
+        },
+        query,
+        facets: {},
+        total: 2
       };
     }
   },
+
+  // Tool calls change real data, so there is no demo fallback; errors reach the caller
+  proposeToolCall: async (tool: string, args: Record<string, any>, conversationId?: string) => {
+    return await apiCall('/ai/tool-calls', {
+      method: 'POST',
+      body: JSON.stringify({ tool, args, conversationId }),
+    });
+  },
+
+  confirmToolCall: async (toolCallId: string) => {
+    return await apiCall(`/ai/tool-calls/${toolCallId}/confirm`, {
+      method: 'POST',
+    });
+  },
+
+  rejectToolCall: async (toolCallId: string) => {
+    return await apiCall(`/ai/tool-calls/${toolCallId}/reject`, {
+      method: 'POST',
+    });
+  },
 };
 
 // Analytics API
@@ -150,6 +462,7 @@ export const analyticsAPI = {
     try {
       return await apiCall('/analytics/dashboard');
     } catch (error) {
+      rethrowIfRejected(error);
       // Fall back to demo data
       return await apiCall('/demo/dashboard', {}, true);
     }
@@ -159,6 +472,7 @@ export const analyticsAPI = {
     try {
       return await apiCall('/analytics/productivity');
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo productivity data
       return {
         weeklyProductivity: Math.floor(Math.random() * 20) + 80,
@@ -174,10 +488,11 @@ export const analyticsAPI = {
 
 // Projects API
 export const projectsAPI = {
-  getProjects: async () => {
+  getProjects: async (page: PageParams = {}) => {
     try {
-      return await apiCall('/projects');
+      return await apiCall(`/projects${toQueryString({ cursor: page.cursor, limit: page.limit })}`);
     } catch (error) {
+      rethrowIfRejected(error);
       // Fall back to demo data
       return await apiCall('/demo/projects', {}, true);
     }
@@ -190,6 +505,7 @@ export const projectsAPI = {
         body: JSON.stringify(projectData),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo success
       return { 
         project: { 
@@ -211,6 +527,7 @@ export const projectsAPI = {
         body: JSON.stringify(updateData),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo success
       return { 
         project: { id: projectId, ...updateData },
@@ -218,6 +535,163 @@ export const projectsAPI = {
       };
     }
   },
+
+  getProject: async (projectId: string) => {
+    return apiCall(`/projects/${projectId}`);
+  },
+
+  archiveProject: async (projectId: string) => {
+    try {
+      return await apiCall(`/projects/${projectId}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { success: true, message: 'Project archived (demo mode)' };
+    }
+  },
+
+  getTemplates: async () => {
+    try {
+      return await apiCall('/projects/templates');
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo templates
+      return {
+        templates: [
+          { id: 'ai-project', name: 'AI Project Template', description: 'Template for AI/ML projects', taskCount: 4 },
+          { id: 'web-app', name: 'Web Application Template', description: 'Template for web application development', taskCount: 5 },
+          { id: 'research', name: 'Research Project Template', description: 'Template for research projects', taskCount: 4 }
+        ]
+      };
+    }
+  },
+
+  createFromTemplate: async (template: string, customization: any = {}) => {
+    try {
+      return await apiCall('/projects/from-template', {
+        method: 'POST',
+        body: JSON.stringify({ template, customization }),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return {
+        project: {
+          id: Date.now().toString(),
+          name: customization.name || template,
+          ...customization,
+          tasks: [],
+          progress: 0,
+          status: 'planning',
+          created: new Date().toISOString()
+        },
+        message: 'Project created from template (demo mode)'
+      };
+    }
+  },
+
+  getProjectInsights: async (projectId: string) => {
+    try {
+      return await apiCall(`/projects/${projectId}/insights`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return empty insights
+      return { insights: [] };
+    }
+  },
+
+  getTasks: async (projectId: string) => {
+    try {
+      return await apiCall(`/projects/${projectId}/tasks`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return empty task list
+      return { tasks: [] };
+    }
+  },
+
+  createTask: async (projectId: string, taskData: any) => {
+    try {
+      return await apiCall(`/projects/${projectId}/tasks`, {
+        method: 'POST',
+        body: JSON.stringify(taskData),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return {
+        task: {
+          id: Date.now().toString(),
+          status: 'pending',
+          priority: 'medium',
+          ...taskData,
+          projectId,
+          created: new Date().toISOString()
+        },
+        message: 'Task created (demo mode)'
+      };
+    }
+  },
+
+  updateTask: async (projectId: string, taskId: string, updateData: any) => {
+    try {
+      return await apiCall(`/projects/${projectId}/tasks/${taskId}`, {
+        method: 'PUT',
+        body: JSON.stringify(updateData),
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return {
+        task: { id: taskId, projectId, ...updateData },
+        message: 'Task updated (demo mode)'
+      };
+    }
+  },
+
+  deleteTask: async (projectId: string, taskId: string) => {
+    try {
+      return await apiCall(`/projects/${projectId}/tasks/${taskId}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { success: true, message: 'Task deleted (demo mode)' };
+    }
+  },
+
+  queryTasks: async (filters: TaskFilters = {}) => {
+    try {
+      return await apiCall(`/tasks${toQueryString({ ...filters, standalone: filters.standalone ? 'true' : undefined })}`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return empty task list
+      return { tasks: [] };
+    }
+  },
+
+  getActiveTasks: async (limit?: number) => {
+    try {
+      return await apiCall(`/tasks/active${toQueryString({ limit })}`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return empty task list
+      return { tasks: [] };
+    }
+  },
+
+  getOverdueTasks: async () => {
+    try {
+      return await apiCall('/tasks/overdue');
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return empty task list
+      return { tasks: [] };
+    }
+  },
 };
 
 // Integrations API
@@ -226,6 +700,7 @@ export const integrationsAPI = {
     try {
       return await apiCall('/integrations');
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo integrations
       return {
         integrations: [
@@ -245,6 +720,7 @@ export const integrationsAPI = {
         body: JSON.stringify({ service, credentials }),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo success
       return { 
         integration: { service, status: 'connected', id: Date.now().toString() },
@@ -260,6 +736,7 @@ export const integrationsAPI = {
         body: JSON.stringify({ service }),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo sync result
       return { 
         success: true, 
@@ -276,6 +753,7 @@ export const settingsAPI = {
     try {
       return await apiCall('/settings');
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo settings
       return {
         settings: {
@@ -297,6 +775,7 @@ export const settingsAPI = {
         body: JSON.stringify(settings),
       });
     } catch (error) {
+      rethrowIfRejected(error);
       // Return demo success
       return { 
         settings,
@@ -312,12 +791,116 @@ export const realtimeAPI = {
     try {
       return await apiCall('/realtime/status');
     } catch (error) {
+      rethrowIfRejected(error);
       // Fall back to demo status
       return await apiCall('/demo/status', {}, true);
     }
   },
 };
 
+// Notifications API
+export const notificationsAPI = {
+  getNotifications: async (params: PageParams & { unread?: boolean } = {}) => {
+    try {
+      return await apiCall(`/notifications${toQueryString({
+        cursor: params.cursor,
+        limit: params.limit,
+        unread: params.unread ? 'true' : undefined
+      })}`);
+    } catch (error) {
+      rethrowIfRejected(error);
+      // No notifications in demo mode
+      return { notifications: [], nextCursor: null, unreadCount: 0 };
+    }
+  },
+
+  markRead: async (notificationId: string) => {
+    try {
+      return await apiCall(`/notifications/${notificationId}/read`, {
+        method: 'POST',
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { notification: { id: notificationId, read: true }, message: 'Notification updated (demo mode)' };
+    }
+  },
+
+  markAllRead: async () => {
+    try {
+      return await apiCall('/notifications/read-all', {
+        method: 'POST',
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { updated: 0, message: 'Notifications updated (demo mode)' };
+    }
+  },
+
+  dismiss: async (notificationId: string) => {
+    try {
+      return await apiCall(`/notifications/${notificationId}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      rethrowIfRejected(error);
+      // Return demo success
+      return { success: true, message: 'Notification dismissed (demo mode)' };
+    }
+  },
+};
+
+// Conversation threads API
+export const conversationsAPI = {
+  getConversations: async () => {
+    try {
+      return await apiCall('/ai/conversations');
+    } catch (error) {
+      rethrowIfRejected(error);
+      // No saved threads in demo mode
+      return { conversations: [] };
+    }
+  },
+
+  getConversation: async (conversationId: string) => {
+    return await apiCall(`/ai/conversations/${conversationId}`);
+  },
+
+  createConversation: async (title?: string) => {
+    return await apiCall('/ai/conversations', {
+      method: 'POST',
+      body: JSON.stringify({ title }),
+    });
+  },
+
+  renameConversation: async (conversationId: string, title: string) => {
+    return await apiCall(`/ai/conversations/${conversationId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ title }),
+    });
+  },
+
+  deleteConversation: async (conversationId: string) => {
+    return await apiCall(`/ai/conversations/${conversationId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  rateMessage: async (conversationId: string, messageId: string, rating: 'positive' | 'negative', reason?: string) => {
+    return await apiCall(`/ai/conversations/${conversationId}/messages/${messageId}/feedback`, {
+      method: 'PUT',
+      body: JSON.stringify({ rating, reason }),
+    });
+  },
+
+  clearMessageRating: async (conversationId: string, messageId: string) => {
+    return await apiCall(`/ai/conversations/${conversationId}/messages/${messageId}/feedback`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 // Batch operations API
 export const batchAPI = {
   process: async (operations: any[]) => {
@@ -339,6 +922,14 @@ export const healthAPI = {
 export function handleAPIError(error: any): string {
   console.error('API Error:', error);
   
+  // Validation failures list each offending field
+  if (error instanceof APIError && error.fields) {
+    const details = Object.entries(error.fields)
+      .map(([field, messages]) => field === '_' ? messages.join(', ') : `${field}: ${messages.join(', ')}`)
+      .join('; ');
+    return details ? `${error.message} - ${details}` : error.message;
+  }
+
   if (error.message) {
     // Check for specific authentication errors
     if (error.message.includes('Authentication required')) {
@@ -357,35 +948,160 @@ export function handleAPIError(error: any): string {
   return 'An unexpected error occurred';
 }
 
-// Real-time updates utility
+// Real-time updates
+export type RealtimeEventType =
+  | 'status'
+  | 'capture.processed'
+  | 'task.changed'
+  | 'sync.started'
+  | 'sync.finished'
+  | 'notification.added';
+
+export interface RealtimeEvent {
+  id: string;
+  type: RealtimeEventType;
+  data: any;
+  timestamp: string;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface EventFrame {
+  event: string;
+  data: any;
+}
+
+// Splits a server-sent event stream into frames with their `event:` name and the
+// JSON payload of their `data:` lines. Comment lines (keep-alives) and blank
+// frames are skipped.
+function parseEventFrames(buffer: string): { frames: EventFrame[]; rest: string } {
+  const chunks = buffer.split(/\r?\n\r?\n/);
+  const rest = chunks.pop() ?? '';
+  const frames: EventFrame[] = [];
+
+  for (const chunk of chunks) {
+    const lines = chunk.split(/\r?\n/);
+    const data = lines
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) continue;
+
+    const event = lines.find(line => line.startsWith('event:'))?.slice(6).trim() || 'message';
+    try {
+      frames.push({ event, data: JSON.parse(data) });
+    } catch (error) {
+      console.log('Event stream parse error:', error);
+    }
+  }
+
+  return { frames, rest };
+}
+
+// Reads a server-sent event response to the end, handing each frame to onFrame
+async function readEventStream(response: Response, onFrame: (frame: EventFrame) => void) {
+  if (!response.body) {
+    throw new Error('Response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const parsed = parseEventFrames(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+    parsed.frames.forEach(onFrame);
+  }
+}
+
+// One shared connection to GET /events for every subscriber. EventSource can't send
+// the Authorization header, so the stream is read with fetch. Dropped connections
+// are retried with backoff; each reconnect starts with a fresh `status` event.
 export class RealtimeUpdates {
-  private intervals: Map<string, NodeJS.Timeout> = new Map();
-
-  subscribe(key: string, callback: () => void, intervalMs: number = 30000) {
-    // Clear existing interval
-    this.unsubscribe(key);
-    
-    // Set new interval
-    const interval = setInterval(callback, intervalMs);
-    this.intervals.set(key, interval);
-    
-    // Call immediately
-    callback();
+  private listeners: Map<string, RealtimeListener> = new Map();
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = 1000;
+
+  subscribe(key: string, listener: RealtimeListener) {
+    this.listeners.set(key, listener);
+    if (!this.controller && !this.retryTimer) {
+      this.connect();
+    }
   }
 
   unsubscribe(key: string) {
-    const interval = this.intervals.get(key);
-    if (interval) {
-      clearInterval(interval);
-      this.intervals.delete(key);
+    this.listeners.delete(key);
+    if (this.listeners.size === 0) {
+      this.disconnect();
     }
   }
 
   unsubscribeAll() {
-    for (const [key] of this.intervals) {
-      this.unsubscribe(key);
+    this.listeners.clear();
+    this.disconnect();
+  }
+
+  private disconnect() {
+    this.controller?.abort();
+    this.controller = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async connect() {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        throw new Error('Authentication required - please sign in');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/events`, {
+        headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'text/event-stream' },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      await readEventStream(response, ({ data }) => {
+        // Connected and receiving, so the next drop starts backing off from scratch
+        this.retryDelay = 1000;
+        this.dispatch(data);
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.log('Realtime stream error:', error);
+    }
+
+    if (this.controller !== controller || controller.signal.aborted) return;
+    this.controller = null;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.listeners.size > 0) {
+        this.connect();
+      }
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, 30000);
+  }
+
+  private dispatch(event: RealtimeEvent) {
+    for (const listener of this.listeners.values()) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Realtime listener error:', error);
+      }
     }
   }
 }
 
-export const realtimeUpdates = new RealtimeUpdates();
\ No newline at end of file
+export const realtimeUpdates = new RealtimeUpdates();
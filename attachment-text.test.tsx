@@ -0,0 +1,68 @@
+import { assert, assertEquals, assertMatch } from 'jsr:@std/assert';
+import { extractAttachmentText } from './attachment-text.tsx';
+
+// deno test --allow-read --allow-env attachment-text.test.tsx
+//
+// The PDFs in fixtures/attachments were written by PDFKit: standard-font.pdf uses
+// the built-in Helvetica, embedded-font.pdf embeds a TrueType subset as an
+// Identity-H CID font with a ToUnicode map (as Chrome's "Save as PDF" does), and
+// no-text.pdf only draws shapes, like a scanned page.
+
+const fixture = (name: string) => Deno.readFile(new URL(`./fixtures/attachments/${name}`, import.meta.url));
+
+Deno.test('plain text is read with its line endings normalized', async () => {
+  const result = await extractAttachmentText('notes.txt', 'text/plain', await fixture('notes.txt'));
+
+  assertEquals(result.status, 'extracted');
+  assertEquals(result.text, 'Meeting notes: quarterly planning\n\nAgreed to ship the capture inbox before the end of the quarter.\nAlex Moreno owns the rollout.');
+});
+
+Deno.test('Markdown is recognised by its extension when the browser sends no type', async () => {
+  const result = await extractAttachmentText('plan.md', '', await fixture('plan.md'));
+
+  assertEquals(result.status, 'extracted');
+  assertMatch(result.text!, /^# Launch plan/);
+  assertMatch(result.text!, /Book the review with \*\*Sam Ortega\*\*/);
+});
+
+Deno.test('HTML is read as an article without the page furniture', async () => {
+  const result = await extractAttachmentText('page.html', 'text/html', await fixture('page.html'));
+
+  assertEquals(result.status, 'extracted');
+  assertMatch(result.text!, /closes open loops/);
+  assert(!/trackPageView|Subscribe|All rights reserved/.test(result.text!));
+});
+
+Deno.test('a PDF with a standard font is read page by page', async () => {
+  const result = await extractAttachmentText('standard-font.pdf', 'application/pdf', await fixture('standard-font.pdf'));
+
+  assertEquals(result.status, 'extracted');
+  assertEquals(result.text, 'Quarterly planning notes\nShip the capture inbox before the end of the quarter.\n\nAlex Moreno owns the rollout.');
+});
+
+Deno.test('a PDF with an embedded CID font is read through its ToUnicode map', async () => {
+  const result = await extractAttachmentText('embedded-font.pdf', 'application/pdf', await fixture('embedded-font.pdf'));
+
+  assertEquals(result.status, 'extracted');
+  assertEquals(result.text, 'Café menu review\nCrème brûlée stays on the menu; the soufflé goes.\n\nNaïve pricing is fine for now.');
+});
+
+Deno.test('a PDF without a text layer is unsupported', async () => {
+  const result = await extractAttachmentText('scan.pdf', 'application/pdf', await fixture('no-text.pdf'));
+
+  assertEquals(result.status, 'unsupported');
+  assertEquals(result.text, undefined);
+});
+
+Deno.test('a file that is not really a PDF fails', async () => {
+  const result = await extractAttachmentText('fake.pdf', 'application/pdf', new TextEncoder().encode('not a pdf'));
+
+  assertEquals(result.status, 'failed');
+  assert(result.error);
+});
+
+Deno.test('other types are stored without text', async () => {
+  const result = await extractAttachmentText('photo.png', 'image/png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+
+  assertEquals(result.status, 'unsupported');
+});
@@ -0,0 +1,84 @@
+import { extractText, getDocumentProxy } from 'npm:unpdf@1';
+import { extractArticle } from './capture-link.tsx';
+
+// Text extraction for capture attachments, so the AI analysis and search can use
+// what's inside a file. Plain text, Markdown, HTML and PDF are read; anything else
+// (images, office documents...) is stored without text.
+//
+// PDFs are read with pdf.js (through unpdf), which maps glyphs back to text with
+// the fonts' ToUnicode tables, so CID fonts (Chrome's "Save as PDF") and subset
+// fonts (Word, LibreOffice) are read too. Scanned PDFs have no text layer and come
+// back as 'unsupported'.
+
+export interface AttachmentText {
+  status: 'extracted' | 'unsupported' | 'failed';
+  text?: string;
+  error?: string;
+}
+
+type AttachmentKind = 'text' | 'markdown' | 'html' | 'pdf' | 'other';
+
+const MAX_TEXT_CHARS = 20000;
+
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  txt: 'text', text: 'text', log: 'text', csv: 'text',
+  md: 'markdown', markdown: 'markdown',
+  html: 'html', htm: 'html',
+  pdf: 'pdf'
+};
+
+const CONTENT_TYPE_KINDS: Record<string, AttachmentKind> = {
+  'text/plain': 'text',
+  'text/csv': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/pdf': 'pdf'
+};
+
+// Browsers often send an empty or generic type for Markdown and text files, so the extension decides then
+export function attachmentKind(name: string, contentType: string): AttachmentKind {
+  const byType = CONTENT_TYPE_KINDS[(contentType || '').split(';')[0].trim().toLowerCase()];
+  if (byType) return byType;
+  const extension = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return (extension && EXTENSION_KINDS[extension]) || 'other';
+}
+
+export async function extractAttachmentText(name: string, contentType: string, bytes: Uint8Array): Promise<AttachmentText> {
+  try {
+    let text: string | undefined;
+    switch (attachmentKind(name, contentType)) {
+      case 'text':
+      case 'markdown':
+        text = new TextDecoder().decode(bytes).replace(/\r\n?/g, '\n').trim();
+        break;
+      case 'html':
+        text = extractArticle(new TextDecoder().decode(bytes)).text;
+        break;
+      case 'pdf':
+        text = await pdfText(bytes);
+        if (!text) {
+          return { status: 'unsupported', error: 'The PDF has no readable text (it may be scanned)' };
+        }
+        break;
+      default:
+        return { status: 'unsupported', error: `Text isn't extracted from ${contentType || 'this kind of file'}` };
+    }
+    return { status: 'extracted', text: text ? text.slice(0, MAX_TEXT_CHARS) : '' };
+  } catch (error) {
+    console.log('Attachment text extraction error:', error);
+    return { status: 'failed', error: (error as Error).message };
+  }
+}
+
+// The text of every page, pages separated by a blank line
+async function pdfText(bytes: Uint8Array): Promise<string> {
+  // pdf.js takes over the buffer it is given, so it gets a copy
+  const pdf = await getDocumentProxy(bytes.slice());
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text
+    .map(page => page.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
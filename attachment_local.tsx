@@ -0,0 +1,34 @@
+import type { AttachmentBackend } from './attachment_store.tsx';
+
+// Keeps attachments as plain files under a directory, one file per key. The
+// content type is kept on the capture's attachment record, so only bytes are stored.
+export class LocalAttachmentBackend implements AttachmentBackend {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, bytes: Uint8Array, _contentType: string): Promise<void> {
+    const path = this.pathFor(key);
+    await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await Deno.writeFile(path, bytes);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return await Deno.readFile(this.pathFor(key));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await Deno.remove(this.pathFor(key));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    return `${this.root.replace(/\/+$/, '')}/${key}`;
+  }
+}
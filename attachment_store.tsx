@@ -0,0 +1,58 @@
+// Storage for the files attached to captures. Records only keep an attachment's
+// storage key; the bytes live here.
+//
+// The backend is selected with the ATTACHMENT_BACKEND environment variable:
+//   local (default) - files under ATTACHMENT_PATH (./attachments by default)
+import { LocalAttachmentBackend } from './attachment_local.tsx';
+
+export interface AttachmentBackend {
+  put(key: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  // Resolves null when nothing is stored under the key
+  get(key: string): Promise<Uint8Array | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+let activeBackend: AttachmentBackend | null = null;
+
+const createBackend = (): AttachmentBackend => {
+  const kind = Deno.env.get('ATTACHMENT_BACKEND') || 'local';
+  switch (kind) {
+    case 'local':
+      return new LocalAttachmentBackend(Deno.env.get('ATTACHMENT_PATH') || './attachments');
+    default:
+      throw new Error(`Unknown ATTACHMENT_BACKEND: ${kind}`);
+  }
+};
+
+const backend = (): AttachmentBackend => {
+  if (!activeBackend) {
+    activeBackend = createBackend();
+  }
+  return activeBackend;
+};
+
+// Replaces the backend chosen from the environment, e.g. with one in a temporary directory in tests.
+export const setBackend = (next: AttachmentBackend): void => {
+  activeBackend = next;
+};
+
+// Keys are built by the server from ids it generated, e.g. "{userId}/{captureId}/{attachmentId}"
+const checkKey = (key: string): string => {
+  if (!/^[\w-]+(\/[\w-]+)*$/.test(key)) {
+    throw new Error(`Invalid attachment key: ${key}`);
+  }
+  return key;
+};
+
+export const put = async (key: string, bytes: Uint8Array, contentType: string): Promise<void> => {
+  return backend().put(checkKey(key), bytes, contentType);
+};
+
+export const get = async (key: string): Promise<Uint8Array | null> => {
+  return backend().get(checkKey(key));
+};
+
+export const del = async (key: string): Promise<void> => {
+  return backend().delete(checkKey(key));
+};
@@ -1,12 +1,13 @@
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { Context, Next } from 'npm:hono';
+import { clientError } from './validation.tsx';
 
 export async function authMiddleware(c: Context, next: Next) {
   try {
     const accessToken = c.req.header('Authorization')?.split(' ')[1];
     
     if (!accessToken) {
-      return c.json({ error: 'Authorization token required' }, 401);
+      return clientError(c, 401, 'unauthorized', 'Authorization token required');
     }
 
     const supabase = createClient(
@@ -18,7 +19,7 @@ export async function authMiddleware(c: Context, next: Next) {
 
     if (error || !user?.id) {
       console.log('Authentication error:', error);
-      return c.json({ error: 'Invalid or expired token' }, 401);
+      return clientError(c, 401, 'unauthorized', 'Invalid or expired token');
     }
 
     // Store user ID in context for use in routes
@@ -28,6 +29,16 @@ export async function authMiddleware(c: Context, next: Next) {
     await next();
   } catch (error) {
     console.log('Auth middleware error:', error);
-    return c.json({ error: 'Authentication failed' }, 401);
+    return clientError(c, 401, 'unauthorized', 'Authentication failed');
   }
+}
+
+// For routes that read across all users. Goes after authMiddleware. The role is
+// set in the user's app_metadata (e.g. from the Supabase dashboard), which users
+// can't change themselves.
+export async function adminMiddleware(c: Context, next: Next) {
+  if (c.get('user')?.app_metadata?.role !== 'admin') {
+    return clientError(c, 403, 'forbidden', 'Admin access required');
+  }
+  await next();
 }
\ No newline at end of file
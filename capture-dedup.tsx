@@ -0,0 +1,110 @@
+// Duplicate detection for captures. Three signals, strongest first:
+//   source item  - the id the originating service gave the item (a Gmail message,
+//                  a calendar event...), so a re-synced item is always recognised;
+//                  for uploads, the hash of the attached files
+//   fingerprint  - a hash of the normalized text, for exact copies
+//   similarity   - Jaccard similarity of word and word-pair sets, for copies that
+//                  differ in a few words (a timestamp, a signature)
+// Near-duplicate candidates are found through MinHash bands stored in the capture
+// index, so checking a new capture never scans the whole collection.
+
+export type DuplicateMatch = 'source' | 'exact' | 'similar';
+
+// Metadata fields the integrations put the originating item's id in
+const SOURCE_ITEM_FIELDS = ['emailId', 'eventId', 'messageId', 'commitId', 'pageId', 'itemId'];
+
+// Captures at least this similar are treated as the same item
+export const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+// Below this many word and word-pair features, similarity says too little; only exact matches count
+const MIN_FEATURES = 8;
+
+// 8 bands of 2 hashes: captures with similarity 0.8 share a band 99.97% of the
+// time, ones with similarity 0.3 about half the time (and are then ruled out)
+const BANDS = 8;
+const ROWS = 2;
+
+const SEEDS = Array.from({ length: BANDS * ROWS }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+
+const fnv1a = (text: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hex = (value: number) => value.toString(16).padStart(8, '0');
+
+// Lowercased words with accents and punctuation removed
+const words = (content: string): string[] =>
+  (content || '').toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [];
+
+const features = (content: string): Set<string> => {
+  const list = words(content);
+  const result = new Set(list);
+  for (let i = 1; i < list.length; i++) {
+    result.add(`${list[i - 1]} ${list[i]}`);
+  }
+  return result;
+};
+
+// "<source>:<item id>" when the capture came from an integration item, e.g. "gmail:email1"
+export function sourceItemId(source: string | undefined, metadata: any): string | null {
+  if (!source || !metadata || typeof metadata !== 'object') return null;
+  for (const field of SOURCE_ITEM_FIELDS) {
+    const value = metadata[field];
+    if (value !== undefined && value !== null && value !== '') {
+      return `${source}:${value}`;
+    }
+  }
+  return null;
+}
+
+// "upload:<hash>" for a set of uploaded files, from their content hashes, so
+// uploading the same files again is recognised whatever the capture's text says
+export function uploadItemId(hashes: string[]): string | null {
+  if (hashes.length === 0) return null;
+  const joined = [...hashes].sort().join(',');
+  return `upload:${hex(fnv1a(joined))}${hex(fnv1a(joined, 0x01000193))}`;
+}
+
+// Same for any two texts that differ only in case, punctuation and spacing
+export function contentFingerprint(content: string): string | null {
+  const text = words(content).join(' ');
+  return text ? hex(fnv1a(text)) + hex(fnv1a(text, 0x01000193)) : null;
+}
+
+// Jaccard similarity of the two texts' word and word-pair sets, from 0 to 1
+export function contentSimilarity(a: string, b: string): number {
+  const left = features(a);
+  const right = features(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const feature of left) {
+    if (right.has(feature)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+// MinHash band keys for the capture index; texts too short to compare get none
+export function similarityBands(content: string): string[] {
+  const hashes = [...features(content)].map(feature => fnv1a(feature));
+  if (hashes.length < MIN_FEATURES) return [];
+
+  const minimums = SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      let mixed = Math.imul(hash ^ seed, 0x85ebca6b);
+      mixed = (mixed ^ (mixed >>> 13)) >>> 0;
+      if (mixed < min) min = mixed;
+    }
+    return min;
+  });
+
+  return Array.from({ length: BANDS }, (_, band) =>
+    `${band}.${minimums.slice(band * ROWS, (band + 1) * ROWS).map(hex).join('')}`
+  );
+}
@@ -0,0 +1,200 @@
+import { assert, assertEquals, assertMatch } from 'jsr:@std/assert';
+import { fetchLink, type LinkFetchOptions } from './capture-link.tsx';
+import { fixtureResponse } from './link_fixtures.tsx';
+
+// deno test capture-link.test.tsx
+
+const FIXTURES = 'http://fixtures.test';
+
+// Serves the fixture pages in place of the network. A real fetch rejects once its
+// signal aborts, so this does too, even though /slow answers early on abort.
+const fixtureFetch: LinkFetchOptions['fetch'] = async (input, init) => {
+  const response = await fixtureResponse(new Request(input, init));
+  if (init.signal?.aborted) throw new DOMException('The signal has been aborted', 'AbortError');
+  return response;
+};
+
+// fixtures.test is public; internal.test points at the cloud metadata address
+const HOSTS: Record<string, string[]> = {
+  'fixtures.test': ['93.184.216.34'],
+  'internal.test': ['93.184.216.35', '169.254.169.254']
+};
+
+const fixture = (path: string, options: LinkFetchOptions = {}) =>
+  fetchLink(`${FIXTURES}${path}`, {
+    fetch: fixtureFetch,
+    resolveHost: async (hostname) => HOSTS[hostname] || [],
+    ...options
+  });
+
+// Extraction
+
+Deno.test('an article is read from its metadata without the page furniture', async () => {
+  const link = await fixture('/article');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.contentType, 'text/html');
+  assertEquals(link.title, 'Why weekly reviews work');
+  assertEquals(link.author, 'Dana Whitfield');
+  assertEquals(link.siteName, 'Focus Weekly');
+  assertEquals(link.publishedAt, '2024-03-18T09:30:00.000Z');
+  assertMatch(link.text!, /closes open loops/);
+  assert(!/trackPageView|Subscribe|All rights reserved|ten tips/.test(link.text!));
+  assertEquals(link.redirects, 0);
+});
+
+Deno.test('a page without metadata takes its title, author and date from the markup', async () => {
+  const link = await fixture('/minimal');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.title, 'Release notes 2.4');
+  assertEquals(link.author, 'Sam Ortega');
+  assertMatch(link.publishedAt!, /^2024-05-02/);
+  assertMatch(link.text!, /Bulk triage/);
+});
+
+Deno.test('a plain text page is read as it is', async () => {
+  const link = await fixture('/plain');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.contentType, 'text/plain');
+  assertMatch(link.text!, /Alex Moreno owns the rollout/);
+});
+
+Deno.test('a page in a legacy encoding is decoded with its charset', async () => {
+  const link = await fixture('/latin1');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.title, 'Café');
+  assertMatch(link.text!, /Café and crème brûlée/);
+});
+
+// Redirects
+
+Deno.test('a redirect is followed to the article', async () => {
+  const link = await fixture('/redirect');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.finalUrl, `${FIXTURES}/article`);
+  assertEquals(link.redirects, 1);
+});
+
+Deno.test('a redirect chain is followed to the end', async () => {
+  const link = await fixture('/redirect-chain');
+
+  assertEquals(link.status, 'extracted');
+  assertEquals(link.finalUrl, `${FIXTURES}/article`);
+  assertEquals(link.redirects, 2);
+});
+
+Deno.test('five redirects are followed and a sixth is not', async () => {
+  const five = await fixture('/redirect-hops/5');
+  assertEquals(five.status, 'extracted');
+  assertEquals(five.redirects, 5);
+
+  const six = await fixture('/redirect-hops/6');
+  assertEquals(six.status, 'failed');
+  assertEquals(six.error, 'More than 5 redirects');
+});
+
+Deno.test('a redirect loop fails instead of running forever', async () => {
+  const link = await fixture('/redirect-loop');
+
+  assertEquals(link.status, 'failed');
+  assertEquals(link.error, 'More than 5 redirects');
+  assertEquals(link.finalUrl, `${FIXTURES}/redirect-loop`);
+});
+
+// Unreadable pages
+
+Deno.test('a PDF is stored as unsupported', async () => {
+  const link = await fixture('/report.pdf');
+
+  assertEquals(link.status, 'unsupported');
+  assertEquals(link.contentType, 'application/pdf');
+  assertEquals(link.text, undefined);
+});
+
+Deno.test('an image is stored as unsupported', async () => {
+  const link = await fixture('/image');
+
+  assertEquals(link.status, 'unsupported');
+  assertEquals(link.contentType, 'image/png');
+});
+
+Deno.test('a missing page fails with its HTTP status', async () => {
+  const link = await fixture('/missing');
+
+  assertEquals(link.status, 'failed');
+  assertEquals(link.error, 'The page returned HTTP 404');
+});
+
+Deno.test('a slow page fails after LINK_FETCH_TIMEOUT_MS', async () => {
+  Deno.env.set('LINK_FETCH_TIMEOUT_MS', '50');
+  try {
+    const link = await fixture('/slow');
+
+    assertEquals(link.status, 'failed');
+    assertEquals(link.error, 'Timed out after 50 ms');
+  } finally {
+    Deno.env.delete('LINK_FETCH_TIMEOUT_MS');
+  }
+});
+
+// Private addresses
+
+Deno.test('private hosts are not fetched', async () => {
+  for (const url of ['http://localhost/', 'http://127.0.0.1/', 'http://169.254.169.254/', 'http://[::1]/']) {
+    const link = await fetchLink(url, { fetch: fixtureFetch });
+
+    assertEquals(link.status, 'failed');
+    assertEquals(link.error, 'Links to private addresses are not fetched');
+  }
+});
+
+Deno.test('a name that resolves to a private address is not fetched', async () => {
+  const link = await fetchLink('http://internal.test/article', {
+    fetch: fixtureFetch,
+    resolveHost: async (hostname) => HOSTS[hostname] || []
+  });
+
+  assertEquals(link.status, 'failed');
+  assertEquals(link.error, 'Links to private addresses are not fetched');
+});
+
+Deno.test('a redirect to a private address is not followed', async () => {
+  for (const target of ['http://internal.test/article', 'http://10.0.0.8/']) {
+    const link = await fixture(`/redirect-to?url=${encodeURIComponent(target)}`);
+
+    assertEquals(link.status, 'failed');
+    assertEquals(link.error, 'Links to private addresses are not fetched');
+    assertEquals(link.finalUrl, target);
+  }
+});
+
+Deno.test('a name that does not resolve fails', async () => {
+  const link = await fixture('/article', { resolveHost: async () => [] });
+
+  assertEquals(link.status, 'failed');
+  assertEquals(link.error, "Couldn't resolve fixtures.test");
+});
+
+Deno.test('every IPv6 link-local and unique local address is private', async () => {
+  for (const address of ['fe80::1', 'fe9a::1', 'feab:1::2', 'febf:ffff::1', 'fc00::1', 'fd12:3456::1']) {
+    const link = await fetchLink(`http://[${address}]/`, { fetch: fixtureFetch });
+
+    assertEquals(link.status, 'failed', address);
+    assertEquals(link.error, 'Links to private addresses are not fetched');
+  }
+
+  const linkLocal = await fetchLink('http://link-local.test/', { fetch: fixtureFetch, resolveHost: async () => ['fe81::5'] });
+  assertEquals(linkLocal.error, 'Links to private addresses are not fetched');
+});
+
+Deno.test('IPv6 addresses that only start like the private ranges are allowed', async () => {
+  for (const address of ['2606:4700::1111', 'fb00::1', 'fc::1']) {
+    const link = await fetchLink('http://fixtures.test/plain', { fetch: fixtureFetch, resolveHost: async () => [address] });
+
+    assertEquals(link.status, 'extracted', address);
+  }
+});
@@ -0,0 +1,418 @@
+// Reading the page behind a link capture: fetches the URL (following redirects,
+// within a time and size limit) and pulls out the title, author, publish date and
+// readable main text, so the AI analysis works on the article rather than the URL.
+// Never throws; a page that can't be read comes back as 'unsupported' or 'failed'
+// with the reason, and the capture is analysed from its URL as before.
+//
+// Pages on localhost or the private network are never fetched: every hop's host
+// name is resolved and refused if any of its addresses is private. Set
+// LINK_FETCH_ALLOW_PRIVATE=true to allow them, e.g. for the fixture pages served
+// by link_fixtures.tsx.
+//
+// The check can't cover DNS rebinding: fetch resolves the name again, and Deno's
+// fetch has no way to connect to the address that was checked while keeping the
+// name for TLS, so a name that answers with a public address to the check and a
+// private one to fetch gets through. Where that matters, block the private
+// ranges for the server at the network level as well.
+
+export interface LinkContent {
+  // As captured
+  url: string;
+  // After redirects
+  finalUrl: string;
+  status: 'extracted' | 'unsupported' | 'failed';
+  contentType?: string;
+  title?: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  description?: string;
+  // Readable main text, paragraphs separated by blank lines
+  text?: string;
+  // Why the page couldn't be read
+  error?: string;
+  redirects: number;
+  fetchedAt: string;
+}
+
+export type ExtractedArticle = Pick<LinkContent, 'title' | 'author' | 'publishedAt' | 'siteName' | 'description' | 'text'>;
+
+export interface LinkFetchOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  allowPrivate?: boolean;
+  // The addresses a host name resolves to; Deno.resolveDns by default
+  resolveHost?: (hostname: string, signal: AbortSignal) => Promise<string[]>;
+  // Replaces the global fetch, e.g. with link_fixtures.tsx's fixtureResponse in tests
+  fetch?: (input: URL, init: RequestInit) => Promise<Response>;
+}
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseInt(Deno.env.get(name) || '', 10);
+  return isNaN(value) ? fallback : value;
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+// Pages are read up to this size; the rest is ignored
+const MAX_BYTES = 2 * 1024 * 1024;
+const MAX_TEXT_CHARS = 20000;
+// Paragraphs shorter than this are usually captions, buttons and bylines
+const MIN_PARAGRAPH_CHARS = 40;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const TEXT_TYPES = ['text/plain', 'text/markdown'];
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ProductivityOS-LinkReader/1.0)';
+
+const ARTICLE_TYPES = ['article', 'newsarticle', 'blogposting', 'report', 'scholarlyarticle', 'techarticle'];
+
+class LinkFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkFetchError';
+  }
+}
+
+// The URL in a link capture: the first http(s) URL in the text, or the whole
+// text when it is a bare domain and path like "example.com/post"
+export function findUrl(content: string): string | null {
+  const text = (content || '').trim();
+  const match = text.match(/https?:\/\/[^\s<>"']+/i);
+  const candidate = match ? match[0] : /^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(text) ? `https://${text}` : null;
+  if (!candidate) return null;
+
+  try {
+    return new URL(candidate.replace(/[).,;:!?'"\]]+$/, '')).href;
+  } catch {
+    return null;
+  }
+}
+
+const isIPv4 = (host: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(host);
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// carrier-grade NAT and unspecified addresses, and the local host names
+function isPrivateAddress(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
+  if (host.includes(':')) {
+    // Loopback, unspecified, unique local (fc00::/7), link local (fe80::/10) and IPv4-mapped addresses
+    return host === '::1' || host === '::' || /^(f[cd][0-9a-f]{2}:|fe[89ab][0-9a-f]:|::ffff:)/.test(host);
+  }
+  if (!isIPv4(host)) return false;
+
+  const [a, b] = host.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+}
+
+const resolveDns = async (hostname: string, signal: AbortSignal): Promise<string[]> => {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A', { signal }),
+    Deno.resolveDns(hostname, 'AAAA', { signal })
+  ]);
+  return results.flatMap(result => result.status === 'fulfilled' ? result.value as string[] : []);
+};
+
+// Checked for every hop. A name is refused if any address it resolves to is
+// private, so a public name pointing at the internal network is caught too.
+async function checkAllowed(url: URL, allowPrivate: boolean, resolveHost: NonNullable<LinkFetchOptions['resolveHost']>, signal: AbortSignal): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new LinkFetchError(`Unsupported URL scheme: ${url.protocol}`);
+  }
+  if (allowPrivate) return;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateAddress(host)) {
+    throw new LinkFetchError('Links to private addresses are not fetched');
+  }
+  if (isIPv4(host) || host.includes(':')) return;
+
+  const addresses = await resolveHost(host, signal);
+  if (addresses.length === 0) {
+    throw new LinkFetchError(`Couldn't resolve ${host}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new LinkFetchError('Links to private addresses are not fetched');
+  }
+}
+
+// Reads at most maxBytes of the body and decodes it with the charset the server declared
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (size < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.length;
+    }
+    await reader.cancel().catch(() => {});
+  }
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  const charset = (response.headers.get('content-type') || '').match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+export async function fetchLink(url: string, options: LinkFetchOptions = {}): Promise<LinkContent> {
+  const timeoutMs = options.timeoutMs ?? envNumber('LINK_FETCH_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const allowPrivate = options.allowPrivate ?? Deno.env.get('LINK_FETCH_ALLOW_PRIVATE') === 'true';
+  const resolveHost = options.resolveHost ?? resolveDns;
+  const fetchPage = options.fetch ?? fetch;
+  const fetchedAt = new Date().toISOString();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let current: URL | null = null;
+  let redirects = 0;
+  try {
+    current = new URL(url);
+
+    // Redirects are followed by hand so every hop is checked and loops end
+    let response: Response;
+    while (true) {
+      await checkAllowed(current, allowPrivate, resolveHost, controller.signal);
+      response = await fetchPage(current, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5'
+        }
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (++redirects > MAX_REDIRECTS) {
+        throw new LinkFetchError(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      current = new URL(location, current);
+    }
+
+    const finalUrl = current.href;
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new LinkFetchError(`The page returned HTTP ${response.status}`);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (![...HTML_TYPES, ...TEXT_TYPES].includes(contentType)) {
+      await response.body?.cancel();
+      return {
+        url,
+        finalUrl,
+        status: 'unsupported',
+        contentType: contentType || undefined,
+        title: titleFromPath(current),
+        error: `Can't read ${contentType || 'content of unknown type'}`,
+        redirects,
+        fetchedAt
+      };
+    }
+
+    const body = await readBody(response, options.maxBytes ?? MAX_BYTES);
+    const extracted = HTML_TYPES.includes(contentType) ? extractArticle(body) : extractPlainText(body);
+    return {
+      url,
+      finalUrl,
+      status: 'extracted',
+      contentType,
+      ...extracted,
+      title: extracted.title || titleFromPath(current),
+      redirects,
+      fetchedAt
+    };
+  } catch (error) {
+    return {
+      url,
+      finalUrl: current?.href ?? url,
+      status: 'failed',
+      error: controller.signal.aborted ? `Timed out after ${timeoutMs} ms` : (error as Error).message,
+      redirects,
+      fetchedAt
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// "annual-report-2024.pdf" -> "annual report 2024"
+function titleFromPath(url: URL): string | undefined {
+  const name = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '');
+  const title = name.replace(/\.[a-z0-9]+$/i, '').replace(/[-_]+/g, ' ').trim();
+  return title || url.hostname;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©'
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Text content of an HTML fragment on one line
+const textOf = (html: string): string =>
+  decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const attributesOf = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '').trim();
+  }
+  return attributes;
+};
+
+// <meta> values by lowercased name, property or itemprop; the first one wins
+function metaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = attributesOf(tag);
+    const key = (attributes.property || attributes.name || attributes.itemprop || '').toLowerCase();
+    if (key && attributes.content && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+  return meta;
+}
+
+// The first schema.org article described in JSON-LD, if any
+function jsonLdArticle(html: string): any | null {
+  for (const [, json] of html.matchAll(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    let data: any;
+    try {
+      data = JSON.parse(json.trim());
+    } catch {
+      continue;
+    }
+    const items = (Array.isArray(data) ? data : [data]).flatMap(item => item?.['@graph'] ?? [item]);
+    const article = items.find(item => [].concat(item?.['@type'] ?? []).some((type: string) =>
+      ARTICLE_TYPES.includes(String(type).toLowerCase())
+    ));
+    if (article) return article;
+  }
+  return null;
+}
+
+const authorName = (author: any): string | undefined => {
+  const first = Array.isArray(author) ? author[0] : author;
+  const name = typeof first === 'string' ? first : first?.name;
+  return typeof name === 'string' && name.trim() ? name.trim() : undefined;
+};
+
+const firstOf = (...values: Array<string | undefined | null>): string | undefined =>
+  values.find((value): value is string => typeof value === 'string' && value.trim().length > 0)?.trim();
+
+const isoDate = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// "Post title | Site name" -> "Post title"
+const withoutSiteName = (title: string, siteName?: string): string => {
+  if (!siteName) return title;
+  const escaped = siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return title.replace(new RegExp(`\\s+[|–—-]\\s+${escaped}$`, 'i'), '') || title;
+};
+
+// Element contents by tag name; nested elements of the same name are not matched up
+const elements = (html: string, tag: string): string[] =>
+  [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))].map(match => match[1]);
+
+export function extractArticle(html: string): ExtractedArticle {
+  const meta = metaTags(html);
+  const article = jsonLdArticle(html);
+
+  const siteName = firstOf(meta.get('og:site_name'), meta.get('application-name'));
+  const documentTitle = elements(html, 'title')[0];
+  const title = firstOf(
+    meta.get('og:title'),
+    meta.get('twitter:title'),
+    article?.headline,
+    documentTitle && withoutSiteName(textOf(documentTitle), siteName),
+    elements(html, 'h1').map(textOf)[0]
+  );
+
+  const relAuthor = html.match(/<a\b[^>]*rel=["'][^"']*\bauthor\b[^"']*["'][^>]*>([\s\S]*?)<\/a>/i)?.[1];
+  const author = firstOf(
+    meta.get('author'),
+    // Often a profile URL rather than a name
+    meta.get('article:author')?.startsWith('http') ? undefined : meta.get('article:author'),
+    authorName(article?.author),
+    meta.get('parsely-author'),
+    meta.get('dc.creator'),
+    relAuthor && textOf(relAuthor)
+  );
+
+  const timeTag = html.match(/<time\b[^>]*datetime=["']([^"']+)["']/i)?.[1];
+  const publishedAt = isoDate(firstOf(
+    meta.get('article:published_time'),
+    meta.get('datepublished'),
+    article?.datePublished,
+    meta.get('pubdate'),
+    meta.get('publishdate'),
+    meta.get('date'),
+    meta.get('dc.date'),
+    timeTag
+  ));
+
+  const description = firstOf(meta.get('og:description'), meta.get('description'), meta.get('twitter:description'));
+
+  return { title, author, publishedAt, siteName, description, text: mainText(html) };
+}
+
+// Paragraph text of the <article> (or <main>, or <body>) without navigation,
+// scripts and other page furniture. Falls back to all of its text when the page
+// doesn't use paragraphs.
+function mainText(html: string): string | undefined {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template|svg|iframe|nav|header|footer|aside|form|button|figure)\b[\s\S]*?<\/\1>/gi, ' ');
+  const container = elements(cleaned, 'article')[0] ?? elements(cleaned, 'main')[0] ?? elements(cleaned, 'body')[0] ?? cleaned;
+
+  const blocks: string[] = [];
+  for (const [, tag, inner] of container.matchAll(/<(p|h[2-4]|li|blockquote|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const text = textOf(inner);
+    if (text && (tag.toLowerCase().startsWith('h') || text.length >= MIN_PARAGRAPH_CHARS)) {
+      blocks.push(text);
+    }
+  }
+
+  const paragraphs = blocks.join('\n\n');
+  const text = paragraphs.replace(/\s+/g, '').length >= 200 ? paragraphs : textOf(container);
+  return text ? text.slice(0, MAX_TEXT_CHARS) : undefined;
+}
+
+// Plain text and Markdown: the first line is the title
+function extractPlainText(body: string): ExtractedArticle {
+  const text = body.replace(/\r\n?/g, '\n').trim();
+  const firstLine = text.split('\n').find(line => line.trim())?.replace(/^#+\s*/, '').trim();
+  return {
+    title: firstLine && firstLine.length <= 200 ? firstLine : undefined,
+    text: text ? text.slice(0, MAX_TEXT_CHARS) : undefined
+  };
+}
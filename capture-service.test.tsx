@@ -0,0 +1,91 @@
+import { assertEquals, assertRejects } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { CaptureConversionError, captureService } from './capture-service.tsx';
+import { projectService } from './project-service.tsx';
+
+// deno test --allow-env capture-service.test.tsx
+
+Deno.test('converting a capture again returns the task already made from it', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const project = await projectService.createProject('u1', { name: 'Launch' });
+  const capture = await captureService.processCapture('u1', { type: 'task', content: 'Book the launch review' });
+
+  const first = await captureService.convertCapture('u1', capture.id, { to: 'task', projectId: project.id });
+  const second = await captureService.convertCapture('u1', capture.id, { to: 'task', projectId: project.id });
+
+  assertEquals(second!.task.id, first!.task.id);
+  assertEquals(second!.capture.links, [{ kind: 'task', id: first!.task.id, projectId: project.id }]);
+  assertEquals((await projectService.getProjectById('u1', project.id))!.tasks.length, 1);
+});
+
+Deno.test('a capture is converted to a project again once the first one is deleted', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const capture = await captureService.processCapture('u2', { type: 'idea', content: 'A podcast about weekly reviews' });
+
+  const first = await captureService.convertCapture('u2', capture.id, { to: 'project' });
+  await projectService.deleteProject('u2', first!.project.id);
+  const second = await captureService.convertCapture('u2', capture.id, { to: 'project' });
+
+  assertEquals(second!.capture.links!.map(link => link.id), [first!.project.id, second!.project.id]);
+});
+
+Deno.test('two conversions at once create one task', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const project = await projectService.createProject('u3', { name: 'Launch' });
+  const capture = await captureService.processCapture('u3', { type: 'task', content: 'Send the invites' });
+
+  const results = await Promise.allSettled([
+    captureService.convertCapture('u3', capture.id, { to: 'task', projectId: project.id }),
+    captureService.convertCapture('u3', capture.id, { to: 'task', projectId: project.id })
+  ]);
+
+  assertEquals((await projectService.getProjectById('u3', project.id))!.tasks.length, 1);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      assertEquals(result.reason instanceof CaptureConversionError, true);
+    }
+  }
+  // Once the first has finished, converting again is not refused
+  await captureService.convertCapture('u3', capture.id, { to: 'task', projectId: project.id });
+});
+
+Deno.test('a conversion already running is refused', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const capture = await captureService.processCapture('u4', { type: 'idea', content: 'Quarterly offsite' });
+  await kv.set(`user:u4:capture-converting:${capture.id}:project`, Date.now());
+
+  await assertRejects(
+    () => captureService.convertCapture('u4', capture.id, { to: 'project' }),
+    CaptureConversionError,
+    'already being converted'
+  );
+});
+
+const email = { type: 'email' as const, content: 'Invoice 42 is due Friday', source: 'gmail', metadata: { emailId: 'm-42' } };
+
+Deno.test('the same integration item delivered twice at once is stored once', async () => {
+  kv.setBackend(new LocalKVBackend());
+
+  const results = await Promise.allSettled([
+    captureService.processCapture('u5', email),
+    captureService.processCapture('u5', email)
+  ]);
+
+  assertEquals(results.some(result => result.status === 'fulfilled'), true);
+  assertEquals((await kv.getByPrefix('user:u5:capture:')).length, 1);
+  // Once it is stored, another delivery updates it
+  const again = await captureService.processCapture('u5', email);
+  assertEquals(again.duplicateCount! >= 1, true);
+  assertEquals((await kv.getByPrefix('user:u5:capture:')).length, 1);
+});
+
+Deno.test('a source item claimed by a capture that was never stored is taken over', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u6:capture-source:gmail:m-42', { captureId: 'lost', at: Date.now() - 2 * 60 * 1000 });
+
+  const capture = await captureService.processCapture('u6', email);
+
+  assertEquals((await kv.get('user:u6:capture-source:gmail:m-42')).captureId, capture.id);
+  assertEquals(capture.sourceItemIds, ['gmail:m-42']);
+});
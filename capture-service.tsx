@@ -1,4 +1,30 @@
 import * as kv from './kv_store.tsx';
+import * as llm from './llm.tsx';
+import { captureIndex, taskIndex } from './kv_index.tsx';
+import { embeddingIndex } from './embeddings.tsx';
+import { readRecord, stampVersion, upgradeRecord } from './migrations.tsx';
+import { eventBus } from './events.tsx';
+import { notificationService } from './notification-service.tsx';
+import { projectService } from './project-service.tsx';
+import {
+  contentFingerprint,
+  contentSimilarity,
+  DuplicateMatch,
+  NEAR_DUPLICATE_SIMILARITY,
+  similarityBands,
+  sourceItemId,
+  uploadItemId
+} from './capture-dedup.tsx';
+import { fetchLink, findUrl, LinkContent } from './capture-link.tsx';
+import * as attachmentStore from './attachment_store.tsx';
+import { extractAttachmentText } from './attachment-text.tsx';
+import { transcribe } from './transcriber.tsx';
+
+interface AttachmentUpload {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
 
 interface CaptureData {
   type: 'email' | 'note' | 'task' | 'idea' | 'link' | 'file' | 'voice';
@@ -6,6 +32,58 @@ interface CaptureData {
   source?: string;
   metadata?: any;
   priority?: 'high' | 'medium' | 'low';
+  // Files uploaded with the capture (multipart requests only)
+  attachments?: AttachmentUpload[];
+  // For voice captures; the recording is the first attachment
+  voice?: Omit<VoiceRecording, 'attachmentId'>;
+}
+
+interface VoiceCaptureData {
+  audio: AttachmentUpload;
+  // See TranscriptionRequest
+  hint?: string;
+  language?: string;
+  durationMs?: number;
+  priority?: 'high' | 'medium' | 'low';
+  metadata?: any;
+}
+
+export type CaptureStatus = 'inbox' | 'actioned' | 'archived' | 'snoozed';
+
+// A file stored with a capture. The bytes are in the attachment store under
+// storageKey; the text read from them (see attachment-text.tsx) is kept here.
+export interface CaptureAttachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  // SHA-256 of the bytes, hex
+  hash: string;
+  storageKey: string;
+  textStatus: 'extracted' | 'unsupported' | 'failed';
+  text?: string;
+  textError?: string;
+}
+
+// A voice capture's recording and its transcript. A recording that couldn't be
+// transcribed is still kept, with an empty transcript.
+export interface VoiceRecording {
+  // The attachment holding the audio
+  attachmentId: string;
+  transcript: string;
+  status: 'transcribed' | 'empty' | 'failed';
+  // Name of the transcriber used, when there was one
+  transcriber?: string;
+  language?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface CaptureLink {
+  kind: 'task' | 'project';
+  id: string;
+  // For tasks, the project the task was added to
+  projectId?: string;
 }
 
 interface ProcessedCapture {
@@ -13,6 +91,7 @@ interface ProcessedCapture {
   userId: string;
   type: string;
   content: string;
+  source?: string;
   processedContent: {
     summary: string;
     category: string;
@@ -28,35 +107,180 @@ interface ProcessedCapture {
   timestamp: string;
   processed: boolean;
   tags: string[];
+  metadata?: any;
+  // Ids of the integration items merged into this capture, e.g. "gmail:email1"
+  sourceItemIds?: string[];
+  // How many times the same item came in again and was merged into this capture
+  duplicateCount?: number;
+  updated?: string;
+  // For link captures, what was read from the page (see capture-link.tsx)
+  link?: LinkContent;
+  attachments?: CaptureAttachment[];
+  voice?: VoiceRecording;
+  // Triage state. New captures land in the inbox; snoozed ones are back in it once snoozedUntil passes.
+  status: CaptureStatus;
+  snoozedUntil?: string;
+  // When the status last changed
+  triaged?: string;
+  // Tasks and projects created from this capture
+  links?: CaptureLink[];
+  schemaVersion?: number;
+}
+
+export interface DuplicateGroup {
+  match: DuplicateMatch;
+  // Newest first; merging keeps the first one by default
+  captures: ProcessedCapture[];
+}
+
+interface CaptureAnalysis {
+  processedContent: ProcessedCapture['processedContent'];
+  link: LinkContent | null;
+  // What was analysed: the capture's content, or for a link the page's text,
+  // followed by the text of any attachments
+  text: string;
+}
+
+interface CapturePage {
+  captures: ProcessedCapture[];
+  nextCursor: string | null;
+}
+
+export interface TriageResult {
+  updated: ProcessedCapture[];
+  skipped: Array<{ id: string; reason: 'not_found' | 'invalid_transition' }>;
+}
+
+interface ConversionTarget {
+  to: 'task' | 'project';
+  // Defaults to the capture's summary
+  title?: string;
+  // Tasks only; defaults to the most recently updated active project
+  projectId?: string;
+}
+
+export interface CaptureConversion {
+  capture: ProcessedCapture;
+  task?: any;
+  project?: any;
+}
+
+// Thrown when a capture can't be converted for a reason the user can fix
+export class CaptureConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureConversionError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes.slice());
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const DEFAULT_SNOOZE_DAYS = 1;
+
+// How long a new capture holds its source item before the claim can be taken over,
+// e.g. when the request that made it failed before storing the capture
+const SOURCE_CLAIM_MS = 60 * 1000;
+
+interface SourceItemClaim {
+  captureId: string;
+  at: number;
+}
+
+// How long a conversion in progress holds off another one of the same capture to
+// the same kind; after this a claim left by a crashed request is ignored
+const CONVERSION_CLAIM_MS = 60 * 1000;
+
+// The statuses a capture can be moved to from each status. Snoozing a snoozed
+// capture again changes its date. Converting a capture marks it actioned from any status.
+const TRIAGE_TRANSITIONS: Record<CaptureStatus, CaptureStatus[]> = {
+  inbox: ['actioned', 'archived', 'snoozed'],
+  snoozed: ['inbox', 'actioned', 'archived', 'snoozed'],
+  actioned: ['inbox', 'archived'],
+  archived: ['inbox']
+};
+
+// A snoozed capture whose date has passed is back in the inbox. The stored record
+// (and its index entry) keep saying snoozed until the capture is next written.
+function expireSnooze(capture: ProcessedCapture, now: Date = new Date()): ProcessedCapture {
+  if (capture.status !== 'snoozed' || !capture.snoozedUntil || new Date(capture.snoozedUntil) > now) {
+    return capture;
+  }
+  const { snoozedUntil, ...rest } = capture;
+  return { ...rest, status: 'inbox', triaged: snoozedUntil };
 }
 
 class CaptureService {
+  // An item that was already captured (the same integration item, the same text,
+  // or nearly the same text) updates the existing capture instead of adding a copy;
+  // the returned capture then has a duplicateCount above zero. Uploads are only
+  // duplicates of a capture with the same files.
   async processCapture(userId: string, captureData: CaptureData): Promise<ProcessedCapture> {
     try {
+      const uploads = captureData.attachments || [];
+      const hashes = await Promise.all(uploads.map(upload => sha256(upload.bytes)));
+      const sourceItem = sourceItemId(captureData.source, captureData.metadata) ?? uploadItemId(hashes);
+      const duplicate = await this.findDuplicate(userId, captureData, sourceItem);
+      if (duplicate) {
+        return await this.mergeIncoming(userId, duplicate, captureData, sourceItem);
+      }
+
       const captureId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      if (sourceItem) {
+        const owner = await this.claimSourceItem(userId, sourceItem, captureId);
+        if (owner) {
+          return await this.mergeIncoming(userId, owner, captureData, sourceItem);
+        }
+      }
+
+      const attachments = await this.storeAttachments(userId, captureId, uploads, hashes);
       
       // Process the content with AI
-      const processedContent = await this.processWithAI(captureData);
+      const { processedContent, link, text } = await this.analyze(captureData, attachments);
       
-      const processedCapture: ProcessedCapture = {
+      const processedCapture: ProcessedCapture = stampVersion('capture', {
         id: captureId,
         userId,
         type: captureData.type,
         content: captureData.content,
+        source: captureData.source,
         processedContent,
         timestamp: new Date().toISOString(),
         processed: true,
-        tags: this.generateTags(captureData.content, processedContent)
-      };
+        status: 'inbox',
+        tags: this.generateTags(text, processedContent),
+        ...(link && { link }),
+        ...(attachments.length > 0 && { attachments }),
+        ...(captureData.voice && attachments[0] && { voice: { ...captureData.voice, attachmentId: attachments[0].id } }),
+        ...(captureData.metadata && { metadata: captureData.metadata }),
+        ...(sourceItem && { sourceItemIds: [sourceItem] })
+      });
       
       // Store the capture
       await kv.set(`user:${userId}:capture:${captureId}`, processedCapture);
+      await captureIndex.sync(userId, captureId, processedCapture);
+      await embeddingIndex.sync(userId, 'capture', captureId, processedCapture);
       
       // Update user statistics
       await this.updateCaptureStats(userId, captureData.type);
       
       // Create follow-up actions if needed
       await this.createFollowUpActions(userId, processedCapture);
+
+      eventBus.publish(userId, 'capture.processed', { capture: processedCapture });
+
+      if (processedCapture.processedContent.priority === 'high') {
+        await notificationService.notify(userId, 'capture_priority', {
+          title: 'High-priority capture',
+          message: processedCapture.processedContent.summary,
+          link: { tab: 'capture', id: captureId },
+          dedupeKey: `capture_priority:${captureId}`
+        });
+      }
       
       return processedCapture;
     } catch (error) {
@@ -65,10 +289,476 @@ class CaptureService {
     }
   }
 
+  // Transcribes the recording and stores it as a voice capture whose content is the
+  // transcript. When there is no transcript the capture is kept as a voice memo.
+  async processVoiceCapture(userId: string, voiceData: VoiceCaptureData): Promise<ProcessedCapture> {
+    const { audio, hint, language, durationMs } = voiceData;
+    let voice: Omit<VoiceRecording, 'attachmentId'>;
+    try {
+      const transcript = await transcribe({ audio: audio.bytes, contentType: audio.contentType, language, hint, durationMs });
+      voice = {
+        transcript: transcript.text,
+        status: transcript.text ? 'transcribed' : 'empty',
+        transcriber: transcript.transcriber,
+        ...((transcript.language || language) && { language: transcript.language || language }),
+        ...(durationMs !== undefined && { durationMs })
+      };
+    } catch (error) {
+      console.log('Voice transcription error:', error);
+      voice = {
+        transcript: '',
+        status: 'failed',
+        ...(durationMs !== undefined && { durationMs }),
+        error: (error as Error).message
+      };
+    }
+
+    const seconds = durationMs !== undefined ? Math.round(durationMs / 1000) : null;
+    const length = seconds !== null ? ` (${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')})` : '';
+    return this.processCapture(userId, {
+      type: 'voice',
+      content: voice.transcript || `Voice memo${length}`,
+      priority: voiceData.priority,
+      metadata: voiceData.metadata,
+      attachments: [audio],
+      voice
+    });
+  }
+
+  // The stored capture the incoming item duplicates, if any. Content matches only
+  // count within the same capture type, so a task and a note with the same text stay apart.
+  private async findDuplicate(userId: string, captureData: CaptureData, sourceItem: string | null): Promise<ProcessedCapture | null> {
+    if (sourceItem) {
+      const [match] = await captureIndex.find(userId, 'sourceItem', sourceItem);
+      if (match) return upgradeRecord('capture', match);
+    }
+    if (captureData.attachments?.length) {
+      return null;
+    }
+
+    const fingerprint = contentFingerprint(captureData.content);
+    if (fingerprint) {
+      const match = (await captureIndex.find(userId, 'fingerprint', fingerprint)).find(capture => capture.type === captureData.type);
+      if (match) return upgradeRecord('capture', match);
+    }
+
+    const bands = similarityBands(captureData.content);
+    if (bands.length === 0) return null;
+
+    const candidates = new Map<string, any>();
+    for (const band of bands) {
+      for (const capture of await captureIndex.find(userId, 'similarity', band)) {
+        if (capture.type === captureData.type) candidates.set(capture.id, capture);
+      }
+    }
+
+    let best: { capture: any; similarity: number } | null = null;
+    for (const capture of candidates.values()) {
+      const similarity = contentSimilarity(captureData.content, capture.content);
+      if (similarity >= NEAR_DUPLICATE_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { capture, similarity };
+      }
+    }
+    return best && upgradeRecord('capture', best.capture);
+  }
+
+  // Claims the source item for a new capture under user:{id}:capture-source:{item},
+  // so two deliveries of the same item at once can't both create one. Returns the
+  // capture that already holds the item instead, if there is one; while another
+  // request is still storing it this one fails. A claim whose capture never got
+  // stored, or was deleted, is taken over.
+  private async claimSourceItem(userId: string, sourceItem: string, captureId: string): Promise<ProcessedCapture | null> {
+    const key = `user:${userId}:capture-source:${sourceItem}`;
+    const now = Date.now();
+    const current: SourceItemClaim | undefined = await kv.get(key);
+    if (current) {
+      const owner = await readRecord('capture', `user:${userId}:capture:${current.captureId}`);
+      if (owner) return owner;
+      if (now - current.at < SOURCE_CLAIM_MS) {
+        throw new Error(`${sourceItem} is already being captured`);
+      }
+    }
+
+    const claimed = await kv.update<SourceItemClaim>(key, (latest) =>
+      latest?.captureId === current?.captureId ? { captureId, at: now } : undefined
+    );
+    if (!claimed) {
+      throw new Error(`${sourceItem} is already being captured`);
+    }
+    return null;
+  }
+
+  // Updates the existing capture with the incoming item's content and metadata.
+  // The AI analysis is only redone if the text actually changed. Re-uploaded files
+  // are already stored with the existing capture, so they aren't stored again.
+  private async mergeIncoming(userId: string, existing: ProcessedCapture, captureData: CaptureData, sourceItem: string | null): Promise<ProcessedCapture> {
+    const contentChanged = contentFingerprint(existing.content) !== contentFingerprint(captureData.content);
+    const analysis = contentChanged ? await this.analyze(captureData, existing.attachments || []) : null;
+    const now = new Date().toISOString();
+
+    const merged = await kv.update<ProcessedCapture>(`user:${userId}:capture:${existing.id}`, (current) => {
+      const capture = upgradeRecord('capture', current ?? existing);
+      return {
+        ...capture,
+        ...(analysis && {
+          content: captureData.content,
+          processedContent: analysis.processedContent,
+          tags: [...new Set([...capture.tags, ...this.generateTags(analysis.text, analysis.processedContent)])],
+          ...(analysis.link && { link: analysis.link })
+        }),
+        source: captureData.source ?? capture.source,
+        ...((capture.metadata || captureData.metadata) && { metadata: { ...capture.metadata, ...captureData.metadata } }),
+        ...((capture.sourceItemIds || sourceItem) && {
+          sourceItemIds: [...new Set([...(capture.sourceItemIds || []), ...(sourceItem ? [sourceItem] : [])])]
+        }),
+        duplicateCount: (capture.duplicateCount || 0) + 1,
+        updated: now
+      };
+    });
+
+    await captureIndex.sync(userId, merged.id, merged);
+    await embeddingIndex.sync(userId, 'capture', merged.id, merged);
+    eventBus.publish(userId, 'capture.processed', { capture: merged });
+    return merged;
+  }
+
+  // Groups of already stored captures that look like the same item, among the
+  // `limit` most recent ones. Used to offer merges for duplicates stored before
+  // capture-time detection, or that slipped past it.
+  async findDuplicateGroups(userId: string, limit: number = 200): Promise<DuplicateGroup[]> {
+    try {
+      const { captures } = await this.listCaptures(userId, { limit });
+
+      // Union-find over captures that share a source item, a fingerprint or a similarity band
+      const parent = captures.map((_, i) => i);
+      const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+      const matchOf = new Map<number, DuplicateMatch>();
+      const rank: Record<DuplicateMatch, number> = { source: 3, exact: 2, similar: 1 };
+      const join = (a: number, b: number, match: DuplicateMatch) => {
+        const [ra, rb] = [root(a), root(b)];
+        const strongest = [matchOf.get(ra), matchOf.get(rb), match]
+          .filter((m): m is DuplicateMatch => !!m)
+          .sort((x, y) => rank[y] - rank[x])[0];
+        parent[rb] = ra;
+        matchOf.set(ra, strongest);
+      };
+
+      const buckets = new Map<string, number[]>();
+      captures.forEach((capture, i) => {
+        // As at capture time, captures with attachments only match on their files
+        const byContent = !capture.attachments?.length;
+        const fingerprint = byContent ? contentFingerprint(capture.content) : null;
+        const keys = [
+          ...(capture.sourceItemIds || []).map(id => `source|${id}`),
+          ...(fingerprint ? [`exact|${capture.type}|${fingerprint}`] : []),
+          ...(byContent ? similarityBands(capture.content) : []).map(band => `similar|${capture.type}|${band}`)
+        ];
+        for (const key of keys) {
+          buckets.set(key, [...(buckets.get(key) || []), i]);
+        }
+      });
+
+      for (const [key, members] of buckets) {
+        const match = key.split('|')[0] as DuplicateMatch;
+        for (let i = 0; i < members.length; i++) {
+          for (let j = i + 1; j < members.length; j++) {
+            const [a, b] = [members[i], members[j]];
+            if (root(a) === root(b)) continue;
+            // Sharing a band only makes them candidates
+            if (match !== 'similar' || contentSimilarity(captures[a].content, captures[b].content) >= NEAR_DUPLICATE_SIMILARITY) {
+              join(a, b, match);
+            }
+          }
+        }
+      }
+
+      const groups = new Map<number, ProcessedCapture[]>();
+      captures.forEach((capture, i) => {
+        groups.set(root(i), [...(groups.get(root(i)) || []), capture]);
+      });
+      return [...groups.entries()]
+        .filter(([, members]) => members.length > 1)
+        .map(([groupRoot, members]) => ({ match: matchOf.get(groupRoot)!, captures: members }));
+    } catch (error) {
+      console.log('Find duplicate captures error:', error);
+      throw new Error('Failed to find duplicate captures');
+    }
+  }
+
+  // Folds the duplicates into the target capture and deletes them. The target keeps
+  // its content and analysis; tags, metadata, source items and attachments are
+  // combined. Returns null if the target doesn't exist.
+  async mergeCaptures(userId: string, targetId: string, duplicateIds: string[]): Promise<ProcessedCapture | null> {
+    try {
+      const ids = duplicateIds.filter(id => id !== targetId);
+      const duplicates: ProcessedCapture[] = (await kv.mget(ids.map(id => `user:${userId}:capture:${id}`)))
+        .filter(Boolean)
+        .map(capture => upgradeRecord('capture', capture));
+
+      const merged = await kv.update<ProcessedCapture>(`user:${userId}:capture:${targetId}`, (current) => {
+        if (!current) return undefined;
+        const target = upgradeRecord('capture', current);
+        const all = [target, ...duplicates];
+        const sourceItemIds = [...new Set(all.flatMap(capture => capture.sourceItemIds || []))];
+        // The same file attached to several of them is kept once
+        const attachments = all
+          .flatMap(capture => capture.attachments || [])
+          .filter((file, i, files) => files.findIndex(other => other.hash === file.hash) === i);
+        return {
+          ...target,
+          tags: [...new Set(all.flatMap(capture => capture.tags))],
+          metadata: Object.assign({}, ...[...duplicates].reverse().map(capture => capture.metadata), target.metadata),
+          ...(sourceItemIds.length > 0 && { sourceItemIds }),
+          ...(attachments.length > 0 && { attachments }),
+          duplicateCount: all.reduce((sum, capture) => sum + (capture.duplicateCount || 0), 0) + duplicates.length,
+          updated: new Date().toISOString()
+        };
+      });
+      if (!merged) {
+        return null;
+      }
+
+      await captureIndex.sync(userId, merged.id, merged);
+      await embeddingIndex.sync(userId, 'capture', merged.id, merged);
+      // Attachments that moved to the target keep their stored bytes
+      const kept = new Set((merged.attachments || []).map(file => file.storageKey));
+      for (const duplicate of duplicates) {
+        await this.removeCapture(userId, duplicate.id);
+        await this.deleteAttachments((duplicate.attachments || []).filter(file => !kept.has(file.storageKey)));
+      }
+      eventBus.publish(userId, 'capture.processed', { capture: merged });
+      return merged;
+    } catch (error) {
+      console.log('Merge captures error:', error);
+      throw new Error('Failed to merge captures');
+    }
+  }
+
+  // Moves each capture to the status, skipping ones that don't exist or can't move
+  // there from their current status. Snoozing without `until` snoozes for a day.
+  async triageCaptures(userId: string, captureIds: string[], status: CaptureStatus, until?: string): Promise<TriageResult> {
+    try {
+      const now = new Date();
+      const result: TriageResult = { updated: [], skipped: [] };
+
+      for (const captureId of [...new Set(captureIds)]) {
+        let reason: TriageResult['skipped'][number]['reason'] = 'not_found';
+        const updated = await kv.update<ProcessedCapture>(`user:${userId}:capture:${captureId}`, (existing) => {
+          if (!existing) return undefined;
+          const capture = expireSnooze(upgradeRecord('capture', existing), now);
+          if (!TRIAGE_TRANSITIONS[capture.status].includes(status)) {
+            reason = 'invalid_transition';
+            return undefined;
+          }
+          return this.withStatus(capture, status, now, until);
+        });
+
+        if (!updated) {
+          result.skipped.push({ id: captureId, reason });
+          continue;
+        }
+        await captureIndex.sync(userId, captureId, updated);
+        eventBus.publish(userId, 'capture.processed', { capture: updated });
+        result.updated.push(updated);
+      }
+      return result;
+    } catch (error) {
+      console.log('Triage captures error:', error);
+      throw new Error('Failed to triage captures');
+    }
+  }
+
+  // Creates a task or project from the capture, links it from the capture and
+  // marks the capture actioned. Returns null if there is no such capture.
+  // Converting again to the same kind returns the item already linked instead of
+  // creating another; a conversion already running is refused.
+  async convertCapture(userId: string, captureId: string, target: ConversionTarget): Promise<CaptureConversion | null> {
+    const claimKey = `user:${userId}:capture-converting:${captureId}:${target.to}`;
+    let claimed = false;
+    try {
+      const startedAt = Date.now();
+      claimed = !!await kv.update<number>(claimKey, (existing) =>
+        existing && startedAt - existing < CONVERSION_CLAIM_MS ? undefined : startedAt
+      );
+      if (!claimed) {
+        throw new CaptureConversionError(`This capture is already being converted to a ${target.to}`);
+      }
+
+      // Read after claiming, so a conversion that just finished is seen
+      const capture = await this.getCaptureById(userId, captureId);
+      if (!capture) {
+        return null;
+      }
+
+      const linked = await this.linkedItem(userId, capture, target.to);
+      if (linked) {
+        return { capture, ...linked };
+      }
+
+      const title = target.title || capture.processedContent.summary;
+      const source = `capture:${capture.id}`;
+      let created: Omit<CaptureConversion, 'capture'>;
+      let link: CaptureLink;
+
+      if (target.to === 'task') {
+        const projectId = target.projectId || (await projectService.getDefaultProject(userId))?.id;
+        if (!projectId) {
+          throw new CaptureConversionError('There is no active project to add the task to');
+        }
+        const task = await projectService.createTask(userId, projectId, {
+          title,
+          description: capture.content,
+          priority: capture.processedContent.priority,
+          source
+        });
+        created = { task };
+        link = { kind: 'task', id: task.id, projectId };
+      } else {
+        const project = await projectService.createProject(userId, {
+          name: title,
+          description: capture.content,
+          priority: capture.processedContent.priority,
+          metadata: { source }
+        });
+        created = { project };
+        link = { kind: 'project', id: project.id };
+      }
+
+      const now = new Date();
+      const updated = await kv.update<ProcessedCapture>(`user:${userId}:capture:${captureId}`, (existing) => {
+        // Deleted while the item was being created; the item stays
+        if (!existing) return undefined;
+        const current = expireSnooze(upgradeRecord('capture', existing), now);
+        return { ...this.withStatus(current, 'actioned', now), links: [...(current.links || []), link] };
+      });
+
+      if (updated) {
+        await captureIndex.sync(userId, captureId, updated);
+        eventBus.publish(userId, 'capture.processed', { capture: updated });
+      }
+      return { capture: updated ?? capture, ...created };
+    } catch (error) {
+      console.log('Convert capture error:', error);
+      if (error instanceof CaptureConversionError) throw error;
+      throw new Error('Failed to convert capture');
+    } finally {
+      if (claimed) {
+        await kv.del(claimKey).catch(error => console.log('Release conversion claim error:', error));
+      }
+    }
+  }
+
+  // The latest item of this kind the capture was converted to, if it still exists
+  private async linkedItem(userId: string, capture: ProcessedCapture, kind: CaptureLink['kind']): Promise<Omit<CaptureConversion, 'capture'> | null> {
+    const links = (capture.links || []).filter(link => link.kind === kind).reverse();
+    for (const link of links) {
+      if (kind === 'task') {
+        const task = await readRecord('task', `user:${userId}:task:${link.id}`);
+        if (task) return { task };
+      } else {
+        // Deleting a project archives it
+        const project = await projectService.getProjectById(userId, link.id);
+        if (project && project.status !== 'archived') return { project };
+      }
+    }
+    return null;
+  }
+
+  private withStatus(capture: ProcessedCapture, status: CaptureStatus, now: Date, until?: string): ProcessedCapture {
+    const { snoozedUntil: _, ...rest } = capture;
+    return {
+      ...rest,
+      status,
+      ...(status === 'snoozed' && {
+        snoozedUntil: until ? new Date(until).toISOString() : new Date(now.getTime() + DEFAULT_SNOOZE_DAYS * DAY_MS).toISOString()
+      }),
+      triaged: now.toISOString()
+    };
+  }
+
+  // Link captures are analysed from the page they point to: its title, byline and
+  // main text. If the page can't be read, the URL itself is analysed as before.
+  // The text read from attachments is analysed along with the capture's own.
+  private async analyze(captureData: CaptureData, attachments: CaptureAttachment[] = []): Promise<CaptureAnalysis> {
+    const url = captureData.type === 'link' ? findUrl(captureData.content) : null;
+    const link = url ? await fetchLink(url) : null;
+    const readable = !!(link?.text || link?.title);
+    const attachmentTexts = attachments
+      .filter(file => file.text)
+      .map(file => `${file.name}:\n${file.text}`);
+    if (!readable && attachmentTexts.length === 0) {
+      return { processedContent: await this.processWithAI(captureData), link, text: captureData.content };
+    }
+
+    const text = [
+      ...(readable ? [
+        link!.title,
+        link!.author && `By ${link!.author}`,
+        link!.publishedAt && `Published ${link!.publishedAt.split('T')[0]}`,
+        link!.description,
+        link!.text
+      ] : [captureData.content]),
+      ...attachmentTexts
+    ].filter(Boolean).join('\n\n');
+    const processedContent = await this.processWithAI({ ...captureData, content: text });
+    if (!readable || !link) {
+      return { processedContent, link, text };
+    }
+
+    // The byline and date are known for certain, so they lead the extracted entities
+    const entities = processedContent.extractedEntities;
+    if (link.author) {
+      entities.people = [...new Set([link.author, ...entities.people])].slice(0, 5);
+    }
+    if (link.publishedAt) {
+      entities.dates = [...new Set([link.publishedAt.split('T')[0], ...entities.dates])].slice(0, 3);
+    }
+    return { processedContent, link, text };
+  }
+
+  // Stores the uploaded files and reads their text. If storing one fails, the ones
+  // already stored are removed again.
+  private async storeAttachments(userId: string, captureId: string, uploads: AttachmentUpload[], hashes: string[]): Promise<CaptureAttachment[]> {
+    const attachments: CaptureAttachment[] = [];
+    try {
+      for (const [i, upload] of uploads.entries()) {
+        const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const storageKey = `${userId}/${captureId}/${id}`;
+        await attachmentStore.put(storageKey, upload.bytes, upload.contentType);
+        const extracted = await extractAttachmentText(upload.name, upload.contentType, upload.bytes);
+        attachments.push({
+          id,
+          name: upload.name,
+          contentType: upload.contentType,
+          size: upload.bytes.length,
+          hash: hashes[i],
+          storageKey,
+          textStatus: extracted.status,
+          ...(extracted.text && { text: extracted.text }),
+          ...(extracted.error && { textError: extracted.error })
+        });
+      }
+      return attachments;
+    } catch (error) {
+      await this.deleteAttachments(attachments);
+      throw error;
+    }
+  }
+
+  private async deleteAttachments(attachments: CaptureAttachment[]) {
+    for (const attachment of attachments) {
+      try {
+        await attachmentStore.del(attachment.storageKey);
+      } catch (error) {
+        console.log('Delete attachment error:', error);
+      }
+    }
+  }
+
   private async processWithAI(captureData: CaptureData): Promise<ProcessedCapture['processedContent']> {
     try {
-      // Use OpenAI for content analysis
-      const analysis = await this.analyzeWithOpenAI(captureData.content);
+      // Use the language model for content analysis
+      const analysis = await this.analyzeWithAI(captureData.content);
       
       return {
         summary: analysis.summary || this.generateFallbackSummary(captureData.content),
@@ -88,7 +778,7 @@ class CaptureService {
     }
   }
 
-  private async analyzeWithOpenAI(content: string): Promise<any> {
+  private async analyzeWithAI(content: string): Promise<any> {
     try {
       const prompt = `Analyze this content and return a JSON object with the following structure:
       {
@@ -104,29 +794,16 @@ class CaptureService {
       
       Content: ${content}`;
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: 400,
-          temperature: 0.3,
-        }),
+      return await llm.completeJSON({
+        purpose: 'analysis',
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 400,
+        temperature: 0.3
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        return JSON.parse(data.choices[0]?.message?.content || '{}');
-      }
     } catch (error) {
-      console.log('OpenAI analysis error:', error);
+      console.log('LLM analysis error:', error);
+      return {};
     }
-    
-    return {};
   }
 
   private getFallbackProcessing(captureData: CaptureData): ProcessedCapture['processedContent'] {
@@ -249,15 +926,17 @@ class CaptureService {
   private async updateCaptureStats(userId: string, type: string) {
     try {
       const statsKey = `user:${userId}:stats:captures`;
-      const stats = await kv.get(statsKey) || { total: 0, byType: {}, byDay: {} };
-      
-      stats.total += 1;
-      stats.byType[type] = (stats.byType[type] || 0) + 1;
-      
       const today = new Date().toDateString();
-      stats.byDay[today] = (stats.byDay[today] || 0) + 1;
       
-      await kv.set(statsKey, stats);
+      await kv.update(statsKey, (current) => {
+        const stats = current || { total: 0, byType: {}, byDay: {} };
+        
+        stats.total += 1;
+        stats.byType[type] = (stats.byType[type] || 0) + 1;
+        stats.byDay[today] = (stats.byDay[today] || 0) + 1;
+        
+        return stats;
+      });
     } catch (error) {
       console.log('Stats update error:', error);
     }
@@ -291,15 +970,21 @@ class CaptureService {
 
   private async createTasksFromCapture(userId: string, capture: ProcessedCapture) {
     for (const task of capture.processedContent.extractedEntities.tasks) {
-      const taskId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      await kv.set(`user:${userId}:task:${taskId}`, {
+      const taskId = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const record = stampVersion('task', {
         id: taskId,
         title: task,
         source: `capture:${capture.id}`,
+        status: 'pending',
         priority: capture.processedContent.priority,
+        tags: [],
         created: new Date().toISOString(),
         completed: false
       });
+      await kv.set(`user:${userId}:task:${taskId}`, record);
+      await taskIndex.sync(userId, taskId, record);
+      await embeddingIndex.sync(userId, 'task', taskId, record);
+      eventBus.publish(userId, 'task.changed', { action: 'created', task: record });
     }
   }
 
@@ -309,39 +994,87 @@ class CaptureService {
   }
 
   async getUserCaptures(userId: string, limit: number = 50): Promise<ProcessedCapture[]> {
+    const page = await this.listCaptures(userId, { limit });
+    return page.captures;
+  }
+
+  // Capture IDs start with their creation time, so descending key order is newest first
+  async listCaptures(userId: string, options: { cursor?: string | null; limit?: number } = {}): Promise<CapturePage> {
     try {
-      const captures = await kv.getByPrefix(`user:${userId}:capture:`);
-      return captures
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, limit);
+      const page = await kv.scanByPrefix(`user:${userId}:capture:`, {
+        cursor: options.cursor,
+        limit: options.limit ?? 50,
+        order: 'desc'
+      });
+      return {
+        captures: page.entries.map(entry => expireSnooze(upgradeRecord('capture', entry.value))),
+        nextCursor: page.cursor
+      };
     } catch (error) {
       console.log('Get user captures error:', error);
+      if (error instanceof kv.InvalidCursorError) throw error;
       throw new Error('Failed to fetch user captures');
     }
   }
 
+  // Newest first. The inbox includes snoozed captures whose date has passed.
+  async listCapturesByStatus(userId: string, status: CaptureStatus, limit: number = 50): Promise<ProcessedCapture[]> {
+    try {
+      const indexed = status === 'inbox' ? ['inbox', 'snoozed'] : [status];
+      const records = (await Promise.all(indexed.map(value => captureIndex.find(userId, 'status', value)))).flat();
+      const now = new Date();
+      return records
+        .map(record => expireSnooze(upgradeRecord('capture', record), now))
+        .filter(capture => capture.status === status)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limit);
+    } catch (error) {
+      console.log('List captures by status error:', error);
+      throw new Error('Failed to fetch captures');
+    }
+  }
+
+  // Only what still needs triage; handled captures drop off the dashboard
   async getRecentCaptures(userId: string, limit: number = 10): Promise<ProcessedCapture[]> {
-    return this.getUserCaptures(userId, limit);
+    return this.listCapturesByStatus(userId, 'inbox', limit);
   }
 
   async getCaptureById(userId: string, captureId: string): Promise<ProcessedCapture | null> {
     try {
-      return await kv.get(`user:${userId}:capture:${captureId}`);
+      const capture = await readRecord('capture', `user:${userId}:capture:${captureId}`);
+      return capture && expireSnooze(capture);
     } catch (error) {
       console.log('Get capture by ID error:', error);
       return null;
     }
   }
 
-  async updateCapture(userId: string, captureId: string, updates: Partial<ProcessedCapture>): Promise<ProcessedCapture> {
+  // The attachment's record and stored bytes, or null if the capture or attachment doesn't exist
+  async getAttachment(userId: string, captureId: string, attachmentId: string): Promise<{ attachment: CaptureAttachment; bytes: Uint8Array } | null> {
     try {
-      const existing = await this.getCaptureById(userId, captureId);
-      if (!existing) {
-        throw new Error('Capture not found');
+      const capture = await this.getCaptureById(userId, captureId);
+      const attachment = capture?.attachments?.find(file => file.id === attachmentId);
+      if (!attachment) {
+        return null;
       }
-      
-      const updated = { ...existing, ...updates };
-      await kv.set(`user:${userId}:capture:${captureId}`, updated);
+      const bytes = await attachmentStore.get(attachment.storageKey);
+      return bytes && { attachment, bytes };
+    } catch (error) {
+      console.log('Get attachment error:', error);
+      throw new Error('Failed to fetch attachment');
+    }
+  }
+
+  async updateCapture(userId: string, captureId: string, updates: Partial<ProcessedCapture>): Promise<ProcessedCapture> {
+    try {
+      const updated = await kv.update(`user:${userId}:capture:${captureId}`, (existing) => {
+        if (!existing) {
+          throw new Error('Capture not found');
+        }
+        return { ...upgradeRecord('capture', existing), ...updates };
+      });
+      await captureIndex.sync(userId, captureId, updated);
+      await embeddingIndex.sync(userId, 'capture', captureId, updated);
       
       return updated;
     } catch (error) {
@@ -352,13 +1085,22 @@ class CaptureService {
 
   async deleteCapture(userId: string, captureId: string): Promise<boolean> {
     try {
-      await kv.del(`user:${userId}:capture:${captureId}`);
+      const capture = await this.getCaptureById(userId, captureId);
+      await this.removeCapture(userId, captureId);
+      await this.deleteAttachments(capture?.attachments || []);
       return true;
     } catch (error) {
       console.log('Delete capture error:', error);
       return false;
     }
   }
+
+  // Deletes the record only; its attachments stay in the store
+  private async removeCapture(userId: string, captureId: string) {
+    await kv.del(`user:${userId}:capture:${captureId}`);
+    await captureIndex.sync(userId, captureId, null);
+    await embeddingIndex.sync(userId, 'capture', captureId, null);
+  }
 }
 
 export const captureService = new CaptureService();
\ No newline at end of file
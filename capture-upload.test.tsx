@@ -0,0 +1,130 @@
+import { assert, assertEquals, assertMatch } from 'jsr:@std/assert';
+import { Hono } from 'npm:hono';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import * as attachmentStore from './attachment_store.tsx';
+import { LocalAttachmentBackend } from './attachment_local.tsx';
+import { captureService } from './capture-service.tsx';
+import { captureFormSchema, captureSchema, validateBodyOrForm } from './validation.tsx';
+
+// deno test --allow-read --allow-write --allow-env capture-upload.test.tsx
+//
+// POST /capture as a multipart form: the validation in front of the route, then
+// what the route hands to captureService.processCapture.
+
+const fixture = async (name: string, type: string) =>
+  new File([await Deno.readFile(new URL(`./fixtures/attachments/${name}`, import.meta.url))], name, { type });
+
+// The route's validation, echoing what the handler would receive
+const app = new Hono<{ Variables: { body: unknown; files: File[] } }>();
+app.post('/capture', validateBodyOrForm(captureSchema, captureFormSchema), (c) => c.json({
+  body: c.get('body'),
+  files: c.get('files').map(file => ({ name: file.name, type: file.type, size: file.size }))
+}));
+
+// Sends the form with the Content-Length a browser would, unless one is given
+const upload = async (form: FormData, contentLength?: string | null) => {
+  const request = new Request('http://test/capture', { method: 'POST', body: form });
+  const body = new Uint8Array(await request.arrayBuffer());
+  const headers: Record<string, string> = { 'content-type': request.headers.get('content-type')! };
+  if (contentLength !== null) headers['content-length'] = contentLength ?? String(body.length);
+  return app.request('/capture', { method: 'POST', body, headers });
+};
+
+Deno.test('a multipart capture exposes its fields and files', async () => {
+  const form = new FormData();
+  form.append('priority', 'high');
+  form.append('metadata', JSON.stringify({ source: 'universal_capture' }));
+  form.append('file', await fixture('notes.txt', 'text/plain'));
+  form.append('file', await fixture('standard-font.pdf', 'application/pdf'));
+
+  const response = await upload(form);
+
+  assertEquals(response.status, 200);
+  const { body, files } = await response.json();
+  assertEquals(body, { type: 'file', priority: 'high', metadata: { source: 'universal_capture' } });
+  assertEquals(files.map((file: any) => file.name), ['notes.txt', 'standard-font.pdf']);
+});
+
+Deno.test('a JSON capture still works and has no files', async () => {
+  const response = await app.request('/capture', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ type: 'note', content: 'Plain note' })
+  });
+
+  assertEquals(response.status, 200);
+  assertEquals((await response.json()).files, []);
+});
+
+Deno.test('more than five files are refused', async () => {
+  const form = new FormData();
+  for (let i = 0; i < 6; i++) form.append('file', new File(['x'], `file-${i}.txt`, { type: 'text/plain' }));
+
+  const response = await upload(form);
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).fields.file, ['At most 5 files can be uploaded at once']);
+});
+
+Deno.test('a file over 10 MB is refused', async () => {
+  const form = new FormData();
+  form.append('file', new File([new Uint8Array(10 * 1024 * 1024 + 1)], 'big.bin', { type: 'application/octet-stream' }));
+
+  const response = await upload(form);
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).fields.file, ['big.bin is larger than 10 MB']);
+});
+
+Deno.test('metadata that is not a JSON object is refused', async () => {
+  const form = new FormData();
+  form.append('metadata', 'not json');
+  form.append('file', await fixture('plan.md', 'text/markdown'));
+
+  const response = await upload(form);
+
+  assertEquals(response.status, 400);
+  assert((await response.json()).fields.metadata);
+});
+
+Deno.test('an upload is refused by its Content-Length before it is read', async () => {
+  const form = new FormData();
+  form.append('file', await fixture('notes.txt', 'text/plain'));
+
+  const tooLarge = await upload(form, String(52 * 1024 * 1024));
+  assertEquals(tooLarge.status, 413);
+  assertEquals((await tooLarge.json()).code, 'payload_too_large');
+
+  const missing = await upload(form, null);
+  assertEquals(missing.status, 411);
+  assertEquals((await missing.json()).code, 'length_required');
+});
+
+Deno.test('uploaded files are stored with the capture and their text analysed', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const root = await Deno.makeTempDir();
+  attachmentStore.setBackend(new LocalAttachmentBackend(root));
+  try {
+    const files = [await fixture('embedded-font.pdf', 'application/pdf'), await fixture('page.html', 'text/html')];
+    const capture = await captureService.processCapture('u1', {
+      type: 'file',
+      content: files.map(file => file.name).join(', '),
+      attachments: await Promise.all(files.map(async file => ({
+        name: file.name,
+        contentType: file.type,
+        bytes: new Uint8Array(await file.arrayBuffer())
+      })))
+    });
+
+    assertEquals(capture.attachments!.map(file => [file.name, file.textStatus]), [
+      ['embedded-font.pdf', 'extracted'],
+      ['page.html', 'extracted']
+    ]);
+    assertMatch(capture.attachments![0].text!, /Crème brûlée/);
+    const stored = await attachmentStore.get(capture.attachments![0].storageKey);
+    assertEquals(stored?.length, files[0].size);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
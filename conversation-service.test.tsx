@@ -0,0 +1,34 @@
+import { assertEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { conversationService } from './conversation-service.tsx';
+
+// deno test --allow-env conversation-service.test.tsx
+
+const legacyHistory = [
+  { role: 'user', content: 'What is on my plate today?', timestamp: '2024-03-01T09:00:00.000Z' },
+  { role: 'assistant', content: 'Three tasks, one of them overdue.', timestamp: '2024-03-01T09:00:05.000Z' }
+];
+
+Deno.test('the single pre-thread history becomes one thread, even when listed twice at once', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u1:conversation', legacyHistory);
+
+  await Promise.all([conversationService.listConversations('u1'), conversationService.listConversations('u1')]);
+  const conversations = await conversationService.listConversations('u1');
+
+  assertEquals(conversations.map(conversation => [conversation.title, conversation.messageCount]), [['Earlier conversation', 2]]);
+  assertEquals(await kv.get('user:u1:conversation'), undefined);
+  assertEquals(
+    (await conversationService.getMessages('u1', conversations[0].id)).map(message => message.content),
+    legacyHistory.map(message => message.content)
+  );
+});
+
+Deno.test('an empty pre-thread history is removed without making a thread', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u2:conversation', []);
+
+  assertEquals(await conversationService.listConversations('u2'), []);
+  assertEquals(await kv.get('user:u2:conversation'), undefined);
+});
@@ -0,0 +1,261 @@
+import * as kv from './kv_store.tsx';
+import * as llm from './llm.tsx';
+import type { Source } from './retrieval.tsx';
+
+// What produced an assistant reply, so feedback can be compared across prompts and models.
+// `promptType` is 'chat' or 'chat-grounded' (with retrieved items) for model replies,
+// 'fallback' for the canned reply used when the model failed and 'tool-result' for
+// tool call outcomes; the last two have no model.
+export interface MessageGeneration {
+  promptType: 'chat' | 'chat-grounded' | 'fallback' | 'tool-result';
+  promptVersion: number;
+  provider: string;
+  model: string;
+}
+
+export interface MessageFeedback {
+  rating: 'positive' | 'negative';
+  reason?: string;
+  at: string;
+}
+
+export interface AIMessage {
+  // Assigned when the message is stored
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  // Set when the user stopped generation; content holds what was produced until then
+  interrupted?: boolean;
+  // The user's items the reply was based on, numbered as cited in `content`
+  sources?: Source[];
+  generation?: MessageGeneration;
+  // The user's thumbs up or down on an assistant reply
+  feedback?: MessageFeedback;
+}
+
+interface Conversation {
+  id: string;
+  userId: string;
+  title: string;
+  // 'default' titles are replaced by a generated one after the first exchange
+  titleSource: 'default' | 'generated' | 'user';
+  messageCount: number;
+  preview: string;
+  created: string;
+  updated: string;
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation not found: ${conversationId}`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+const DEFAULT_TITLE = 'New conversation';
+
+// Older messages beyond this are dropped; the prompt only ever sees the last few anyway
+const MAX_MESSAGES = 200;
+
+// Metadata lives under user:{id}:conversation:{conversationId} and the messages
+// under user:{id}:conversation-messages:{conversationId}, so listing threads never
+// loads their messages.
+const conversationKey = (userId: string, conversationId: string) => `user:${userId}:conversation:${conversationId}`;
+const messagesKey = (userId: string, conversationId: string) => `user:${userId}:conversation-messages:${conversationId}`;
+
+export const newMessageId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Messages stored before they had ids get one derived from what they already
+// have, so it's the same on every read
+const withId = (message: AIMessage): AIMessage =>
+  message.id ? message : { ...message, id: `${new Date(message.timestamp).getTime()}-${message.role}` };
+
+class ConversationService {
+  // Most recently active first
+  async listConversations(userId: string): Promise<Conversation[]> {
+    try {
+      await this.importLegacyConversation(userId);
+      const conversations: Conversation[] = await kv.getByPrefix(`user:${userId}:conversation:`);
+      return conversations.sort((a, b) => b.updated.localeCompare(a.updated));
+    } catch (error) {
+      console.log('List conversations error:', error);
+      throw new Error('Failed to fetch conversations');
+    }
+  }
+
+  async createConversation(userId: string, title?: string): Promise<Conversation> {
+    try {
+      const conversationId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const now = new Date().toISOString();
+      const conversation: Conversation = {
+        id: conversationId,
+        userId,
+        title: title || DEFAULT_TITLE,
+        titleSource: title ? 'user' : 'default',
+        messageCount: 0,
+        preview: '',
+        created: now,
+        updated: now
+      };
+
+      await kv.set(conversationKey(userId, conversationId), conversation);
+      await kv.set(messagesKey(userId, conversationId), []);
+      return conversation;
+    } catch (error) {
+      console.log('Create conversation error:', error);
+      throw new Error('Failed to create conversation');
+    }
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    return await kv.get(conversationKey(userId, conversationId));
+  }
+
+  async getMessages(userId: string, conversationId: string): Promise<AIMessage[]> {
+    const messages: AIMessage[] = await kv.get(messagesKey(userId, conversationId)) || [];
+    return messages.map(withId);
+  }
+
+  // Rates an assistant reply, or clears its rating when `feedback` is null. Returns
+  // the message with the rating it had before, or null if there is no such reply.
+  async setMessageFeedback(
+    userId: string,
+    conversationId: string,
+    messageId: string,
+    feedback: MessageFeedback | null
+  ): Promise<{ message: AIMessage; previous?: MessageFeedback } | null> {
+    try {
+      let result: { message: AIMessage; previous?: MessageFeedback } | null = null;
+      await kv.update<AIMessage[]>(messagesKey(userId, conversationId), (current) => {
+        result = null;
+        const messages = (current || []).map(withId);
+        const index = messages.findIndex(message => message.id === messageId && message.role === 'assistant');
+        if (index < 0) return undefined;
+
+        const { feedback: previous, ...rest } = messages[index];
+        const message: AIMessage = feedback ? { ...rest, feedback } : rest;
+        result = { message, previous };
+        return messages.map((existing, i) => i === index ? message : existing);
+      });
+      return result;
+    } catch (error) {
+      console.log('Message feedback error:', error);
+      throw new Error('Failed to record feedback');
+    }
+  }
+
+  // Returns null if the conversation doesn't exist
+  async renameConversation(userId: string, conversationId: string, title: string): Promise<Conversation | null> {
+    try {
+      return await kv.update<Conversation>(conversationKey(userId, conversationId), (existing) =>
+        existing && { ...existing, title, titleSource: 'user', updated: new Date().toISOString() }
+      ) ?? null;
+    } catch (error) {
+      console.log('Rename conversation error:', error);
+      throw new Error('Failed to rename conversation');
+    }
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      if (!await this.getConversation(userId, conversationId)) {
+        return false;
+      }
+      await kv.mdel([conversationKey(userId, conversationId), messagesKey(userId, conversationId)]);
+      return true;
+    } catch (error) {
+      console.log('Delete conversation error:', error);
+      throw new Error('Failed to delete conversation');
+    }
+  }
+
+  // Appends to the thread and refreshes its metadata. Both writes re-read the
+  // stored value, so replies finishing at the same time don't overwrite each other.
+  async appendMessages(userId: string, conversationId: string, messages: AIMessage[]): Promise<Conversation> {
+    if (!await this.getConversation(userId, conversationId)) {
+      throw new ConversationNotFoundError(conversationId);
+    }
+
+    const stored = await kv.update<AIMessage[]>(messagesKey(userId, conversationId), (current) =>
+      [...(current || []), ...messages.map(message => ({ ...message, id: message.id || newMessageId() }))].slice(-MAX_MESSAGES)
+    );
+
+    const last = stored[stored.length - 1];
+    const updated = await kv.update<Conversation>(conversationKey(userId, conversationId), (existing) => {
+      if (!existing) {
+        throw new ConversationNotFoundError(conversationId);
+      }
+      return {
+        ...existing,
+        messageCount: stored.length,
+        preview: last ? last.content.slice(0, 120) : '',
+        updated: new Date().toISOString()
+      };
+    });
+    return updated;
+  }
+
+  // Names a thread from its first message, unless the user already named it.
+  // Falls back to the message's first few words if the model is unavailable.
+  async generateTitle(userId: string, conversationId: string, firstMessage: string): Promise<Conversation | null> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation || conversation.titleSource !== 'default') {
+      return conversation;
+    }
+
+    let title = '';
+    try {
+      const result = await llm.complete({
+        purpose: 'analysis',
+        messages: [
+          { role: 'system', content: 'Write a short title (at most six words) for a conversation that starts with the following message. Reply with the title only.' },
+          { role: 'user', content: firstMessage }
+        ],
+        maxTokens: 20,
+        temperature: 0.3
+      });
+      title = result.content.trim().replace(/^["']|["'.]$/g, '');
+    } catch (error) {
+      console.log('Conversation title error:', error);
+    }
+    if (!title) {
+      const words = firstMessage.trim().split(/\s+/);
+      title = words.slice(0, 6).join(' ') + (words.length > 6 ? '...' : '');
+    }
+
+    return await kv.update<Conversation>(conversationKey(userId, conversationId), (existing) =>
+      existing && existing.titleSource === 'default' ? { ...existing, title: title.slice(0, 200), titleSource: 'generated' } : undefined
+    ) ?? await this.getConversation(userId, conversationId);
+  }
+
+  // Before threads, each user had a single history under user:{id}:conversation.
+  // It becomes a thread of its own the first time the user's threads are listed.
+  // The import is claimed under user:{id}:conversation-import first, so two
+  // listings at once don't both make the thread; a failed import releases it.
+  private async importLegacyConversation(userId: string): Promise<void> {
+    const legacyKey = `user:${userId}:conversation`;
+    const legacy: AIMessage[] | null = await kv.get(legacyKey);
+    if (!legacy) return;
+
+    const importKey = `user:${userId}:conversation-import`;
+    const startedAt = new Date().toISOString();
+    const claimed = await kv.update<string>(importKey, (existing) => existing ? undefined : startedAt);
+    if (!claimed) return;
+
+    try {
+      // Imported and removed since it was read above
+      if (!await kv.get(legacyKey)) return;
+      if (legacy.length > 0) {
+        const conversation = await this.createConversation(userId, 'Earlier conversation');
+        await this.appendMessages(userId, conversation.id, legacy);
+      }
+      await kv.del(legacyKey);
+    } catch (error) {
+      await kv.del(importKey);
+      throw error;
+    }
+  }
+}
+
+export const conversationService = new ConversationService();
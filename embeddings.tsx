@@ -0,0 +1,286 @@
+import * as kv from './kv_store.tsx';
+import { LexicalRanker, RankedDocument, Ranker, RetrievalDocument, SourceKind, toDocument, tokenize } from './retrieval.tsx';
+
+// Vectors for the user's captures, tasks and projects, kept up to date on write
+// and used for semantic search.
+//
+// The embedder is selected with the EMBEDDER environment variable:
+//   local  - feature hashing over words and character trigrams; CPU only, no
+//            network, and the default
+//   openai - OpenAI embeddings (needs OPENAI_API_KEY; model from EMBEDDING_MODEL,
+//            default text-embedding-3-small)
+//
+// Vectors live under user:{id}:vec:{kind}:{recordId} with the embedder's name,
+// so switching embedders just means rebuilding (POST /indexes/rebuild).
+
+export interface Embedder {
+  // Identifies the model; vectors from a different one are never compared
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface StoredVector {
+  id: string;
+  kind: SourceKind;
+  model: string;
+  // Hash of the embedded text, so unchanged records aren't embedded again
+  textHash: string;
+  vector: number[];
+  updated: string;
+}
+
+// FNV-1a, 32 bit
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+// Both sides are unit length, so this is their cosine similarity
+const dot = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+// Strips common English suffixes so "meeting", "meetings" and "meet" share a feature
+const stem = (token: string): string => token.replace(/ies$/, 'y').replace(/(?:ing|ed|es|s)$/, '') || token;
+
+// Hashes each word (stemmed) and its character trigrams into a fixed-size vector.
+// Trigrams make related spellings and word forms land close together, which is
+// most of what matters for short personal notes. Deterministic and dependency free.
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(readonly dimensions: number = 256) {
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = hashString(feature);
+      // The top bit picks the sign, so unrelated features cancel out instead of piling up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const token of tokenize(text)) {
+      const word = stem(token);
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+    return normalize(vector);
+  }
+}
+
+export class OpenAIEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string = Deno.env.get('EMBEDDING_MODEL') || 'text-embedding-3-small',
+    readonly dimensions: number = 1536,
+    private readonly baseUrl: string = Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1'
+  ) {
+    this.name = `openai-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ model: this.model, input: texts, dimensions: this.dimensions })
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI embeddings error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.data
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => normalize(item.embedding));
+  }
+}
+
+let activeEmbedder: Embedder | null = null;
+
+const createEmbedder = (): Embedder => {
+  const kind = Deno.env.get('EMBEDDER') || 'local';
+  switch (kind) {
+    case 'local':
+      return new HashingEmbedder();
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('EMBEDDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIEmbedder(apiKey);
+    }
+    default:
+      throw new Error(`Unknown EMBEDDER: ${kind}`);
+  }
+};
+
+export const embedder = (): Embedder => {
+  if (!activeEmbedder) {
+    activeEmbedder = createEmbedder();
+  }
+  return activeEmbedder;
+};
+
+// Replaces the embedder chosen from the environment. Stored vectors from the
+// previous one are ignored until the index is rebuilt.
+export const setEmbedder = (next: Embedder): void => {
+  activeEmbedder = next;
+};
+
+const vectorKey = (userId: string, kind: SourceKind, id: string) => `user:${userId}:vec:${kind}:${id}`;
+
+const embeddingText = (document: RetrievalDocument) => `${document.title}\n${document.text}`;
+
+// Records are embedded in batches of this size when rebuilding
+const REBUILD_BATCH = 64;
+
+class EmbeddingIndex {
+  // Call after every write of a capture, task or project (null when it was deleted).
+  // Failures are logged, not thrown: a missing vector only costs that record its
+  // semantic score until the next write or rebuild.
+  async sync(userId: string, kind: SourceKind, id: string, record: any | null): Promise<void> {
+    try {
+      const key = vectorKey(userId, kind, id);
+      if (!record) {
+        await kv.del(key);
+        return;
+      }
+
+      const text = embeddingText(toDocument(kind, record));
+      const textHash = hashString(text).toString(16);
+      const model = embedder().name;
+      const existing: StoredVector | null = await kv.get(key);
+      if (existing?.model === model && existing.textHash === textHash) return;
+
+      const [vector] = await embedder().embed([text]);
+      const entry: StoredVector = { id, kind, model, textHash, vector, updated: new Date().toISOString() };
+      await kv.set(key, entry);
+    } catch (error) {
+      console.log(`Embedding sync error (${kind} ${id}):`, error);
+    }
+  }
+
+  // Cosine similarity of the query to every embedded record, keyed by "kind:id".
+  // Brute force: a user's items number in the thousands at most.
+  async similarities(userId: string, query: string): Promise<Map<string, number>> {
+    const model = embedder().name;
+    const [queryVector] = await embedder().embed([query]);
+    const stored: StoredVector[] = await kv.getByPrefix(`user:${userId}:vec:`);
+
+    const scores = new Map<string, number>();
+    for (const entry of stored) {
+      if (entry.model === model) {
+        scores.set(`${entry.kind}:${entry.id}`, dot(queryVector, entry.vector));
+      }
+    }
+    return scores;
+  }
+
+  // Re-embeds all of the user's captures, tasks and projects with the current
+  // embedder and drops vectors of records that no longer exist
+  async rebuild(userId: string): Promise<number> {
+    const kinds: SourceKind[] = ['capture', 'task', 'project'];
+    const records = await Promise.all(kinds.map(kind => kv.getByPrefix(`user:${userId}:${kind}:`)));
+    const documents = kinds.flatMap((kind, i) => records[i].map(record => toDocument(kind, record)));
+
+    const stale = await kv.getByPrefix(`user:${userId}:vec:`);
+    const live = new Set(documents.map(document => vectorKey(userId, document.kind, document.id)));
+    const orphaned = stale.map((entry: StoredVector) => vectorKey(userId, entry.kind, entry.id)).filter(key => !live.has(key));
+    if (orphaned.length > 0) {
+      await kv.mdel(orphaned);
+    }
+
+    const model = embedder().name;
+    const now = new Date().toISOString();
+    for (let start = 0; start < documents.length; start += REBUILD_BATCH) {
+      const batch = documents.slice(start, start + REBUILD_BATCH);
+      const texts = batch.map(embeddingText);
+      const vectors = await embedder().embed(texts);
+      await kv.mset(
+        batch.map(document => vectorKey(userId, document.kind, document.id)),
+        batch.map((document, i): StoredVector => ({
+          id: document.id,
+          kind: document.kind,
+          model,
+          textHash: hashString(texts[i]).toString(16),
+          vector: vectors[i],
+          updated: now
+        }))
+      );
+    }
+    return documents.length;
+  }
+}
+
+export const embeddingIndex = new EmbeddingIndex();
+
+// Below this similarity a record without a keyword match isn't considered related
+const SEMANTIC_THRESHOLD = 0.2;
+
+// Blends BM25 (scaled so the best keyword match is 1) with embedding similarity.
+// Records match on either signal; `keyword` and `semantic` are reported alongside
+// the combined score.
+export class HybridRanker implements Ranker {
+  readonly name = 'hybrid';
+  private readonly lexical = new LexicalRanker();
+
+  constructor(private readonly semanticWeight = 0.5) {}
+
+  async rank(userId: string, query: string, documents: RetrievalDocument[]): Promise<RankedDocument[]> {
+    const lexical = await this.lexical.rank(userId, query, documents);
+    const topKeyword = lexical[0]?.score || 1;
+    const keywordScores = new Map(lexical.map(({ document, score }) => [`${document.kind}:${document.id}`, score / topKeyword]));
+
+    let semanticScores = new Map<string, number>();
+    try {
+      semanticScores = await embeddingIndex.similarities(userId, query);
+    } catch (error) {
+      // Keyword ranking alone is still useful
+      console.log('Semantic search error:', error);
+    }
+
+    const ranked: RankedDocument[] = [];
+    for (const document of documents) {
+      const key = `${document.kind}:${document.id}`;
+      const keyword = keywordScores.get(key) || 0;
+      const semantic = Math.max(0, semanticScores.get(key) || 0);
+      if (keyword === 0 && semantic < SEMANTIC_THRESHOLD) continue;
+
+      ranked.push({
+        document,
+        score: (1 - this.semanticWeight) * keyword + this.semanticWeight * semantic,
+        keyword,
+        semantic
+      });
+    }
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,64 @@
+// In-process publish/subscribe for the realtime stream (GET /events).
+//
+// Services publish after a write has been stored; every open stream for that
+// user receives the event. Subscribers only see events raised in the same
+// isolate, so clients still fetch a full status snapshot whenever they connect.
+
+export type RealtimeEventType =
+  | 'status'
+  | 'capture.processed'
+  | 'task.changed'
+  | 'sync.started'
+  | 'sync.finished'
+  | 'notification.added';
+
+export interface RealtimeEvent {
+  id: string;
+  type: RealtimeEventType;
+  data: any;
+  timestamp: string;
+}
+
+type Listener = (event: RealtimeEvent) => void;
+
+class EventBus {
+  private listeners = new Map<string, Set<Listener>>();
+
+  // Returns a function that removes the listener again
+  subscribe(userId: string, listener: Listener): () => void {
+    const userListeners = this.listeners.get(userId) ?? new Set<Listener>();
+    userListeners.add(listener);
+    this.listeners.set(userId, userListeners);
+
+    return () => {
+      userListeners.delete(listener);
+      if (userListeners.size === 0) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  publish(userId: string, type: RealtimeEventType, data: any): RealtimeEvent {
+    const event = createEvent(type, data);
+    for (const listener of this.listeners.get(userId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A broken stream must not fail the write that raised the event
+        console.log('Event listener error:', error);
+      }
+    }
+    return event;
+  }
+}
+
+export function createEvent(type: RealtimeEventType, data: any): RealtimeEvent {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    data,
+    timestamp: new Date().toISOString()
+  };
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,121 @@
+import * as kv from './kv_store.tsx';
+import { AIMessage, conversationService, MessageFeedback, MessageGeneration } from './conversation-service.tsx';
+
+// Thumbs up/down on assistant replies. The rating is stored on the message
+// itself; on top of that every rating is counted in feedback:daily:{YYYY-MM-DD}
+// (the day the reply was generated) by prompt type, prompt version and model, so
+// the report can compare them across all users without reading any conversations.
+
+interface FeedbackCounts {
+  promptType: string;
+  promptVersion: number;
+  provider: string;
+  model: string;
+  positive: number;
+  negative: number;
+}
+
+export interface FeedbackReportGroup extends FeedbackCounts {
+  total: number;
+  positiveRate: number;
+}
+
+export interface FeedbackReport {
+  from: string;
+  to: string;
+  groups: FeedbackReportGroup[];
+  totals: { positive: number; negative: number; total: number; positiveRate: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dailyKey = (date: string) => `feedback:daily:${date}`;
+
+// Replies stored before generation details were recorded
+const UNKNOWN_GENERATION: MessageGeneration = { promptType: 'chat', promptVersion: 0, provider: 'unknown', model: 'unknown' };
+
+const groupKey = (generation: MessageGeneration) =>
+  `${generation.promptType}|${generation.promptVersion}|${generation.provider}|${generation.model}`;
+
+const rateOf = (positive: number, total: number) => total > 0 ? Math.round((positive / total) * 1000) / 1000 : 0;
+
+class FeedbackService {
+  // Sets or, with a null rating, clears the user's rating of a reply. Returns the
+  // updated message, or null if the conversation has no such assistant reply.
+  async rateMessage(
+    userId: string,
+    conversationId: string,
+    messageId: string,
+    rating: MessageFeedback['rating'] | null,
+    reason?: string
+  ): Promise<AIMessage | null> {
+    try {
+      const feedback: MessageFeedback | null = rating && { rating, ...(reason && { reason }), at: new Date().toISOString() };
+      const result = await conversationService.setMessageFeedback(userId, conversationId, messageId, feedback);
+      if (!result) {
+        return null;
+      }
+
+      if (result.previous?.rating !== feedback?.rating) {
+        await this.count(result.message, result.previous?.rating, feedback?.rating);
+      }
+      return result.message;
+    } catch (error) {
+      console.log('Rate message error:', error);
+      throw new Error('Failed to record feedback');
+    }
+  }
+
+  // Ratings of replies generated over the last `days` days, best-rated groups first
+  async getReport(days: number = 30, now: Date = new Date()): Promise<FeedbackReport> {
+    try {
+      const dates = Array.from({ length: days }, (_, i) => new Date(now.getTime() - (days - 1 - i) * DAY_MS).toISOString().split('T')[0]);
+      const daily: Array<Record<string, FeedbackCounts> | null> = await kv.mget(dates.map(dailyKey));
+
+      const merged: Record<string, FeedbackCounts> = {};
+      for (const day of daily) {
+        for (const [key, counts] of Object.entries(day || {})) {
+          const group = merged[key] ??= { ...counts, positive: 0, negative: 0 };
+          group.positive += counts.positive;
+          group.negative += counts.negative;
+        }
+      }
+
+      const groups = Object.values(merged)
+        .map(counts => {
+          const total = counts.positive + counts.negative;
+          return { ...counts, total, positiveRate: rateOf(counts.positive, total) };
+        })
+        .filter(group => group.total > 0)
+        .sort((a, b) => b.positiveRate - a.positiveRate || b.total - a.total);
+
+      const positive = groups.reduce((sum, group) => sum + group.positive, 0);
+      const negative = groups.reduce((sum, group) => sum + group.negative, 0);
+      return {
+        from: dates[0],
+        to: dates[dates.length - 1],
+        groups,
+        totals: { positive, negative, total: positive + negative, positiveRate: rateOf(positive, positive + negative) }
+      };
+    } catch (error) {
+      console.log('Feedback report error:', error);
+      throw new Error('Failed to generate feedback report');
+    }
+  }
+
+  // Moves the reply's vote from its previous rating to the new one
+  private async count(message: AIMessage, previous?: MessageFeedback['rating'], next?: MessageFeedback['rating']): Promise<void> {
+    const generation = message.generation || UNKNOWN_GENERATION;
+    const key = groupKey(generation);
+    const date = new Date(message.timestamp).toISOString().split('T')[0];
+
+    await kv.update<Record<string, FeedbackCounts>>(dailyKey(date), (current) => {
+      const counts = { promptType: generation.promptType, promptVersion: generation.promptVersion, provider: generation.provider, model: generation.model, positive: 0, negative: 0, ...current?.[key] };
+      if (previous) counts[previous] = Math.max(counts[previous] - 1, 0);
+      if (next) counts[next]++;
+      return { ...current, [key]: counts };
+    });
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -1,14 +1,64 @@
 import { Hono } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
+import { streamSSE } from 'npm:hono/streaming';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import * as kv from './kv_store.tsx';
 import { aiService } from './ai-service.tsx';
-import { captureService } from './capture-service.tsx';
+import { CaptureConversionError, captureService } from './capture-service.tsx';
 import { analyticsService } from './analytics-service.tsx';
 import { integrationService } from './integration-service.tsx';
 import { projectService } from './project-service.tsx';
-import { authMiddleware } from './auth-middleware.tsx';
+import { notificationService } from './notification-service.tsx';
+import { insightService } from './insight-service.tsx';
+import { feedbackService } from './feedback-service.tsx';
+import { InvalidToolCallError, ToolCallResolvedError, toolService } from './tool-service.tsx';
+import { ConversationNotFoundError, conversationService } from './conversation-service.tsx';
+import { adminMiddleware, authMiddleware } from './auth-middleware.tsx';
+import { createEvent, eventBus, RealtimeEvent } from './events.tsx';
+import { rebuildUserIndexes } from './kv_index.tsx';
+import { embeddingIndex } from './embeddings.tsx';
+import { SearchQueryError } from './search-query.tsx';
+import { transcribe } from './transcriber.tsx';
+import { DEFAULT_SETTINGS, readRecord, stampVersion, upgradeRecord } from './migrations.tsx';
+import {
+  AUDIO_LIMITS,
+  batchSchema,
+  captureConvertSchema,
+  captureFormSchema,
+  captureMergeSchema,
+  captureQuerySchema,
+  captureSchema,
+  captureTriageSchema,
+  chatSchema,
+  clientError,
+  conversationCreateSchema,
+  conversationUpdateSchema,
+  feedbackReportQuerySchema,
+  insightFeedbackSchema,
+  insightQuerySchema,
+  insightStateSchema,
+  integrationConnectSchema,
+  integrationSyncSchema,
+  messageFeedbackSchema,
+  notificationQuerySchema,
+  projectCreateSchema,
+  projectFromTemplateSchema,
+  projectUpdateSchema,
+  searchSchema,
+  settingsSchema,
+  signupSchema,
+  taskCreateSchema,
+  taskQuerySchema,
+  taskUpdateSchema,
+  toolCallProposeSchema,
+  transcribeFormSchema,
+  validateBody,
+  validateBodyOrForm,
+  validateForm,
+  validateQuery,
+  voiceCaptureFormSchema
+} from './validation.tsx';
 
 const app = new Hono();
 
@@ -21,6 +71,15 @@ app.use('*', cors({
 
 app.use('*', logger(console.log));
 
+// Reads ?cursor= and ?limit= for paginated list routes
+function getPageParams(c: any): { cursor: string | null; limit: number } {
+  const limit = parseInt(c.req.query('limit') || '', 10);
+  return {
+    cursor: c.req.query('cursor') || null,
+    limit: Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 100)
+  };
+}
+
 // Health check
 app.get('/make-server-9e61c00c/health', (c) => {
   return c.json({ 
@@ -92,9 +151,9 @@ app.get('/make-server-9e61c00c/demo/status', (c) => {
 });
 
 // Auth routes
-app.post('/make-server-9e61c00c/auth/signup', async (c) => {
+app.post('/make-server-9e61c00c/auth/signup', validateBody(signupSchema), async (c) => {
   try {
-    const { email, password, name } = await c.req.json();
+    const { email, password, name } = c.get('body');
     
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL')!,
@@ -111,21 +170,18 @@ app.post('/make-server-9e61c00c/auth/signup', async (c) => {
 
     if (error) {
       console.log('Signup error:', error);
-      return c.json({ error: error.message }, 400);
+      return clientError(c, 400, 'bad_request', error.message);
     }
 
-    // Initialize user data
+    // Initialize user data. Settings live only under user:{id}:settings, in the same
+    // shape PUT /settings writes.
     await kv.set(`user:${data.user.id}:profile`, {
       id: data.user.id,
       email,
       name,
-      created_at: new Date().toISOString(),
-      settings: {
-        ai_learning: true,
-        notifications: true,
-        theme: 'light'
-      }
+      created_at: new Date().toISOString()
     });
+    await kv.set(`user:${data.user.id}:settings`, stampVersion('settings', DEFAULT_SETTINGS));
 
     return c.json({ user: data.user, message: 'User created successfully' });
   } catch (error) {
@@ -135,11 +191,28 @@ app.post('/make-server-9e61c00c/auth/signup', async (c) => {
 });
 
 // Universal Capture routes
-app.post('/make-server-9e61c00c/capture', authMiddleware, async (c) => {
+// Takes JSON, or a multipart form with up to five files under `file` whose text
+// (plain text, Markdown, HTML, PDF) is analysed along with the content
+app.post('/make-server-9e61c00c/capture', authMiddleware, validateBodyOrForm(captureSchema, captureFormSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const captureData = await c.req.json();
-    
+    const body = c.get('body');
+    const files: File[] = c.get('files');
+    if (!body.content && files.length === 0) {
+      return clientError(c, 400, 'validation_failed', 'Invalid request body', { content: ['Content or a file is required'] });
+    }
+
+    const captureData = {
+      ...body,
+      content: body.content || files.map(file => file.name).join(', '),
+      ...(files.length > 0 && {
+        attachments: await Promise.all(files.map(async file => ({
+          name: file.name,
+          contentType: file.type || 'application/octet-stream',
+          bytes: new Uint8Array(await file.arrayBuffer())
+        })))
+      })
+    };
     const result = await captureService.processCapture(userId, captureData);
     return c.json(result);
   } catch (error) {
@@ -148,35 +221,215 @@ app.post('/make-server-9e61c00c/capture', authMiddleware, async (c) => {
   }
 });
 
-app.get('/make-server-9e61c00c/captures', authMiddleware, async (c) => {
+// A browser recording (multipart, under `file`) stored as a voice capture with its transcript
+app.post('/make-server-9e61c00c/captures/voice', authMiddleware, validateForm(voiceCaptureFormSchema, AUDIO_LIMITS), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { hint, language, durationMs, priority, metadata } = c.get('body');
+    const [file]: File[] = c.get('files');
+
+    const result = await captureService.processVoiceCapture(userId, {
+      audio: { name: file.name, contentType: file.type, bytes: new Uint8Array(await file.arrayBuffer()) },
+      hint,
+      language,
+      durationMs,
+      priority,
+      metadata
+    });
+    return c.json(result);
+  } catch (error) {
+    console.log('Voice capture error:', error);
+    return c.json({ error: 'Failed to process voice capture' }, 500);
+  }
+});
+
+// Transcription only, nothing is stored; used for dictating into the assistant
+app.post('/make-server-9e61c00c/transcribe', authMiddleware, validateForm(transcribeFormSchema, AUDIO_LIMITS), async (c) => {
+  try {
+    const { hint, language, durationMs } = c.get('body');
+    const [file]: File[] = c.get('files');
+
+    const transcript = await transcribe({
+      audio: new Uint8Array(await file.arrayBuffer()),
+      contentType: file.type,
+      language,
+      hint,
+      durationMs
+    });
+    return c.json(transcript);
+  } catch (error) {
+    console.log('Transcribe error:', error);
+    return c.json({ error: 'Failed to transcribe audio' }, 500);
+  }
+});
+
+// With ?status= this lists one triage state (not paginated; nextCursor is always null)
+app.get('/make-server-9e61c00c/captures', authMiddleware, validateQuery(captureQuerySchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const captures = await captureService.getUserCaptures(userId);
-    return c.json({ captures });
+    const { status } = c.get('query');
+    if (status) {
+      const captures = await captureService.listCapturesByStatus(userId, status, getPageParams(c).limit);
+      return c.json({ captures, nextCursor: null });
+    }
+
+    const { captures, nextCursor } = await captureService.listCaptures(userId, getPageParams(c));
+    return c.json({ captures, nextCursor });
   } catch (error) {
     console.log('Get captures error:', error);
+    if (error instanceof kv.InvalidCursorError) {
+      return clientError(c, 400, 'invalid_cursor', error.message);
+    }
     return c.json({ error: 'Failed to fetch captures' }, 500);
   }
 });
 
+// Stored captures that look like the same item, for merging
+app.get('/make-server-9e61c00c/captures/duplicates', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const groups = await captureService.findDuplicateGroups(userId);
+    return c.json({ groups });
+  } catch (error) {
+    console.log('Get duplicate captures error:', error);
+    return c.json({ error: 'Failed to find duplicate captures' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/captures/merge', authMiddleware, validateBody(captureMergeSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { targetId, duplicateIds } = c.get('body');
+    const capture = await captureService.mergeCaptures(userId, targetId, duplicateIds);
+    if (!capture) {
+      return clientError(c, 404, 'not_found', 'Capture not found');
+    }
+    return c.json({ capture });
+  } catch (error) {
+    console.log('Merge captures error:', error);
+    return c.json({ error: 'Failed to merge captures' }, 500);
+  }
+});
+
+// Moves captures between inbox, actioned, archived and snoozed. Captures that don't
+// exist or can't make that move are listed in `skipped` rather than failing the request.
+app.post('/make-server-9e61c00c/captures/triage', authMiddleware, validateBody(captureTriageSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { ids, status, until } = c.get('body');
+    const result = await captureService.triageCaptures(userId, ids, status, until);
+    return c.json(result);
+  } catch (error) {
+    console.log('Triage captures error:', error);
+    return c.json({ error: 'Failed to triage captures' }, 500);
+  }
+});
+
+// The stored file. Raster images and PDFs open in the browser; anything else,
+// SVG included since it can carry script, downloads.
+app.get('/make-server-9e61c00c/captures/:id/attachments/:attachmentId', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const result = await captureService.getAttachment(userId, c.req.param('id'), c.req.param('attachmentId'));
+    if (!result) {
+      return clientError(c, 404, 'not_found', 'Attachment not found');
+    }
+
+    const { attachment, bytes } = result;
+    const inline = /^(image\/(png|jpeg|gif|webp)|application\/pdf)$/.test(attachment.contentType);
+    return c.body(bytes, 200, {
+      'Content-Type': attachment.contentType,
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      'X-Content-Type-Options': 'nosniff'
+    });
+  } catch (error) {
+    console.log('Get attachment error:', error);
+    return c.json({ error: 'Failed to fetch attachment' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/captures/:id/convert', authMiddleware, validateBody(captureConvertSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const target = c.get('body');
+
+    if (target.projectId && !await projectService.getProjectById(userId, target.projectId)) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+
+    const result = await captureService.convertCapture(userId, c.req.param('id'), target);
+    if (!result) {
+      return clientError(c, 404, 'not_found', 'Capture not found');
+    }
+    return c.json(result);
+  } catch (error) {
+    console.log('Convert capture error:', error);
+    if (error instanceof CaptureConversionError) {
+      return clientError(c, 400, 'bad_request', error.message);
+    }
+    return c.json({ error: 'Failed to convert capture' }, 500);
+  }
+});
+
 // AI Assistant routes
-app.post('/make-server-9e61c00c/ai/chat', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/ai/chat', authMiddleware, validateBody(chatSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const { message, context } = await c.req.json();
+    const { message, context, conversationId } = c.get('body');
     
-    const response = await aiService.processMessage(userId, message, context);
+    const response = await aiService.processMessage(userId, message, context, conversationId);
     return c.json(response);
   } catch (error) {
     console.log('AI chat error:', error);
+    if (error instanceof ConversationNotFoundError) {
+      return clientError(c, 404, 'not_found', 'Conversation not found');
+    }
     return c.json({ error: 'Failed to process AI request' }, 500);
   }
 });
 
+// Same as /ai/chat, as server-sent events: `delta` events carry text as it is
+// generated, then one `done` event carries the stored message, suggestions and
+// actions. Closing the connection stops generation; the partial reply is kept.
+app.post('/make-server-9e61c00c/ai/chat/stream', authMiddleware, validateBody(chatSchema), (c) => {
+  const userId = c.get('userId');
+  const { message, context, conversationId } = c.get('body');
+
+  return streamSSE(c, async (stream) => {
+    const controller = new AbortController();
+    stream.onAbort(() => controller.abort());
+
+    try {
+      const response = await aiService.streamMessage(userId, message, context, {
+        conversationId,
+        signal: controller.signal,
+        onDelta: async (text) => {
+          if (!controller.signal.aborted) {
+            await stream.writeSSE({ event: 'delta', data: JSON.stringify({ text }) });
+          }
+        }
+      });
+      if (!controller.signal.aborted) {
+        await stream.writeSSE({ event: 'done', data: JSON.stringify(response) });
+      }
+    } catch (error) {
+      console.log('AI chat stream error:', error);
+      if (!controller.signal.aborted) {
+        const body = error instanceof ConversationNotFoundError
+          ? { error: 'Conversation not found', code: 'not_found' }
+          : { error: 'Failed to process AI request' };
+        await stream.writeSSE({ event: 'error', data: JSON.stringify(body) });
+      }
+    }
+  });
+});
+
+// Regenerates insights and returns the ones to show. Each keeps a stable id, so
+// its state (new, seen, dismissed, snoozed, acted) and feedback carry over.
 app.post('/make-server-9e61c00c/ai/insights', authMiddleware, async (c) => {
   try {
     const userId = c.get('userId');
-    const insights = await aiService.generateInsights(userId);
+    const insights = await insightService.refresh(userId);
     return c.json({ insights });
   } catch (error) {
     console.log('AI insights error:', error);
@@ -184,6 +437,212 @@ app.post('/make-server-9e61c00c/ai/insights', authMiddleware, async (c) => {
   }
 });
 
+app.get('/make-server-9e61c00c/ai/insights', authMiddleware, validateQuery(insightQuerySchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { state } = c.get('query');
+    const insights = await insightService.listInsights(userId, state);
+    return c.json({ insights });
+  } catch (error) {
+    console.log('Get insights error:', error);
+    return c.json({ error: 'Failed to fetch insights' }, 500);
+  }
+});
+
+app.put('/make-server-9e61c00c/ai/insights/:id/state', authMiddleware, validateBody(insightStateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { state, until } = c.get('body');
+    const insight = await insightService.setState(userId, c.req.param('id'), state, until);
+    if (!insight) {
+      return clientError(c, 404, 'not_found', 'Insight not found');
+    }
+    return c.json({ insight });
+  } catch (error) {
+    console.log('Update insight state error:', error);
+    return c.json({ error: 'Failed to update insight' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/ai/insights/:id/feedback', authMiddleware, validateBody(insightFeedbackSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { useful, comment } = c.get('body');
+    const insight = await insightService.recordFeedback(userId, c.req.param('id'), useful, comment);
+    if (!insight) {
+      return clientError(c, 404, 'not_found', 'Insight not found');
+    }
+    return c.json({ insight });
+  } catch (error) {
+    console.log('Insight feedback error:', error);
+    return c.json({ error: 'Failed to record insight feedback' }, 500);
+  }
+});
+
+// Conversation threads
+app.get('/make-server-9e61c00c/ai/conversations', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const conversations = await conversationService.listConversations(userId);
+    return c.json({ conversations });
+  } catch (error) {
+    console.log('Get conversations error:', error);
+    return c.json({ error: 'Failed to fetch conversations' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/ai/conversations', authMiddleware, validateBody(conversationCreateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { title } = c.get('body');
+    const conversation = await conversationService.createConversation(userId, title);
+    return c.json({ conversation });
+  } catch (error) {
+    console.log('Create conversation error:', error);
+    return c.json({ error: 'Failed to create conversation' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/ai/conversations/:id', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const conversationId = c.req.param('id');
+    const conversation = await conversationService.getConversation(userId, conversationId);
+    if (!conversation) {
+      return clientError(c, 404, 'not_found', 'Conversation not found');
+    }
+    const messages = await conversationService.getMessages(userId, conversationId);
+    return c.json({ conversation, messages });
+  } catch (error) {
+    console.log('Get conversation error:', error);
+    return c.json({ error: 'Failed to fetch conversation' }, 500);
+  }
+});
+
+app.put('/make-server-9e61c00c/ai/conversations/:id', authMiddleware, validateBody(conversationUpdateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { title } = c.get('body');
+    const conversation = await conversationService.renameConversation(userId, c.req.param('id'), title);
+    if (!conversation) {
+      return clientError(c, 404, 'not_found', 'Conversation not found');
+    }
+    return c.json({ conversation });
+  } catch (error) {
+    console.log('Rename conversation error:', error);
+    return c.json({ error: 'Failed to rename conversation' }, 500);
+  }
+});
+
+app.delete('/make-server-9e61c00c/ai/conversations/:id', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const deleted = await conversationService.deleteConversation(userId, c.req.param('id'));
+    if (!deleted) {
+      return clientError(c, 404, 'not_found', 'Conversation not found');
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete conversation error:', error);
+    return c.json({ error: 'Failed to delete conversation' }, 500);
+  }
+});
+
+// Thumbs up/down on an assistant reply, with an optional reason
+app.put('/make-server-9e61c00c/ai/conversations/:id/messages/:messageId/feedback', authMiddleware, validateBody(messageFeedbackSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { rating, reason } = c.get('body');
+    const message = await feedbackService.rateMessage(userId, c.req.param('id'), c.req.param('messageId'), rating, reason);
+    if (!message) {
+      return clientError(c, 404, 'not_found', 'Message not found');
+    }
+    return c.json({ message });
+  } catch (error) {
+    console.log('Message feedback error:', error);
+    return c.json({ error: 'Failed to record feedback' }, 500);
+  }
+});
+
+app.delete('/make-server-9e61c00c/ai/conversations/:id/messages/:messageId/feedback', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const message = await feedbackService.rateMessage(userId, c.req.param('id'), c.req.param('messageId'), null);
+    if (!message) {
+      return clientError(c, 404, 'not_found', 'Message not found');
+    }
+    return c.json({ message });
+  } catch (error) {
+    console.log('Clear message feedback error:', error);
+    return c.json({ error: 'Failed to clear feedback' }, 500);
+  }
+});
+
+// Reply ratings across all users by prompt type, prompt version and model, for
+// judging prompt and model changes. Counts only; no message content or reasons.
+// Admins only, since it covers every user's ratings.
+app.get('/make-server-9e61c00c/ai/feedback/report', authMiddleware, adminMiddleware, validateQuery(feedbackReportQuerySchema), async (c) => {
+  try {
+    const { days } = c.get('query');
+    const report = await feedbackService.getReport(days);
+    return c.json({ report });
+  } catch (error) {
+    console.log('Feedback report error:', error);
+    return c.json({ error: 'Failed to generate feedback report' }, 500);
+  }
+});
+
+// Assistant tool calls. Chat replies include proposed `toolCalls`; clients can also
+// propose one directly. Nothing runs until the call is confirmed.
+app.post('/make-server-9e61c00c/ai/tool-calls', authMiddleware, validateBody(toolCallProposeSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { tool, args, conversationId } = c.get('body');
+    const toolCall = await toolService.propose(userId, tool, args, conversationId);
+    return c.json({ toolCall });
+  } catch (error) {
+    console.log('Propose tool call error:', error);
+    if (error instanceof InvalidToolCallError) {
+      return clientError(c, 400, 'validation_failed', error.message, error.fields);
+    }
+    return c.json({ error: 'Failed to propose tool call' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/ai/tool-calls/:id/confirm', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const result = await aiService.confirmToolCall(userId, c.req.param('id'));
+    if (!result) {
+      return clientError(c, 404, 'not_found', 'Tool call not found');
+    }
+    return c.json(result);
+  } catch (error) {
+    console.log('Confirm tool call error:', error);
+    if (error instanceof ToolCallResolvedError) {
+      return clientError(c, 400, 'bad_request', error.message);
+    }
+    return c.json({ error: 'Failed to run tool call' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/ai/tool-calls/:id/reject', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const result = await aiService.rejectToolCall(userId, c.req.param('id'));
+    if (!result) {
+      return clientError(c, 404, 'not_found', 'Tool call not found');
+    }
+    return c.json(result);
+  } catch (error) {
+    console.log('Reject tool call error:', error);
+    if (error instanceof ToolCallResolvedError) {
+      return clientError(c, 400, 'bad_request', error.message);
+    }
+    return c.json({ error: 'Failed to reject tool call' }, 500);
+  }
+});
+
 // Analytics routes
 app.get('/make-server-9e61c00c/analytics/dashboard', authMiddleware, async (c) => {
   try {
@@ -211,18 +670,21 @@ app.get('/make-server-9e61c00c/analytics/productivity', authMiddleware, async (c
 app.get('/make-server-9e61c00c/projects', authMiddleware, async (c) => {
   try {
     const userId = c.get('userId');
-    const projects = await projectService.getUserProjects(userId);
-    return c.json({ projects });
+    const { projects, nextCursor } = await projectService.listProjects(userId, getPageParams(c));
+    return c.json({ projects, nextCursor });
   } catch (error) {
     console.log('Get projects error:', error);
+    if (error instanceof kv.InvalidCursorError) {
+      return clientError(c, 400, 'invalid_cursor', error.message);
+    }
     return c.json({ error: 'Failed to fetch projects' }, 500);
   }
 });
 
-app.post('/make-server-9e61c00c/projects', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/projects', authMiddleware, validateBody(projectCreateSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const projectData = await c.req.json();
+    const projectData = c.get('body');
     
     const project = await projectService.createProject(userId, projectData);
     return c.json({ project });
@@ -232,11 +694,11 @@ app.post('/make-server-9e61c00c/projects', authMiddleware, async (c) => {
   }
 });
 
-app.put('/make-server-9e61c00c/projects/:id', authMiddleware, async (c) => {
+app.put('/make-server-9e61c00c/projects/:id', authMiddleware, validateBody(projectUpdateSchema), async (c) => {
   try {
     const userId = c.get('userId');
     const projectId = c.req.param('id');
-    const updateData = await c.req.json();
+    const updateData = c.get('body');
     
     const project = await projectService.updateProject(userId, projectId, updateData);
     return c.json({ project });
@@ -246,6 +708,177 @@ app.put('/make-server-9e61c00c/projects/:id', authMiddleware, async (c) => {
   }
 });
 
+app.delete('/make-server-9e61c00c/projects/:id', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const projectId = c.req.param('id');
+
+    // Projects are archived rather than removed
+    const archived = await projectService.deleteProject(userId, projectId);
+    if (!archived) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Archive project error:', error);
+    return c.json({ error: 'Failed to archive project' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/projects/templates', authMiddleware, async (c) => {
+  return c.json({ templates: projectService.getProjectTemplates() });
+});
+
+app.post('/make-server-9e61c00c/projects/from-template', authMiddleware, validateBody(projectFromTemplateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { template, customization } = c.get('body');
+
+    if (!projectService.getProjectTemplates().some(t => t.id === template)) {
+      return clientError(c, 404, 'not_found', `Unknown project template: ${template}`);
+    }
+
+    const project = await projectService.createProjectFromTemplate(userId, template, customization);
+    return c.json({ project });
+  } catch (error) {
+    console.log('Create project from template error:', error);
+    return c.json({ error: 'Failed to create project from template' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/projects/:id', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const project = await projectService.getProjectById(userId, c.req.param('id'));
+    if (!project) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+    return c.json({ project });
+  } catch (error) {
+    console.log('Get project error:', error);
+    return c.json({ error: 'Failed to fetch project' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/projects/:id/insights', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const projectId = c.req.param('id');
+
+    if (!await projectService.getProjectById(userId, projectId)) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+
+    const insights = await projectService.getProjectInsights(userId, projectId);
+    return c.json({ insights });
+  } catch (error) {
+    console.log('Project insights error:', error);
+    return c.json({ error: 'Failed to generate project insights' }, 500);
+  }
+});
+
+// Task routes
+app.get('/make-server-9e61c00c/projects/:id/tasks', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const project = await projectService.getProjectById(userId, c.req.param('id'));
+    if (!project) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+    return c.json({ tasks: project.tasks });
+  } catch (error) {
+    console.log('Get project tasks error:', error);
+    return c.json({ error: 'Failed to fetch tasks' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/projects/:id/tasks', authMiddleware, validateBody(taskCreateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const projectId = c.req.param('id');
+    const taskData = c.get('body');
+
+    if (!await projectService.getProjectById(userId, projectId)) {
+      return clientError(c, 404, 'not_found', 'Project not found');
+    }
+
+    const task = await projectService.createTask(userId, projectId, taskData);
+    return c.json({ task });
+  } catch (error) {
+    console.log('Create task error:', error);
+    return c.json({ error: 'Failed to create task' }, 500);
+  }
+});
+
+app.put('/make-server-9e61c00c/projects/:id/tasks/:taskId', authMiddleware, validateBody(taskUpdateSchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const projectId = c.req.param('id');
+    const taskId = c.req.param('taskId');
+    const updateData = c.get('body');
+
+    const project = await projectService.getProjectById(userId, projectId);
+    if (!project?.tasks.some(t => t.id === taskId)) {
+      return clientError(c, 404, 'not_found', 'Task not found');
+    }
+
+    const task = await projectService.updateTask(userId, projectId, taskId, updateData);
+    return c.json({ task });
+  } catch (error) {
+    console.log('Update task error:', error);
+    return c.json({ error: 'Failed to update task' }, 500);
+  }
+});
+
+app.delete('/make-server-9e61c00c/projects/:id/tasks/:taskId', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const deleted = await projectService.deleteTask(userId, c.req.param('id'), c.req.param('taskId'));
+    if (!deleted) {
+      return clientError(c, 404, 'not_found', 'Task not found');
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete task error:', error);
+    return c.json({ error: 'Failed to delete task' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/tasks', authMiddleware, validateQuery(taskQuerySchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { limit } = getPageParams(c);
+    const tasks = await projectService.queryTasks(userId, c.get('query'), limit);
+    return c.json({ tasks });
+  } catch (error) {
+    console.log('Query tasks error:', error);
+    return c.json({ error: 'Failed to fetch tasks' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/tasks/active', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { limit } = getPageParams(c);
+    const tasks = await projectService.getActiveTasks(userId, limit);
+    return c.json({ tasks });
+  } catch (error) {
+    console.log('Active tasks error:', error);
+    return c.json({ error: 'Failed to fetch active tasks' }, 500);
+  }
+});
+
+app.get('/make-server-9e61c00c/tasks/overdue', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const tasks = await projectService.getOverdueTasks(userId);
+    return c.json({ tasks });
+  } catch (error) {
+    console.log('Overdue tasks error:', error);
+    return c.json({ error: 'Failed to fetch overdue tasks' }, 500);
+  }
+});
+
 // Integration routes
 app.get('/make-server-9e61c00c/integrations', authMiddleware, async (c) => {
   try {
@@ -258,11 +891,17 @@ app.get('/make-server-9e61c00c/integrations', authMiddleware, async (c) => {
   }
 });
 
-app.post('/make-server-9e61c00c/integrations/connect', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/integrations/connect', authMiddleware, validateBody(integrationConnectSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const { service, credentials } = await c.req.json();
-    
+    const { service, credentials } = c.get('body');
+
+    if (!integrationService.isSupportedService(service)) {
+      return clientError(c, 400, 'validation_failed', 'Invalid request body', {
+        service: [`Service ${service} is not supported`]
+      });
+    }
+
     const integration = await integrationService.connectService(userId, service, credentials);
     return c.json({ integration });
   } catch (error) {
@@ -271,10 +910,10 @@ app.post('/make-server-9e61c00c/integrations/connect', authMiddleware, async (c)
   }
 });
 
-app.post('/make-server-9e61c00c/integrations/sync', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/integrations/sync', authMiddleware, validateBody(integrationSyncSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const { service } = await c.req.json();
+    const { service } = c.get('body');
     
     const result = await integrationService.syncService(userId, service);
     return c.json(result);
@@ -288,20 +927,40 @@ app.post('/make-server-9e61c00c/integrations/sync', authMiddleware, async (c) =>
 app.get('/make-server-9e61c00c/settings', authMiddleware, async (c) => {
   try {
     const userId = c.get('userId');
-    const settings = await kv.get(`user:${userId}:settings`) || {};
-    return c.json({ settings });
+    const settingsKey = `user:${userId}:settings`;
+    let settings = await readRecord('settings', settingsKey);
+
+    // Older accounts only have the flat settings copy that signup used to put on the profile
+    if (!settings) {
+      const profile = await kv.get(`user:${userId}:profile`);
+      if (profile?.settings) {
+        settings = upgradeRecord('settings', profile.settings);
+        await kv.set(settingsKey, settings);
+      }
+    }
+
+    return c.json({ settings: settings || {} });
   } catch (error) {
     console.log('Get settings error:', error);
     return c.json({ error: 'Failed to fetch settings' }, 500);
   }
 });
 
-app.put('/make-server-9e61c00c/settings', authMiddleware, async (c) => {
+app.put('/make-server-9e61c00c/settings', authMiddleware, validateBody(settingsSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const newSettings = await c.req.json();
-    
-    await kv.set(`user:${userId}:settings`, newSettings);
+    const incoming = c.get('body');
+    const settingsKey = `user:${userId}:settings`;
+
+    // Sections may be sent partially, so merge them over what is already stored
+    const newSettings = await kv.update(settingsKey, (stored) => {
+      const current = stored ? upgradeRecord('settings', stored) : stampVersion('settings', DEFAULT_SETTINGS);
+      const merged = { ...current };
+      for (const [section, values] of Object.entries(incoming)) {
+        merged[section] = { ...current[section], ...(values as object) };
+      }
+      return merged;
+    });
     return c.json({ settings: newSettings });
   } catch (error) {
     console.log('Update settings error:', error);
@@ -309,21 +968,26 @@ app.put('/make-server-9e61c00c/settings', authMiddleware, async (c) => {
   }
 });
 
-// Real-time data route
+// Real-time data routes
+async function getRealtimeStatus(userId: string) {
+  await notificationService.checkOverdueTasks(userId);
+  const { notifications, unreadCount } = await notificationService.listNotifications(userId, { unreadOnly: true, limit: 10 });
+
+  return {
+    ai_status: 'active',
+    integrations_syncing: await integrationService.getSyncStatus(userId),
+    recent_captures: await captureService.getRecentCaptures(userId, 5),
+    active_tasks: await projectService.getActiveTasks(userId),
+    focus_score: await analyticsService.getCurrentFocusScore(userId),
+    notifications,
+    unread_notifications: unreadCount
+  };
+}
+
 app.get('/make-server-9e61c00c/realtime/status', authMiddleware, async (c) => {
   try {
     const userId = c.get('userId');
-    
-    // Get real-time status data
-    const status = {
-      ai_status: 'active',
-      integrations_syncing: await integrationService.getSyncStatus(userId),
-      recent_captures: await captureService.getRecentCaptures(userId, 5),
-      active_tasks: await projectService.getActiveTasks(userId),
-      focus_score: await analyticsService.getCurrentFocusScore(userId),
-      notifications: await kv.get(`user:${userId}:notifications`) || []
-    };
-
+    const status = await getRealtimeStatus(userId);
     return c.json(status);
   } catch (error) {
     console.log('Real-time status error:', error);
@@ -331,11 +995,105 @@ app.get('/make-server-9e61c00c/realtime/status', authMiddleware, async (c) => {
   }
 });
 
+// Server-sent event stream. Opens with a `status` snapshot, then pushes every event
+// the services publish for this user. A comment line every 25s keeps proxies from
+// closing an idle connection.
+app.get('/make-server-9e61c00c/events', authMiddleware, (c) => {
+  const userId = c.get('userId');
+
+  return streamSSE(c, async (stream) => {
+    let open = true;
+    let writing = Promise.resolve();
+    const send = (event: RealtimeEvent) => {
+      // Keep events in publish order even though each write is async
+      writing = writing
+        .then(() => stream.writeSSE({ id: event.id, event: event.type, data: JSON.stringify(event) }))
+        .catch(error => console.log('Event stream write error:', error));
+    };
+
+    const unsubscribe = eventBus.subscribe(userId, send);
+    stream.onAbort(() => {
+      open = false;
+      unsubscribe();
+    });
+
+    try {
+      send(createEvent('status', await getRealtimeStatus(userId)));
+      while (open) {
+        await stream.sleep(25000);
+        if (open) {
+          await writing;
+          await stream.write(': keep-alive\n\n');
+        }
+      }
+    } catch (error) {
+      console.log('Event stream error:', error);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+// Notification routes
+app.get('/make-server-9e61c00c/notifications', authMiddleware, validateQuery(notificationQuerySchema), async (c) => {
+  try {
+    const userId = c.get('userId');
+    const { unread } = c.get('query');
+    const page = await notificationService.listNotifications(userId, { ...getPageParams(c), unreadOnly: unread === 'true' });
+    return c.json(page);
+  } catch (error) {
+    console.log('Get notifications error:', error);
+    if (error instanceof kv.InvalidCursorError) {
+      return clientError(c, 400, 'invalid_cursor', error.message);
+    }
+    return c.json({ error: 'Failed to fetch notifications' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/notifications/read-all', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const updated = await notificationService.markAllRead(userId);
+    return c.json({ updated });
+  } catch (error) {
+    console.log('Mark all notifications read error:', error);
+    return c.json({ error: 'Failed to update notifications' }, 500);
+  }
+});
+
+app.post('/make-server-9e61c00c/notifications/:id/read', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const notification = await notificationService.markRead(userId, c.req.param('id'));
+    if (!notification) {
+      return clientError(c, 404, 'not_found', 'Notification not found');
+    }
+    return c.json({ notification });
+  } catch (error) {
+    console.log('Mark notification read error:', error);
+    return c.json({ error: 'Failed to update notification' }, 500);
+  }
+});
+
+app.delete('/make-server-9e61c00c/notifications/:id', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const dismissed = await notificationService.dismiss(userId, c.req.param('id'));
+    if (!dismissed) {
+      return clientError(c, 404, 'not_found', 'Notification not found');
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Dismiss notification error:', error);
+    return c.json({ error: 'Failed to dismiss notification' }, 500);
+  }
+});
+
 // Batch operations
-app.post('/make-server-9e61c00c/batch/process', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/batch/process', authMiddleware, validateBody(batchSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const { operations } = await c.req.json();
+    const { operations } = c.get('body');
     
     const results = [];
     for (const operation of operations) {
@@ -364,16 +1122,33 @@ app.post('/make-server-9e61c00c/batch/process', authMiddleware, async (c) => {
   }
 });
 
+// Rebuilds the caller's secondary indexes and search vectors, e.g. for records
+// stored before indexing existed or after switching embedders
+app.post('/make-server-9e61c00c/indexes/rebuild', authMiddleware, async (c) => {
+  try {
+    const userId = c.get('userId');
+    const indexed = await rebuildUserIndexes(userId);
+    const embedded = await embeddingIndex.rebuild(userId);
+    return c.json({ indexed, embedded });
+  } catch (error) {
+    console.log('Rebuild indexes error:', error);
+    return c.json({ error: 'Failed to rebuild indexes' }, 500);
+  }
+});
+
 // Search functionality
-app.post('/make-server-9e61c00c/search', authMiddleware, async (c) => {
+app.post('/make-server-9e61c00c/search', authMiddleware, validateBody(searchSchema), async (c) => {
   try {
     const userId = c.get('userId');
-    const { query, filters } = await c.req.json();
+    const { query, filters } = c.get('body');
     
     const results = await aiService.searchUserData(userId, query, filters);
     return c.json(results);
   } catch (error) {
     console.log('Search error:', error);
+    if (error instanceof SearchQueryError) {
+      return clientError(c, 400, 'validation_failed', 'Invalid search query', { query: [error.message] });
+    }
     return c.json({ error: 'Failed to perform search' }, 500);
   }
 });
@@ -386,7 +1161,7 @@ app.onError((err, c) => {
 
 // 404 handler
 app.notFound((c) => {
-  return c.json({ error: 'Route not found' }, 404);
+  return clientError(c, 404, 'not_found', 'Route not found');
 });
 
 Deno.serve(app.fetch);
\ No newline at end of file
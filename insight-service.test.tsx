@@ -0,0 +1,72 @@
+import { assertEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { insightService } from './insight-service.tsx';
+
+// deno test --allow-env insight-service.test.tsx
+
+// Enough captures, mostly emails, for the email-share generator to speak up
+const emailHeavyStats = { total: 40, byType: { email: 20, note: 20 }, byDay: {} };
+
+Deno.test('current insights are read without generating or storing any', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u1:stats:captures', emailHeavyStats);
+
+  assertEquals(await insightService.currentInsights('u1'), []);
+  assertEquals(await kv.getByPrefix('user:u1:insight:'), []);
+});
+
+Deno.test('current insights are the ones the last refresh returned, in its order', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u2:stats:captures', emailHeavyStats);
+
+  const refreshed = await insightService.refresh('u2', new Date('2024-06-03T10:00:00Z'));
+  assertEquals(refreshed.map(insight => insight.id), ['email-share']);
+  assertEquals((await insightService.currentInsights('u2')).map(insight => insight.id), ['email-share']);
+
+  await insightService.setState('u2', 'email-share', 'dismissed');
+  assertEquals(await insightService.currentInsights('u2'), []);
+});
+
+Deno.test('an insight the last refresh no longer produced is not current', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u3:stats:captures', emailHeavyStats);
+  await insightService.refresh('u3', new Date('2024-06-03T10:00:00Z'));
+
+  await kv.set('user:u3:stats:captures', { total: 40, byType: { note: 40 }, byDay: {} });
+  await insightService.refresh('u3', new Date('2024-06-04T10:00:00Z'));
+
+  assertEquals(await insightService.currentInsights('u3'), []);
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+Deno.test('a changed answer replaces the one given while the insight is shown', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u4:stats:captures', emailHeavyStats);
+  await insightService.refresh('u4');
+
+  await insightService.recordFeedback('u4', 'email-share', true);
+  const insight = await insightService.recordFeedback('u4', 'email-share', false);
+
+  assertEquals(insight!.feedback!.useful, false);
+  assertEquals(insight!.votes!.map(vote => vote.useful), [false]);
+});
+
+Deno.test('a generator without subjects is suppressed after three not-useful votes on its one insight', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u5:stats:captures', emailHeavyStats);
+  const start = Date.now();
+
+  // Voted down and dismissed each time it comes back, 30 days apart
+  for (let showing = 0; showing < 3; showing++) {
+    const shown = await insightService.refresh('u5', new Date(start + showing * 31 * DAY_MS));
+    assertEquals(shown.map(insight => insight.id), ['email-share']);
+    await insightService.recordFeedback('u5', 'email-share', false);
+    await insightService.setState('u5', 'email-share', 'dismissed');
+  }
+
+  const stored = (await insightService.listInsights('u5'))[0];
+  assertEquals(stored.votes!.length, 3);
+  assertEquals(await insightService.refresh('u5', new Date(start + 3 * 31 * DAY_MS)), []);
+});
@@ -0,0 +1,258 @@
+import * as kv from './kv_store.tsx';
+import { notificationService } from './notification-service.tsx';
+import { AIInsight, generateInsightsFrom, loadInsightData } from './insights.tsx';
+
+// Generated insights are stored under user:{id}:insight:{insightId}. The id is
+// derived from what an insight is about (its generator and subject), so the
+// same finding keeps its id, state and feedback as its numbers change.
+
+export type InsightState = 'new' | 'seen' | 'dismissed' | 'snoozed' | 'acted';
+
+export interface InsightFeedback {
+  useful: boolean;
+  comment?: string;
+  at: string;
+}
+
+export interface StoredInsight extends AIInsight {
+  id: string;
+  state: InsightState;
+  // Set while snoozed; the insight comes back as new after this
+  snoozedUntil?: string;
+  // The user's latest answer to "was this useful?"
+  feedback?: InsightFeedback;
+  // Every answer, at most one per time the insight was shown; these are what
+  // suppress or demote its generator
+  votes?: InsightFeedback[];
+  created: string;
+  // When it last became new: first generated, resurfaced or back from a snooze
+  surfaced?: string;
+  // When a generator last produced it
+  lastGenerated: string;
+  stateChanged: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a dismissed or acted-on insight stays hidden if its generator keeps producing it
+const RESURFACE_AFTER_DAYS: Partial<Record<InsightState, number>> = { dismissed: 30, acted: 14 };
+
+const DEFAULT_SNOOZE_DAYS = 1;
+
+// Insights returned by refresh()
+const MAX_VISIBLE = 5;
+
+// A generator whose insights were voted not useful at least this often, with a
+// low enough useful rate, stops being shown at all
+const SUPPRESS_MIN_VOTES = 3;
+const SUPPRESS_BELOW = 0.25;
+
+// Answers kept per insight
+const MAX_VOTES = 20;
+
+const PRIORITY_ORDER = { high: 3, medium: 2, low: 1 };
+const LOWER_PRIORITY: Record<AIInsight['priority'], AIInsight['priority']> = { high: 'medium', medium: 'low', low: 'low' };
+
+const insightKey = (userId: string, insightId: string) => `user:${userId}:insight:${insightId}`;
+
+// When refresh() last ran; everything it produced has this as lastGenerated
+const refreshedKey = (userId: string) => `user:${userId}:insights-refreshed`;
+
+const idFor = (insight: AIInsight): string =>
+  (insight.subject ? `${insight.generator}-${insight.subject}` : insight.generator)
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-');
+
+interface Usefulness {
+  useful: number;
+  notUseful: number;
+  // Share of useful votes, smoothed so one vote doesn't decide it: 0.5 with no
+  // feedback, towards 1 when useful and towards 0 when not
+  rate: number;
+}
+
+// Insights stored before votes were kept only have their latest answer
+const votesOf = (insight: StoredInsight): InsightFeedback[] =>
+  insight.votes ?? (insight.feedback ? [insight.feedback] : []);
+
+// Counts every vote on every insight of a generator, so a generator without
+// subjects, whose insight always has the same id, builds up votes too
+function usefulnessByGenerator(insights: StoredInsight[]): Record<string, Usefulness> {
+  const result: Record<string, Usefulness> = {};
+  for (const insight of insights) {
+    for (const vote of votesOf(insight)) {
+      const usefulness = result[insight.generator] ??= { useful: 0, notUseful: 0, rate: 0.5 };
+      if (vote.useful) {
+        usefulness.useful++;
+      } else {
+        usefulness.notUseful++;
+      }
+      usefulness.rate = (usefulness.useful + 1) / (usefulness.useful + usefulness.notUseful + 2);
+    }
+  }
+  return result;
+}
+
+class InsightService {
+  // Runs the generators and stores what they produce, keeping each insight's
+  // state. Returns the insights to show: new or seen ones, skipping generators
+  // the user keeps marking as not useful, best first.
+  async refresh(userId: string, now: Date = new Date()): Promise<StoredInsight[]> {
+    try {
+      const [generated, stored] = await Promise.all([
+        loadInsightData(userId, now).then(generateInsightsFrom),
+        kv.getByPrefix(`user:${userId}:insight:`) as Promise<StoredInsight[]>
+      ]);
+      const usefulness = usefulnessByGenerator(stored);
+
+      const visible: StoredInsight[] = [];
+      for (const insight of generated) {
+        const generatorUsefulness = usefulness[insight.generator];
+        if (generatorUsefulness && generatorUsefulness.notUseful >= SUPPRESS_MIN_VOTES && generatorUsefulness.rate < SUPPRESS_BELOW) {
+          continue;
+        }
+
+        const id = idFor(insight);
+        const record = await kv.update<StoredInsight>(insightKey(userId, id), (current) => this.merge(id, current, insight, now));
+
+        if (record.state === 'new' && record.priority === 'high') {
+          // Keyed on when it became new, so it's announced again only if it resurfaces
+          await notificationService.notify(userId, 'insight', {
+            title: record.title,
+            message: record.description,
+            link: { tab: 'dashboard', id: record.id },
+            dedupeKey: `insight:${record.id}:${record.stateChanged}`
+          });
+        }
+
+        if (record.state === 'new' || record.state === 'seen') {
+          visible.push(record);
+        }
+      }
+
+      await kv.set(refreshedKey(userId), now.toISOString());
+      return this.rank(visible, usefulness);
+    } catch (error) {
+      console.log('Insight refresh error:', error);
+      throw new Error('Failed to generate insights');
+    }
+  }
+
+  // What the last refresh() returned, as it stands now, read from storage without
+  // running the generators or notifying. Insights the last refresh didn't
+  // produce any more are left out.
+  async currentInsights(userId: string): Promise<StoredInsight[]> {
+    const [lastRefresh, stored] = await Promise.all([kv.get(refreshedKey(userId)), this.listInsights(userId)]);
+    if (!lastRefresh) return [];
+
+    const usefulness = usefulnessByGenerator(stored);
+    return this.rank(
+      stored.filter(insight => insight.lastGenerated === lastRefresh && (insight.state === 'new' || insight.state === 'seen')),
+      usefulness
+    );
+  }
+
+  // Stored insights, most recently generated first, without running the generators
+  async listInsights(userId: string, state?: InsightState): Promise<StoredInsight[]> {
+    try {
+      const insights: StoredInsight[] = await kv.getByPrefix(`user:${userId}:insight:`);
+      return insights
+        .map(insight => this.expireSnooze(insight, new Date()))
+        .filter(insight => !state || insight.state === state)
+        .sort((a, b) => b.lastGenerated.localeCompare(a.lastGenerated));
+    } catch (error) {
+      console.log('List insights error:', error);
+      throw new Error('Failed to fetch insights');
+    }
+  }
+
+  // Returns null if there is no such insight. Snoozing without `until` snoozes for a day.
+  async setState(userId: string, insightId: string, state: InsightState, until?: string): Promise<StoredInsight | null> {
+    try {
+      const now = new Date();
+      return await kv.update<StoredInsight>(insightKey(userId, insightId), (existing) => {
+        if (!existing) return undefined;
+        const { snoozedUntil: _, ...rest } = existing;
+        return {
+          ...rest,
+          state,
+          ...(state === 'snoozed' && {
+            snoozedUntil: until ? new Date(until).toISOString() : new Date(now.getTime() + DEFAULT_SNOOZE_DAYS * DAY_MS).toISOString()
+          }),
+          stateChanged: now.toISOString()
+        };
+      }) ?? null;
+    } catch (error) {
+      console.log('Update insight state error:', error);
+      throw new Error('Failed to update insight');
+    }
+  }
+
+  // Returns null if there is no such insight. A new answer replaces one given
+  // since the insight was last shown as new, and is added to the earlier ones.
+  async recordFeedback(userId: string, insightId: string, useful: boolean, comment?: string): Promise<StoredInsight | null> {
+    try {
+      return await kv.update<StoredInsight>(insightKey(userId, insightId), (existing) => {
+        if (!existing) return undefined;
+        const feedback: InsightFeedback = { useful, ...(comment && { comment }), at: new Date().toISOString() };
+        const surfaced = existing.surfaced ?? existing.created;
+        return {
+          ...existing,
+          feedback,
+          votes: [...votesOf(existing).filter(vote => vote.at < surfaced), feedback].slice(-MAX_VOTES)
+        };
+      }) ?? null;
+    } catch (error) {
+      console.log('Insight feedback error:', error);
+      throw new Error('Failed to record insight feedback');
+    }
+  }
+
+  // Takes the freshly generated content and decides the state: new the first
+  // time, otherwise unchanged unless a snooze ran out or a dismissed or acted-on
+  // insight has been hidden long enough to come back.
+  private merge(id: string, existing: StoredInsight | undefined, insight: AIInsight, now: Date): StoredInsight {
+    const timestamp = now.toISOString();
+    if (!existing) {
+      return { ...insight, id, state: 'new', created: timestamp, surfaced: timestamp, lastGenerated: timestamp, stateChanged: timestamp };
+    }
+
+    const current = this.expireSnooze(existing, now);
+    const hideDays = RESURFACE_AFTER_DAYS[current.state];
+    const resurfaces = hideDays !== undefined && now.getTime() - new Date(current.stateChanged).getTime() >= hideDays * DAY_MS;
+
+    return {
+      ...current,
+      ...insight,
+      lastGenerated: timestamp,
+      ...(resurfaces && { state: 'new' as const, surfaced: timestamp, stateChanged: timestamp })
+    };
+  }
+
+  private expireSnooze(insight: StoredInsight, now: Date): StoredInsight {
+    if (insight.state !== 'snoozed' || !insight.snoozedUntil || new Date(insight.snoozedUntil) > now) {
+      return insight;
+    }
+    const { snoozedUntil, ...rest } = insight;
+    return { ...rest, state: 'new', surfaced: snoozedUntil, stateChanged: snoozedUntil };
+  }
+
+  // Best first: by priority, then by confidence weighted with how useful the generator has been
+  private rank(insights: StoredInsight[], usefulness: Record<string, Usefulness>): StoredInsight[] {
+    const score = (insight: StoredInsight) => insight.confidence * 2 * (usefulness[insight.generator]?.rate ?? 0.5);
+    return insights.map(insight => this.adjustPriority(insight, usefulness)).sort((a, b) => {
+      if (a.priority !== b.priority) {
+        return PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority];
+      }
+      return score(b) - score(a);
+    }).slice(0, MAX_VISIBLE);
+  }
+
+  // Insights from generators the user has found less useful than not are shown a level lower
+  private adjustPriority(insight: StoredInsight, usefulness: Record<string, Usefulness>): StoredInsight {
+    const rate = usefulness[insight.generator]?.rate;
+    return rate !== undefined && rate < 0.5 ? { ...insight, priority: LOWER_PRIORITY[insight.priority] } : insight;
+  }
+}
+
+export const insightService = new InsightService();
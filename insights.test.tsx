@@ -0,0 +1,105 @@
+import { assertEquals } from 'jsr:@std/assert';
+import { type InsightData, insightGenerators } from './insights.tsx';
+
+// deno test insights.test.tsx
+//
+// Each generator against data just either side of its thresholds: whether it
+// says anything, and at which priority.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-30T12:00:00Z');
+
+const data = (overrides: Partial<InsightData>): InsightData => ({
+  now: NOW,
+  hourly: {},
+  days: [],
+  captureStats: null,
+  tasks: [],
+  ...overrides
+});
+
+// Activity counts by UTC hour
+const hourly = (counts: Record<number, number>): InsightData['hourly'] =>
+  Object.fromEntries(Object.entries(counts).map(([hour, count]) => [hour, { count, types: { capture: count } }]));
+
+// The 56 days loadInsightData reads, with metrics on the last `tracked` of them
+const days = (tracked: number, metrics: (date: Date) => Record<string, number>): InsightData['days'] =>
+  Array.from({ length: 56 }, (_, i) => {
+    const date = new Date(NOW.getTime() - (55 - i) * DAY_MS);
+    return {
+      date,
+      metrics: i < 56 - tracked ? null : {
+        tasksCompleted: 0, tasksCreated: 0, focusScore: 0, captureCount: 0, meetingTime: 0, deepWorkTime: 0,
+        ...metrics(date)
+      }
+    };
+  });
+
+const completedPerDay = (perDay: number, weekday?: number, onWeekday?: number) => (date: Date) =>
+  ({ tasksCompleted: date.getDay() === weekday ? onWeekday! : perDay });
+
+// `old` open tasks from a month ago and `recent` ones from this week
+const openTasks = (old: number, recent: number) => [
+  ...Array.from({ length: old }, (_, i) => ({ id: `old-${i}`, status: 'pending', created: new Date(NOW.getTime() - 30 * DAY_MS).toISOString() })),
+  ...Array.from({ length: recent }, (_, i) => ({ id: `new-${i}`, status: 'pending', created: new Date(NOW.getTime() - 3 * DAY_MS).toISOString() }))
+];
+
+const meetings = (tracked: number, meetingTime: number, deepWorkTime: number) => days(tracked, () => ({ meetingTime, deepWorkTime }));
+
+const captures = (total: number, email: number): InsightData['captureStats'] =>
+  ({ total, byType: { email, note: total - email }, byDay: {} });
+
+interface Case {
+  name: string;
+  generator: string;
+  data: InsightData;
+  // The priority and subject of the one insight expected, or null for none
+  expected: { priority: string; subject?: string } | null;
+}
+
+const cases: Case[] = [
+  { name: 'fewer than 20 events', generator: 'peak-hours', data: data({ hourly: hourly({ 9: 8, 10: 8, 14: 1, 15: 2 }) }), expected: null },
+  { name: 'activity in fewer than 4 hours', generator: 'peak-hours', data: data({ hourly: hourly({ 9: 15, 10: 15, 14: 5 }) }), expected: null },
+  { name: 'an even spread', generator: 'peak-hours', data: data({ hourly: hourly({ 9: 6, 10: 6, 14: 6, 15: 6 }) }), expected: null },
+  { name: 'a window 1.5 times busier', generator: 'peak-hours', data: data({ hourly: hourly({ 9: 8, 10: 8, 14: 4, 15: 4, 16: 4, 17: 4 }) }), expected: { priority: 'medium', subject: '9' } },
+  { name: 'a window twice as busy', generator: 'peak-hours', data: data({ hourly: hourly({ 9: 10, 10: 10, 14: 2, 15: 2, 16: 2, 17: 2 }) }), expected: { priority: 'high', subject: '9' } },
+
+  { name: 'fewer than 21 days tracked', generator: 'weekday-effect', data: data({ days: days(20, completedPerDay(2, 1, 0)) }), expected: null },
+  { name: 'fewer than 15 tasks completed', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(0.5, 1, 0)) }), expected: null },
+  { name: 'no weekday stands out', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(2)) }), expected: null },
+  { name: 'a weekday under 30% busier', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(3, 5, 4)) }), expected: null },
+  { name: 'a weekday 30-50% busier', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(5, 5, 7)) }), expected: { priority: 'low', subject: 'Friday-busier' } },
+  { name: 'a weekday over 50% busier', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(1, 5, 2)) }), expected: { priority: 'medium', subject: 'Friday-busier' } },
+  { name: 'a weekday with nothing done', generator: 'weekday-effect', data: data({ days: days(28, completedPerDay(2, 1, 0)) }), expected: { priority: 'medium', subject: 'Monday-slower' } },
+
+  { name: 'fewer than 10 tasks', generator: 'backlog-growth', data: data({ tasks: openTasks(0, 9) }), expected: null },
+  { name: 'fewer than 3 more open tasks', generator: 'backlog-growth', data: data({ tasks: openTasks(10, 2) }), expected: null },
+  { name: 'growth under 20% of the backlog', generator: 'backlog-growth', data: data({ tasks: openTasks(20, 3) }), expected: null },
+  { name: '3 more open tasks', generator: 'backlog-growth', data: data({ tasks: openTasks(10, 3) }), expected: { priority: 'medium' } },
+  { name: 'the backlog more than half again', generator: 'backlog-growth', data: data({ tasks: openTasks(4, 6) }), expected: { priority: 'high' } },
+
+  { name: 'fewer than 5 days tracked', generator: 'meeting-load', data: data({ days: meetings(4, 70, 30) }), expected: null },
+  { name: 'meetings under half the time', generator: 'meeting-load', data: data({ days: meetings(5, 40, 60) }), expected: null },
+  { name: 'meetings half the time', generator: 'meeting-load', data: data({ days: meetings(5, 60, 60) }), expected: { priority: 'medium' } },
+  { name: 'meetings 65% of the time', generator: 'meeting-load', data: data({ days: meetings(5, 70, 30) }), expected: { priority: 'high' } },
+
+  { name: 'fewer than 20 captures', generator: 'email-share', data: data({ captureStats: captures(19, 19) }), expected: null },
+  { name: 'emails under 30% of captures', generator: 'email-share', data: data({ captureStats: captures(20, 5) }), expected: null },
+  { name: 'emails 30% of captures', generator: 'email-share', data: data({ captureStats: captures(20, 6) }), expected: { priority: 'medium' } }
+];
+
+for (const { name, generator, data, expected } of cases) {
+  Deno.test(`${generator}: ${name}`, () => {
+    const insights = insightGenerators.find(candidate => candidate.name === generator)!.generate(data);
+
+    assertEquals(insights.map(insight => ({ priority: insight.priority, ...(insight.subject && { subject: insight.subject }) })), expected ? [expected] : []);
+  });
+}
+
+Deno.test('peak hours are labelled as UTC', () => {
+  const [insight] = insightGenerators.find(generator => generator.name === 'peak-hours')!
+    .generate(data({ hourly: hourly({ 9: 10, 10: 10, 14: 2, 15: 2, 16: 2, 17: 2 }) }));
+
+  assertEquals(insight.title, 'Peak hours: 9 AM-11 AM UTC');
+  assertEquals(insight.description, '71% of your recorded activity happens between 9 AM and 11 AM UTC (20 of 28 events)');
+});
@@ -0,0 +1,267 @@
+import * as kv from './kv_store.tsx';
+import { upgradeRecord } from './migrations.tsx';
+
+// Insights computed from what the user has actually recorded: hourly activity
+// patterns, daily metrics, capture stats and task history. Each generator
+// returns nothing when there isn't enough data to say something, and its
+// confidence grows with the amount of data the insight rests on.
+
+export interface AIInsight {
+  type: 'productivity' | 'schedule' | 'pattern' | 'suggestion';
+  title: string;
+  description: string;
+  action?: string;
+  priority: 'high' | 'medium' | 'low';
+  confidence: number;
+  // The generator that produced it, e.g. 'peak-hours'
+  generator: string;
+  // What it's about when a generator can say different things, e.g. the peak
+  // hour; together with the generator it identifies the insight over time
+  subject?: string;
+  // The numbers the insight is based on
+  evidence: Record<string, number | string>;
+}
+
+interface DailyMetrics {
+  tasksCompleted: number;
+  tasksCreated: number;
+  focusScore: number;
+  captureCount: number;
+  meetingTime: number;
+  deepWorkTime: number;
+}
+
+export interface InsightData {
+  now: Date;
+  // Activity counts by UTC hour of day, as recorded by analyticsService; there is
+  // no per-user timezone, so peak hours are shown in UTC
+  hourly: Record<string, { count: number; types: Record<string, number> }>;
+  // One entry per calendar day, oldest first; null where nothing was recorded
+  days: Array<{ date: Date; metrics: DailyMetrics | null }>;
+  captureStats: { total: number; byType: Record<string, number>; byDay: Record<string, number> } | null;
+  tasks: any[];
+}
+
+export interface InsightGenerator {
+  name: string;
+  generate(data: InsightData): AIInsight[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of daily metrics loaded for the weekday and meeting generators
+const HISTORY_DAYS = 56;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// 0.5 with no data, approaching 0.95 as the number of observations passes `scale`
+const confidenceFrom = (observations: number, scale: number): number =>
+  Math.round((0.5 + 0.45 * (1 - Math.exp(-observations / scale))) * 100) / 100;
+
+const percent = (ratio: number) => Math.round(ratio * 100);
+
+const formatHour = (hour: number): string => {
+  const h = hour % 24;
+  return `${h % 12 === 0 ? 12 : h % 12} ${h < 12 ? 'AM' : 'PM'}`;
+};
+
+export async function loadInsightData(userId: string, now: Date = new Date()): Promise<InsightData> {
+  const dates = Array.from({ length: HISTORY_DAYS }, (_, i) => new Date(now.getTime() - (HISTORY_DAYS - 1 - i) * DAY_MS));
+
+  const [hourly, metrics, captureStats, tasks] = await Promise.all([
+    kv.get(`user:${userId}:patterns:hourly`),
+    // Daily metrics are keyed by Date.toDateString(), see analyticsService.recordActivity
+    kv.mget(dates.map(date => `user:${userId}:metrics:${date.toDateString()}`)),
+    kv.get(`user:${userId}:stats:captures`),
+    kv.getByPrefix(`user:${userId}:task:`)
+  ]);
+
+  return {
+    now,
+    hourly: hourly || {},
+    days: dates.map((date, i) => ({ date, metrics: metrics[i] || null })),
+    captureStats: captureStats || null,
+    tasks: tasks.map(task => upgradeRecord('task', task))
+  };
+}
+
+// The two-hour window with the most activity, if it clearly stands out
+const peakHours: InsightGenerator = {
+  name: 'peak-hours',
+  generate({ hourly }) {
+    const counts = Array.from({ length: 24 }, (_, hour) => hourly[hour]?.count || 0);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const activeHours = counts.filter(count => count > 0).length;
+    if (total < 20 || activeHours < 4) return [];
+
+    let start = 0;
+    for (let hour = 1; hour < 24; hour++) {
+      if (counts[hour] + counts[(hour + 1) % 24] > counts[start] + counts[(start + 1) % 24]) {
+        start = hour;
+      }
+    }
+    const inWindow = counts[start] + counts[(start + 1) % 24];
+    // How much busier the window is than an even spread over the hours you're active
+    const lift = (inWindow / total) / (2 / activeHours);
+    if (lift < 1.5) return [];
+
+    const window = `${formatHour(start)}-${formatHour(start + 2)} UTC`;
+    return [{
+      type: 'productivity',
+      title: `Peak hours: ${window}`,
+      description: `${percent(inWindow / total)}% of your recorded activity happens between ${formatHour(start)} and ${formatHour(start + 2)} UTC (${inWindow} of ${total} events)`,
+      action: `Schedule your most important work for ${window}`,
+      priority: lift >= 2 ? 'high' : 'medium',
+      confidence: confidenceFrom(total, 60),
+      generator: 'peak-hours',
+      subject: String(start),
+      evidence: { events: total, inWindow, activeHours, lift: Math.round(lift * 100) / 100 }
+    }];
+  }
+};
+
+// A weekday on which noticeably fewer (or more) tasks get done than on an average day
+const weekdayEffect: InsightGenerator = {
+  name: 'weekday-effect',
+  generate({ days }) {
+    const first = days.findIndex(day => day.metrics);
+    if (first < 0) return [];
+    const tracked = days.slice(first);
+    const completed = tracked.map(day => day.metrics?.tasksCompleted || 0);
+    const total = completed.reduce((sum, count) => sum + count, 0);
+    if (tracked.length < 21 || total < 15) return [];
+
+    const mean = total / tracked.length;
+    const byWeekday = WEEKDAYS.map(() => [] as number[]);
+    tracked.forEach((day, i) => byWeekday[day.date.getDay()].push(completed[i]));
+
+    const effects = byWeekday
+      .map((counts, weekday) => ({ weekday, samples: counts.length, average: counts.reduce((sum, c) => sum + c, 0) / Math.max(counts.length, 1) }))
+      .filter(effect => effect.samples >= 3)
+      .map(effect => ({ ...effect, change: effect.average / mean - 1 }));
+
+    const slowest = effects.reduce((a, b) => (b.change < a.change ? b : a), effects[0]);
+    const busiest = effects.reduce((a, b) => (b.change > a.change ? b : a), effects[0]);
+    const effect = slowest && slowest.change <= -0.3 ? slowest : busiest && busiest.change >= 0.3 ? busiest : null;
+    if (!effect) return [];
+
+    const day = WEEKDAYS[effect.weekday];
+    const slower = effect.change < 0;
+    return [{
+      type: 'pattern',
+      title: slower ? `${day}s are slower` : `${day}s are your most productive day`,
+      description: `You complete ${percent(Math.abs(effect.change))}% ${slower ? 'fewer' : 'more'} tasks on ${day}s than on an average day (${effect.average.toFixed(1)} vs ${mean.toFixed(1)}, over ${effect.samples} weeks)`,
+      action: slower ? `Keep ${day}s for routine or low-effort tasks` : `Save demanding tasks for ${day}s`,
+      priority: Math.abs(effect.change) >= 0.5 ? 'medium' : 'low',
+      confidence: confidenceFrom(tracked.length, 28),
+      generator: 'weekday-effect',
+      subject: `${day}-${slower ? 'slower' : 'busier'}`,
+      evidence: { days: tracked.length, tasksCompleted: total, weekday: day, average: Math.round(effect.average * 10) / 10, mean: Math.round(mean * 10) / 10 }
+    }];
+  }
+};
+
+const taskCompletedAt = (task: any): number | null => {
+  const done = task.status ? task.status === 'completed' : !!task.completed;
+  if (!done) return null;
+  const time = new Date(task.completedAt || task.updated || task.created).getTime();
+  return isNaN(time) ? null : time;
+};
+
+// Open tasks piling up faster than they're completed over the last two weeks
+const backlogGrowth: InsightGenerator = {
+  name: 'backlog-growth',
+  generate({ now, tasks }) {
+    if (tasks.length < 10) return [];
+
+    const cutoff = now.getTime() - 14 * DAY_MS;
+    const history = tasks
+      .map(task => ({ created: new Date(task.created).getTime(), completed: taskCompletedAt(task) }))
+      .filter(task => !isNaN(task.created));
+    const openAt = (time: number) =>
+      history.filter(task => task.created <= time && (task.completed === null || task.completed > time)).length;
+
+    const openThen = openAt(cutoff);
+    const openNow = openAt(now.getTime());
+    const created = history.filter(task => task.created > cutoff).length;
+    const completed = history.filter(task => task.completed !== null && task.completed > cutoff).length;
+    const growth = openNow - openThen;
+    if (growth < 3 || growth < openThen * 0.2) return [];
+
+    return [{
+      type: 'suggestion',
+      title: 'Backlog is growing',
+      description: `Open tasks went from ${openThen} to ${openNow} in two weeks: ${created} created, ${completed} completed`,
+      action: 'Review open tasks and drop or defer what won\'t get done',
+      priority: growth >= Math.max(5, openThen * 0.5) ? 'high' : 'medium',
+      confidence: confidenceFrom(created + completed, 20),
+      generator: 'backlog-growth',
+      evidence: { openThen, openNow, created, completed }
+    }];
+  }
+};
+
+// Meetings crowding out focus time, from the tracked meeting and deep work minutes
+const meetingLoad: InsightGenerator = {
+  name: 'meeting-load',
+  generate({ days }) {
+    const recent = days.slice(-14).map(day => day.metrics).filter((metrics): metrics is DailyMetrics =>
+      !!metrics && (metrics.meetingTime > 0 || metrics.deepWorkTime > 0)
+    );
+    if (recent.length < 5) return [];
+
+    const meetings = recent.reduce((sum, metrics) => sum + metrics.meetingTime, 0);
+    const focus = recent.reduce((sum, metrics) => sum + metrics.deepWorkTime, 0);
+    const share = meetings / (meetings + focus);
+    if (share < 0.5) return [];
+
+    return [{
+      type: 'schedule',
+      title: 'Meetings are crowding out focus time',
+      description: `Meetings took ${percent(share)}% of your tracked time over the last two weeks`,
+      action: 'Block recurring focus time and batch meetings together',
+      priority: share >= 0.65 ? 'high' : 'medium',
+      confidence: confidenceFrom(recent.length, 10),
+      generator: 'meeting-load',
+      evidence: { daysTracked: recent.length, meetingTime: meetings, deepWorkTime: focus }
+    }];
+  }
+};
+
+// A large share of captures being emails suggests batching them
+const emailShare: InsightGenerator = {
+  name: 'email-share',
+  generate({ captureStats }) {
+    const total = captureStats?.total || 0;
+    if (total < 20) return [];
+
+    const emails = captureStats!.byType.email || 0;
+    const share = emails / total;
+    if (share < 0.3) return [];
+
+    return [{
+      type: 'pattern',
+      title: 'Email dominates your captures',
+      description: `${percent(share)}% of your captures are emails (${emails} of ${total})`,
+      action: 'Consider batch processing emails at specific times',
+      priority: 'medium',
+      confidence: confidenceFrom(total, 50),
+      generator: 'email-share',
+      evidence: { captures: total, emails }
+    }];
+  }
+};
+
+export const insightGenerators: InsightGenerator[] = [peakHours, weekdayEffect, backlogGrowth, meetingLoad, emailShare];
+
+// Runs every generator; one that fails is logged and skipped
+export function generateInsightsFrom(data: InsightData): AIInsight[] {
+  return insightGenerators.flatMap(generator => {
+    try {
+      return generator.generate(data);
+    } catch (error) {
+      console.log(`Insight generator ${generator.name} error:`, error);
+      return [];
+    }
+  });
+}
@@ -1,4 +1,6 @@
 import * as kv from './kv_store.tsx';
+import { eventBus } from './events.tsx';
+import { notificationService } from './notification-service.tsx';
 
 interface Integration {
   id: string;
@@ -25,6 +27,10 @@ class IntegrationService {
     'teams', 'zoom', 'figma', 'linear', 'spotify'
   ];
 
+  isSupportedService(service: string): boolean {
+    return this.supportedServices.includes(service);
+  }
+
   async getUserIntegrations(userId: string): Promise<Integration[]> {
     try {
       const integrations = await kv.getByPrefix(`user:${userId}:integration:`);
@@ -83,18 +89,38 @@ class IntegrationService {
         throw new Error(`Integration for ${service} not found or disabled`);
       }
 
+      const integrationKey = `user:${userId}:integration:${integration.id}`;
+
       // Update status to syncing
-      integration.status = 'syncing';
-      await kv.set(`user:${userId}:integration:${integration.id}`, integration);
+      await kv.update<Integration>(integrationKey, (current) => ({ ...(current ?? integration), status: 'syncing' }));
+      eventBus.publish(userId, 'sync.started', { service });
 
       const syncResult = await this.performSync(userId, integration);
 
-      // Update integration with sync results
-      integration.status = syncResult.success ? 'connected' : 'error';
-      integration.lastSync = syncResult.lastSync;
-      integration.itemsProcessed += syncResult.itemsProcessed;
-      
-      await kv.set(`user:${userId}:integration:${integration.id}`, integration);
+      // Update integration with sync results; parallel syncs each add their own count
+      await kv.update<Integration>(integrationKey, (current) => {
+        const latest = current ?? integration;
+        return {
+          ...latest,
+          status: syncResult.success ? 'connected' : 'error',
+          lastSync: syncResult.lastSync,
+          itemsProcessed: latest.itemsProcessed + syncResult.itemsProcessed
+        };
+      });
+      eventBus.publish(userId, 'sync.finished', {
+        service,
+        success: syncResult.success,
+        itemsProcessed: syncResult.itemsProcessed,
+        lastSync: syncResult.lastSync
+      });
+
+      if (!syncResult.success) {
+        await notificationService.notify(userId, 'sync_failed', {
+          title: `${service} sync failed`,
+          message: syncResult.errors.join('; ') || 'The sync did not complete',
+          link: { tab: 'integrations', id: integration.id }
+        });
+      }
 
       return syncResult;
     } catch (error) {
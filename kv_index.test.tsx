@@ -0,0 +1,60 @@
+import { assertEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { captureIndex, projectIndex, taskIndex } from './kv_index.tsx';
+
+// deno test kv_index.test.tsx
+
+Deno.test('the first lookup indexes records stored before the index field existed', async () => {
+  kv.setBackend(new LocalKVBackend());
+  // Stored by an earlier version: no status and no index entries
+  await kv.set('user:u1:capture:c1', { id: 'c1', type: 'note', content: 'Old note', tags: [] });
+  await kv.set('user:u1:capture:c2', { id: 'c2', type: 'note', content: 'Filed away', tags: [], status: 'archived' });
+
+  assertEquals((await captureIndex.find('u1', 'status', 'inbox')).map(capture => capture.id), ['c1']);
+  assertEquals((await captureIndex.find('u1', 'status', 'archived')).map(capture => capture.id), ['c2']);
+  assertEquals(await kv.get('user:u1:idxready:capture:status'), true);
+});
+
+Deno.test('lookups after the backfill only see what sync wrote', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u2:capture:c1', { id: 'c1', type: 'note', content: 'First', tags: [] });
+  assertEquals((await captureIndex.find('u2', 'status', 'inbox')).length, 1);
+
+  const capture = { id: 'c3', type: 'idea', content: 'Second', tags: [], status: 'inbox' };
+  await kv.set('user:u2:capture:c3', capture);
+  await captureIndex.sync('u2', 'c3', capture);
+
+  assertEquals((await captureIndex.find('u2', 'status', 'inbox')).map(record => record.id).sort(), ['c1', 'c3']);
+});
+
+Deno.test('active and overdue task lookups include tasks stored before the index existed', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u3:task:t1', { id: 't1', title: 'Old and late', status: 'pending', due_date: '2024-01-05T00:00:00.000Z' });
+  await kv.set('user:u3:task:t2', { id: 't2', title: 'Old and done', completed: true, due_date: '2024-01-06T00:00:00.000Z' });
+  await kv.set('user:u3:task:t3', { id: 't3', title: 'Not due yet', status: 'in_progress', due_date: '2999-01-01T00:00:00.000Z' });
+
+  assertEquals((await taskIndex.find('u3', 'status', 'pending')).map(task => task.id), ['t1']);
+  assertEquals((await taskIndex.find('u3', 'status', 'completed')).map(task => task.id), ['t2']);
+  assertEquals(
+    (await taskIndex.findRange('u3', 'due', { to: new Date().toISOString() })).map(task => task.id),
+    ['t1', 't2']
+  );
+});
+
+Deno.test('project lookups include projects stored before the index existed', async () => {
+  kv.setBackend(new LocalKVBackend());
+  await kv.set('user:u4:project:p1', { id: 'p1', name: 'Launch', status: 'active', tags: ['q3'] });
+
+  assertEquals((await projectIndex.findAll('u4', { status: 'active', tag: 'q3' }))!.map(project => project.id), ['p1']);
+});
+
+Deno.test('standalone task lookups leave out project tasks, including ones stored earlier', async () => {
+  kv.setBackend(new LocalKVBackend());
+  // The project field was already backfilled, the standalone one not yet
+  await kv.set('user:u5:idxready:task:project', true);
+  await kv.set('user:u5:task:t1', { id: 't1', title: 'From a capture', source: 'capture:c1', completed: false });
+  await kv.set('user:u5:task:t2', { id: 't2', title: 'In a project', projectId: 'p1', status: 'pending' });
+
+  assertEquals((await taskIndex.findAll('u5', { standalone: 'true' }))!.map(task => task.id), ['t1']);
+});
@@ -0,0 +1,239 @@
+import * as kv from './kv_store.tsx';
+import { contentFingerprint, similarityBands } from './capture-dedup.tsx';
+
+// Secondary indexes over user records stored in kv.
+//
+// Every indexed field value becomes its own key:
+//   user:{userId}:idx:{kind}:{field}:{value}:{recordId}
+// so exact-match lookups are a single prefix scan and range lookups (due dates)
+// are an ordered scan. The keys a record currently owns are remembered under
+// user:{userId}:idxmeta:{kind}:{recordId} so stale entries can be removed when
+// the record changes. Lookups re-check every record against the query, so an
+// entry left behind by a lost race can never produce a wrong result.
+//
+// Records stored before an index (or one of its fields) existed have no entries.
+// The first lookup on a field for a user re-indexes that user's records once and
+// marks the field done under user:{userId}:idxready:{kind}:{field}.
+
+type FieldExtractor = (record: any) => Array<string | undefined | null>;
+
+interface RangeQuery {
+  from?: string;
+  to?: string; // exclusive
+}
+
+class RecordIndex {
+  // "{userId}:{field}" pairs known to be backfilled, so the marker is read once per process
+  private ready = new Set<string>();
+
+  constructor(
+    private readonly kind: string,
+    private readonly fields: Record<string, FieldExtractor>
+  ) {}
+
+  // Brings the index entries for one record in line with its current value.
+  // Pass null when the record has been deleted.
+  async sync(userId: string, recordId: string, record: any | null): Promise<void> {
+    try {
+      const metaKey = `user:${userId}:idxmeta:${this.kind}:${recordId}`;
+      const wanted = record ? this.entryKeys(userId, recordId, record) : [];
+      const previous: string[] = await kv.get(metaKey) || [];
+
+      const stale = previous.filter(key => !wanted.includes(key));
+      if (stale.length > 0) {
+        await kv.mdel(stale);
+      }
+      if (wanted.length > 0) {
+        await kv.mset(wanted, wanted.map(() => recordId));
+      }
+
+      if (record) {
+        await kv.set(metaKey, wanted);
+      } else {
+        await kv.del(metaKey);
+      }
+    } catch (error) {
+      // The index is derived data; a failed update must not fail the write itself
+      console.log(`Index sync error (${this.kind}):`, error);
+    }
+  }
+
+  // Records whose field has exactly this value
+  async find(userId: string, field: string, value: string): Promise<any[]> {
+    const normalized = this.normalize(field, value);
+    if (normalized === null) return [];
+
+    await this.ensureIndexed(userId, field);
+    const ids = await this.scanIds(`${this.fieldPrefix(userId, field)}${encodeURIComponent(normalized)}:`);
+    const records = await this.load(userId, ids);
+    return records.filter(record => this.values(field, record).includes(normalized));
+  }
+
+  // Records matching every given field value; fields with empty values are ignored.
+  // Returns null when no criteria apply, so callers can fall back to a full listing.
+  async findAll(userId: string, criteria: Record<string, string | undefined | null>): Promise<any[] | null> {
+    const applied = Object.entries(criteria).filter(([field, value]) => this.fields[field] && value);
+    if (applied.length === 0) return null;
+
+    const matches = await Promise.all(applied.map(([field, value]) => this.find(userId, field, value!)));
+    const [first, ...rest] = matches;
+    return first.filter(record => rest.every(set => set.some(other => other.id === record.id)));
+  }
+
+  // Records whose field falls in [from, to), in ascending field order
+  async findRange(userId: string, field: string, range: RangeQuery): Promise<any[]> {
+    const from = range.from ? this.normalize(field, range.from) : null;
+    const to = range.to ? this.normalize(field, range.to) : null;
+    const prefix = this.fieldPrefix(userId, field);
+
+    await this.ensureIndexed(userId, field);
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    scanning: do {
+      const page = await kv.scanByPrefix(prefix, { cursor, limit: 200, order: 'asc' });
+      for (const entry of page.entries) {
+        const value = decodeURIComponent(entry.key.slice(prefix.length).split(':')[0]);
+        if (to !== null && value >= to) break scanning;
+        if (from === null || value >= from) ids.push(entry.value);
+      }
+      cursor = page.cursor;
+    } while (cursor);
+
+    const records = await this.load(userId, ids);
+    return records.filter(record => this.values(field, record).some(value =>
+      (from === null || value >= from) && (to === null || value < to)
+    ));
+  }
+
+  // Re-indexes every record of this kind, e.g. for data written before the index existed
+  async rebuild(userId: string): Promise<number> {
+    const records = await kv.getByPrefix(this.recordPrefix(userId));
+    for (const record of records) {
+      await this.sync(userId, record.id, record);
+    }
+    const fields = Object.keys(this.fields);
+    await kv.mset(fields.map(field => this.readyKey(userId, field)), fields.map(() => true));
+    fields.forEach(field => this.ready.add(`${userId}:${field}`));
+    return records.length;
+  }
+
+  // Backfills the user's entries for the field the first time it is looked up
+  private async ensureIndexed(userId: string, field: string): Promise<void> {
+    if (this.ready.has(`${userId}:${field}`)) return;
+    if (await kv.get(this.readyKey(userId, field))) {
+      this.ready.add(`${userId}:${field}`);
+      return;
+    }
+    await this.rebuild(userId);
+  }
+
+  private entryKeys(userId: string, recordId: string, record: any): string[] {
+    const keys: string[] = [];
+    for (const field of Object.keys(this.fields)) {
+      for (const value of this.values(field, record)) {
+        keys.push(`${this.fieldPrefix(userId, field)}${encodeURIComponent(value)}:${recordId}`);
+      }
+    }
+    return [...new Set(keys)];
+  }
+
+  private values(field: string, record: any): string[] {
+    const extract = this.fields[field];
+    if (!extract) {
+      throw new Error(`Unknown ${this.kind} index: ${field}`);
+    }
+    return extract(record)
+      .map(value => value === undefined || value === null ? null : this.normalize(field, String(value)))
+      .filter((value): value is string => value !== null);
+  }
+
+  // Dates are stored as ISO strings so they sort chronologically; everything else is case-insensitive
+  private normalize(field: string, value: string): string | null {
+    if (DATE_FIELDS.includes(field)) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    const trimmed = value.trim().toLowerCase();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+
+  private async scanIds(prefix: string): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await kv.scanByPrefix(prefix, { cursor, limit: 200 });
+      ids.push(...page.entries.map(entry => entry.value));
+      cursor = page.cursor;
+    } while (cursor);
+    return ids;
+  }
+
+  private async load(userId: string, ids: string[]): Promise<any[]> {
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) return [];
+    const records = await kv.mget(unique.map(id => `${this.recordPrefix(userId)}${id}`));
+    return records.filter(Boolean);
+  }
+
+  private fieldPrefix(userId: string, field: string): string {
+    return `user:${userId}:idx:${this.kind}:${field}:`;
+  }
+
+  private readyKey(userId: string, field: string): string {
+    return `user:${userId}:idxready:${this.kind}:${field}`;
+  }
+
+  private recordPrefix(userId: string): string {
+    return `user:${userId}:${this.kind}:`;
+  }
+}
+
+const DATE_FIELDS = ['due', 'deadline'];
+
+// Tasks created from captures only carry a `completed` flag
+const taskStatus = (task: any): string => task.status || (task.completed ? 'completed' : 'pending');
+
+export const taskIndex = new RecordIndex('task', {
+  status: task => [taskStatus(task)],
+  priority: task => [task.priority],
+  due: task => [task.due_date],
+  tag: task => task.tags || [],
+  assignee: task => [task.assignee],
+  project: task => [task.projectId],
+  // Tasks created from captures belong to no project
+  standalone: task => [task.projectId ? null : 'true']
+});
+
+export const captureIndex = new RecordIndex('capture', {
+  type: capture => [capture.type],
+  priority: capture => [capture.processedContent?.priority],
+  tag: capture => capture.tags || [],
+  source: capture => [capture.source],
+  status: capture => [capture.status || 'inbox'],
+  // Duplicate detection, see capture-dedup.tsx; computed from content so a rebuild covers older captures.
+  // Captures with attachments are matched on their files only: their text is often just the file names.
+  sourceItem: capture => capture.sourceItemIds || [],
+  fingerprint: capture => capture.attachments?.length ? [] : [contentFingerprint(capture.content)],
+  similarity: capture => capture.attachments?.length ? [] : similarityBands(capture.content)
+});
+
+export const projectIndex = new RecordIndex('project', {
+  status: project => [project.status],
+  priority: project => [project.priority],
+  deadline: project => [project.deadline],
+  tag: project => project.tags || []
+});
+
+export const notificationIndex = new RecordIndex('notification', {
+  read: notification => [String(!!notification.read)],
+  type: notification => [notification.type]
+});
+
+export async function rebuildUserIndexes(userId: string): Promise<{ tasks: number; captures: number; projects: number; notifications: number }> {
+  return {
+    tasks: await taskIndex.rebuild(userId),
+    captures: await captureIndex.rebuild(userId),
+    projects: await projectIndex.rebuild(userId),
+    notifications: await notificationIndex.rebuild(userId)
+  };
+}
@@ -0,0 +1,148 @@
+import type { KVBackend, KVEntry, KVScanOptions, VersionedValue } from './kv_store.tsx';
+
+// Keeps records in process memory so the server can run without Supabase.
+// When a file path is given the whole store is loaded from it on first use
+// and rewritten after every mutation, which is plenty for local development.
+export class LocalKVBackend implements KVBackend {
+  private records: Map<string, any> | null = null;
+  // Versions live only in memory: records loaded from disk start at 0 and every
+  // write takes the next clock tick, so a deleted and recreated key never reuses one
+  private versions = new Map<string, number>();
+  private clock = 0;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath?: string) {}
+
+  async set(key: string, value: any): Promise<void> {
+    const records = await this.load();
+    this.write(records, key, value);
+    await this.persist();
+  }
+
+  async get(key: string): Promise<any> {
+    const records = await this.load();
+    return this.clone(records.get(key));
+  }
+
+  async del(key: string): Promise<void> {
+    const records = await this.load();
+    records.delete(key);
+    this.versions.delete(key);
+    await this.persist();
+  }
+
+  async mset(keys: string[], values: any[]): Promise<void> {
+    const records = await this.load();
+    keys.forEach((key, i) => this.write(records, key, values[i]));
+    await this.persist();
+  }
+
+  async mget(keys: string[]): Promise<any[]> {
+    const records = await this.load();
+    return keys
+      .filter(key => records.has(key))
+      .map(key => this.clone(records.get(key)));
+  }
+
+  async mdel(keys: string[]): Promise<void> {
+    const records = await this.load();
+    keys.forEach(key => {
+      records.delete(key);
+      this.versions.delete(key);
+    });
+    await this.persist();
+  }
+
+  async getByPrefix(prefix: string): Promise<any[]> {
+    const records = await this.load();
+    return Array.from(records.keys())
+      .filter(key => key.startsWith(prefix))
+      .sort()
+      .map(key => this.clone(records.get(key)));
+  }
+
+  async scan(prefix: string, options: KVScanOptions): Promise<KVEntry[]> {
+    const records = await this.load();
+    const keys = Array.from(records.keys())
+      .filter(key => key.startsWith(prefix))
+      .sort();
+    if (options.order === 'desc') keys.reverse();
+
+    return keys
+      .filter(key => options.after === undefined ||
+        (options.order === 'desc' ? key < options.after : key > options.after))
+      .slice(0, options.limit)
+      .map(key => ({ key, value: this.clone(records.get(key)) }));
+  }
+
+  async getVersioned(key: string): Promise<VersionedValue | null> {
+    const records = await this.load();
+    if (!records.has(key)) return null;
+    return { value: this.clone(records.get(key)), version: this.versions.get(key) ?? 0 };
+  }
+
+  async compareAndSwap(key: string, expectedVersion: number | null, value: any): Promise<boolean> {
+    const records = await this.load();
+
+    // Nothing below awaits until the write is applied, so the check and the write are atomic
+    const currentVersion = records.has(key) ? (this.versions.get(key) ?? 0) : null;
+    if (currentVersion !== expectedVersion) {
+      return false;
+    }
+
+    this.write(records, key, value);
+    await this.persist();
+    return true;
+  }
+
+  private write(records: Map<string, any>, key: string, value: any): void {
+    records.set(key, this.clone(value));
+    this.versions.set(key, ++this.clock);
+  }
+
+  private async load(): Promise<Map<string, any>> {
+    if (this.records) return this.records;
+
+    const records = new Map<string, any>();
+    if (this.filePath) {
+      try {
+        const contents = JSON.parse(await Deno.readTextFile(this.filePath));
+        for (const [key, value] of Object.entries(contents)) {
+          records.set(key, value);
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw new Error(`Failed to load local kv store: ${error.message}`);
+        }
+      }
+    }
+
+    // Another call may have finished loading while we were reading the file
+    if (!this.records) {
+      this.records = records;
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+
+    // Chain writes so a slow write never overwrites a newer snapshot
+    const filePath = this.filePath;
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(async () => {
+        const snapshot = JSON.stringify(Object.fromEntries(this.records ?? []));
+        const tempPath = `${filePath}.tmp`;
+        await Deno.writeTextFile(tempPath, snapshot);
+        await Deno.rename(tempPath, filePath);
+      });
+    return this.pendingWrite;
+  }
+
+  // Values are copied in and out so callers can't mutate stored records in place,
+  // matching the behaviour of a real database round-trip
+  private clone(value: any): any {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+}
@@ -1,87 +1,184 @@
-/* AUTOGENERATED FILE - DO NOT EDIT CONTENTS */
+// This file provides a simple key-value interface for storing Figma Make data. It should be adequate for most small-scale use cases.
+//
+// The storage backend is selected with the KV_BACKEND environment variable:
+//   supabase (default) - the kv_store_9e61c00c table in the linked Supabase project
+//   local              - in-process store, persisted to KV_LOCAL_PATH when it is set
+import { SupabaseKVBackend } from './kv_supabase.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
 
-/* Table schema:
-CREATE TABLE kv_store_9e61c00c (
-  key TEXT NOT NULL PRIMARY KEY,
-  value JSONB NOT NULL
-);
-*/
+export interface KVEntry {
+  key: string;
+  value: any;
+}
 
-// View at https://supabase.com/dashboard/project/mumpxtybidppyyvkhffg/database/tables
+export interface KVScanOptions {
+  // Only return keys strictly after this one in scan order
+  after?: string;
+  limit: number;
+  order: 'asc' | 'desc';
+}
 
-// This file provides a simple key-value interface for storing Figma Make data. It should be adequate for most small-scale use cases.
-import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+export interface VersionedValue {
+  value: any;
+  version: number;
+}
+
+export interface KVBackend {
+  set(key: string, value: any): Promise<void>;
+  get(key: string): Promise<any>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+  scan(prefix: string, options: KVScanOptions): Promise<KVEntry[]>;
+  getVersioned(key: string): Promise<VersionedValue | null>;
+  // Writes value only if the stored version still matches (null = key must not exist).
+  // Resolves false when another writer got there first.
+  compareAndSwap(key: string, expectedVersion: number | null, value: any): Promise<boolean>;
+}
+
+export interface ScanPage {
+  entries: KVEntry[];
+  cursor: string | null;
+}
+
+// Thrown when a continuation token can't be decoded or belongs to another prefix.
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Thrown when update() keeps losing the race against other writers.
+export class ConcurrentUpdateError extends Error {
+  constructor(key: string) {
+    super(`Too many concurrent updates to ${key}`);
+    this.name = 'ConcurrentUpdateError';
+  }
+}
 
-const client = () => createClient(
-  Deno.env.get("SUPABASE_URL"),
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
-);
+let activeBackend: KVBackend | null = null;
+
+const createBackend = (): KVBackend => {
+  const kind = Deno.env.get('KV_BACKEND') || 'supabase';
+  switch (kind) {
+    case 'supabase':
+      return new SupabaseKVBackend();
+    case 'local':
+      return new LocalKVBackend(Deno.env.get('KV_LOCAL_PATH') || undefined);
+    default:
+      throw new Error(`Unknown KV_BACKEND: ${kind}`);
+  }
+};
+
+const backend = (): KVBackend => {
+  if (!activeBackend) {
+    activeBackend = createBackend();
+  }
+  return activeBackend;
+};
+
+// Replaces the backend chosen from the environment, e.g. with a fresh LocalKVBackend in tests.
+export const setBackend = (next: KVBackend): void => {
+  activeBackend = next;
+};
 
 // Set stores a key-value pair in the database.
 export const set = async (key: string, value: any): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_9e61c00c").upsert({
-    key,
-    value
-  });
-  if (error) {
-    throw new Error(error.message);
-  }
+  return backend().set(key, value);
 };
 
 // Get retrieves a key-value pair from the database.
 export const get = async (key: string): Promise<any> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_9e61c00c").select("value").eq("key", key).maybeSingle();
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.value;
+  return backend().get(key);
 };
 
 // Delete deletes a key-value pair from the database.
 export const del = async (key: string): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_9e61c00c").delete().eq("key", key);
-  if (error) {
-    throw new Error(error.message);
-  }
+  return backend().del(key);
 };
 
 // Sets multiple key-value pairs in the database.
 export const mset = async (keys: string[], values: any[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_9e61c00c").upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
-  if (error) {
-    throw new Error(error.message);
-  }
+  return backend().mset(keys, values);
 };
 
 // Gets multiple key-value pairs from the database.
 export const mget = async (keys: string[]): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_9e61c00c").select("value").in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
+  return backend().mget(keys);
 };
 
 // Deletes multiple key-value pairs from the database.
 export const mdel = async (keys: string[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_9e61c00c").delete().in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
+  return backend().mdel(keys);
 };
 
 // Search for key-value pairs by prefix.
 export const getByPrefix = async (prefix: string): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_9e61c00c").select("key, value").like("key", prefix + "%");
-  if (error) {
-    throw new Error(error.message);
+  return backend().getByPrefix(prefix);
+};
+
+// Atomically replaces the value at key with mutate(current). The mutation is re-run
+// against the latest value whenever another writer commits first, so it must be
+// free of side effects. Returns the value that was written; returning undefined
+// from mutate leaves the key untouched.
+export function update<T = any>(key: string, mutate: (current: T | undefined) => T, maxAttempts?: number): Promise<T>;
+export function update<T = any>(key: string, mutate: (current: T | undefined) => T | undefined, maxAttempts?: number): Promise<T | undefined>;
+export async function update<T = any>(
+  key: string,
+  mutate: (current: T | undefined) => T | undefined,
+  maxAttempts: number = 10
+): Promise<T | undefined> {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const current = await backend().getVersioned(key);
+    const next = mutate(current?.value);
+    if (next === undefined) {
+      return next;
+    }
+
+    if (await backend().compareAndSwap(key, current ? current.version : null, next)) {
+      return next;
+    }
+
+    // Back off a little (with jitter) so competing writers don't collide again
+    await new Promise(resolve => setTimeout(resolve, Math.random() * 10 * (attempt + 1)));
+  }
+
+  throw new ConcurrentUpdateError(key);
+}
+
+// Scans keys with a prefix in key order, one page at a time. Pass the returned
+// cursor back in to continue; it is null once the last page has been read.
+export const scanByPrefix = async (
+  prefix: string,
+  options: { cursor?: string | null; limit?: number; order?: 'asc' | 'desc' } = {}
+): Promise<ScanPage> => {
+  const limit = Math.max(1, Math.floor(options.limit ?? 50));
+  const order = options.order ?? 'asc';
+  const after = options.cursor ? decodeCursor(options.cursor) : undefined;
+
+  if (after !== undefined && !after.startsWith(prefix)) {
+    throw new InvalidCursorError();
   }
-  return data?.map((d) => d.value) ?? [];
-};
\ No newline at end of file
+
+  // Ask for one extra entry so we know whether another page exists
+  const entries = await backend().scan(prefix, { after, limit: limit + 1, order });
+  const page = entries.slice(0, limit);
+
+  return {
+    entries: page,
+    cursor: entries.length > limit ? encodeCursor(page[page.length - 1].key) : null
+  };
+};
+
+const encodeCursor = (key: string): string => btoa(encodeURIComponent(key));
+
+const decodeCursor = (cursor: string): string => {
+  try {
+    return decodeURIComponent(atob(cursor));
+  } catch {
+    throw new InvalidCursorError();
+  }
+};
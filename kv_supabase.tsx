@@ -0,0 +1,135 @@
+/* Table schema:
+-- Every write takes a fresh version so compareAndSwap can detect concurrent updates
+CREATE SEQUENCE kv_store_9e61c00c_version_seq;
+
+CREATE TABLE kv_store_9e61c00c (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  version BIGINT NOT NULL DEFAULT nextval('kv_store_9e61c00c_version_seq')
+);
+
+CREATE FUNCTION kv_store_9e61c00c_bump_version() RETURNS trigger AS $$
+BEGIN
+  NEW.version := nextval('kv_store_9e61c00c_version_seq');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER kv_store_9e61c00c_bump_version
+  BEFORE UPDATE ON kv_store_9e61c00c
+  FOR EACH ROW EXECUTE FUNCTION kv_store_9e61c00c_bump_version();
+*/
+
+// View at https://supabase.com/dashboard/project/mumpxtybidppyyvkhffg/database/tables
+
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { KVBackend, KVEntry, KVScanOptions, VersionedValue } from './kv_store.tsx';
+
+const TABLE = 'kv_store_9e61c00c';
+
+// Stores records in the Supabase kv table. This is the production backend.
+export class SupabaseKVBackend implements KVBackend {
+  private client() {
+    return createClient(
+      Deno.env.get('SUPABASE_URL'),
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'),
+    );
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    const { error } = await this.client().from(TABLE).upsert({ key, value });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async get(key: string): Promise<any> {
+    const { data, error } = await this.client().from(TABLE).select('value').eq('key', key).maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.value;
+  }
+
+  async del(key: string): Promise<void> {
+    const { error } = await this.client().from(TABLE).delete().eq('key', key);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async mset(keys: string[], values: any[]): Promise<void> {
+    const { error } = await this.client().from(TABLE).upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async mget(keys: string[]): Promise<any[]> {
+    const { data, error } = await this.client().from(TABLE).select('value').in('key', keys);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.map((d) => d.value) ?? [];
+  }
+
+  async mdel(keys: string[]): Promise<void> {
+    const { error } = await this.client().from(TABLE).delete().in('key', keys);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async getByPrefix(prefix: string): Promise<any[]> {
+    const { data, error } = await this.client().from(TABLE).select('key, value').like('key', prefix + '%');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.map((d) => d.value) ?? [];
+  }
+
+  async scan(prefix: string, options: KVScanOptions): Promise<KVEntry[]> {
+    let query = this.client().from(TABLE).select('key, value').like('key', prefix + '%');
+    if (options.after !== undefined) {
+      query = options.order === 'desc' ? query.lt('key', options.after) : query.gt('key', options.after);
+    }
+
+    const { data, error } = await query
+      .order('key', { ascending: options.order !== 'desc' })
+      .limit(options.limit);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.map((d) => ({ key: d.key, value: d.value })) ?? [];
+  }
+
+  async getVersioned(key: string): Promise<VersionedValue | null> {
+    const { data, error } = await this.client().from(TABLE).select('value, version').eq('key', key).maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data ? { value: data.value, version: Number(data.version) } : null;
+  }
+
+  async compareAndSwap(key: string, expectedVersion: number | null, value: any): Promise<boolean> {
+    if (expectedVersion === null) {
+      const { error } = await this.client().from(TABLE).insert({ key, value });
+      if (error) {
+        // unique_violation: someone else created the key first
+        if (error.code === '23505') return false;
+        throw new Error(error.message);
+      }
+      return true;
+    }
+
+    const { data, error } = await this.client().from(TABLE)
+      .update({ value })
+      .eq('key', key)
+      .eq('version', expectedVersion)
+      .select('key');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+}
@@ -0,0 +1,143 @@
+// Local fixture pages for trying out link capture without the internet:
+//
+//   deno run --allow-net link_fixtures.tsx [port]
+//
+// Start the API with LINK_FETCH_ALLOW_PRIVATE=true and capture a link such as
+// http://localhost:8787/article. Each page covers one case capture-link.tsx has
+// to handle; `fixtureResponse` can also be called directly from a test.
+
+const ARTICLE = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Why Weekly Reviews Work | Focus Weekly</title>
+  <meta property="og:title" content="Why weekly reviews work">
+  <meta property="og:site_name" content="Focus Weekly">
+  <meta property="og:description" content="A short look at the habit behind most productivity systems.">
+  <meta name="author" content="Dana Whitfield">
+  <meta property="article:published_time" content="2024-03-18T09:30:00Z">
+  <script type="application/ld+json">
+    {"@context": "https://schema.org", "@type": "NewsArticle", "headline": "Why weekly reviews work",
+     "author": {"@type": "Person", "name": "Dana Whitfield"}, "datePublished": "2024-03-18T09:30:00Z"}
+  </script>
+  <style>body { font-family: serif; }</style>
+</head>
+<body>
+  <header><nav><a href="/">Home</a> <a href="/topics">Topics</a> <a href="/subscribe">Subscribe to our newsletter today</a></nav></header>
+  <article>
+    <h1>Why weekly reviews work</h1>
+    <p class="byline">By <a rel="author" href="/authors/dana">Dana Whitfield</a></p>
+    <p>Most productivity systems, whatever they call it, ask you to step back once a week and look at everything you have committed to.</p>
+    <p>The review works because it closes open loops: every task, note and half-formed idea gets a decision, so nothing lingers in the back of your mind.</p>
+    <h2>Keep it short</h2>
+    <p>Thirty minutes on Friday afternoon is enough. Clear the inbox, check next week&rsquo;s calendar and pick the three outcomes that matter most.</p>
+    <figure><img src="/review.png" alt=""><figcaption>A weekly review checklist</figcaption></figure>
+    <script>trackPageView();</script>
+  </article>
+  <aside><p>Related: ten tips for a calmer inbox that you will definitely want to read next.</p></aside>
+  <footer><p>&copy; 2024 Focus Weekly. All rights reserved. Terms of service and privacy policy.</p></footer>
+</body>
+</html>`;
+
+// No metadata at all: the title, author and date come from the markup
+const MINIMAL = `<html><head><title>Release notes 2.4</title></head>
+<body>
+  <main>
+    <h1>Release notes 2.4</h1>
+    <p>Posted by <a rel="author" href="/team/sam">Sam Ortega</a> on <time datetime="2024-05-02">May 2</time></p>
+    <p>Captures can now be snoozed from the inbox, and snoozed captures come back on the chosen date.</p>
+    <ul>
+      <li>Bulk triage for up to a hundred captures at once, from the keyboard or the API.</li>
+      <li>Converting a capture to a task links the two, so you can find the original later.</li>
+    </ul>
+  </main>
+</body></html>`;
+
+const PLAIN = `Meeting notes: quarterly planning
+
+Agreed to ship the capture inbox before the end of the quarter.
+Alex Moreno owns the rollout; the review is on 2024-06-14.`;
+
+// "Café and crème brûlée" in ISO-8859-1
+const LATIN1 = new Uint8Array([
+  ...new TextEncoder().encode('<html><head><title>Caf'), 0xe9,
+  ...new TextEncoder().encode('</title></head><body><p>Caf'), 0xe9,
+  ...new TextEncoder().encode(' and cr'), 0xe8,
+  ...new TextEncoder().encode('me br'), 0xfb,
+  ...new TextEncoder().encode('l'), 0xe9,
+  ...new TextEncoder().encode('e, a menu written in an older encoding that still shows up.</p></body></html>')
+]);
+
+const SLOW_DELAY_MS = 15000;
+
+const html = (body: BodyInit, charset = 'utf-8') =>
+  new Response(body, { headers: { 'content-type': `text/html; charset=${charset}` } });
+
+const redirect = (location: string, status = 302) => new Response(null, { status, headers: { location } });
+
+// Path -> what the page tests
+export const FIXTURE_PAGES: Record<string, string> = {
+  '/article': 'Article with Open Graph, JSON-LD and page furniture to strip',
+  '/minimal': 'Page without metadata; title, author and date come from the markup',
+  '/plain': 'text/plain document',
+  '/latin1': 'HTML in ISO-8859-1',
+  '/redirect': 'Redirects to /article',
+  '/redirect-chain': 'Two redirects, ending at /article',
+  '/redirect-loop': 'Redirects to itself forever',
+  '/redirect-hops/5': 'Redirects /redirect-hops/n to n - 1 and then /article; 5 is the most followed',
+  '/redirect-to?url=http://localhost/': 'Redirects to any URL, e.g. on another host',
+  '/report.pdf': 'A PDF, which is not read',
+  '/image': 'A PNG image, which is not read',
+  '/missing': 'HTTP 404',
+  '/slow': `Answers after ${SLOW_DELAY_MS / 1000} s, past the fetch timeout`
+};
+
+export async function fixtureResponse(request: Request): Promise<Response> {
+  const { pathname, searchParams } = new URL(request.url);
+  const hops = pathname.match(/^\/redirect-hops\/(\d+)$/);
+  if (hops) {
+    const left = parseInt(hops[1], 10);
+    return redirect(left > 1 ? `/redirect-hops/${left - 1}` : '/article');
+  }
+
+  switch (pathname) {
+    case '/':
+      return html(`<ul>${Object.entries(FIXTURE_PAGES).map(([path, about]) => `<li><a href="${path}">${path}</a> ${about}</li>`).join('')}</ul>`);
+    case '/article':
+      return html(ARTICLE);
+    case '/minimal':
+      return html(MINIMAL);
+    case '/plain':
+      return new Response(PLAIN, { headers: { 'content-type': 'text/plain; charset=utf-8' } });
+    case '/latin1':
+      return html(LATIN1, 'iso-8859-1');
+    case '/redirect':
+      return redirect('/article');
+    case '/redirect-chain':
+      return redirect('/redirect', 301);
+    case '/redirect-loop':
+      return redirect('/redirect-loop');
+    case '/redirect-to':
+      return redirect(searchParams.get('url') || '/');
+    case '/report.pdf':
+      return new Response(new TextEncoder().encode('%PDF-1.4\n%fixture\n'), { headers: { 'content-type': 'application/pdf' } });
+    case '/image':
+      return new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), { headers: { 'content-type': 'image/png' } });
+    case '/slow':
+      await new Promise(resolve => {
+        const timer = setTimeout(resolve, SLOW_DELAY_MS);
+        request.signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve(null);
+        });
+      });
+      return html(ARTICLE);
+    default:
+      return new Response('Not found', { status: 404 });
+  }
+}
+
+if (import.meta.main) {
+  const port = parseInt(Deno.args[0] || '8787', 10);
+  Deno.serve({ port }, fixtureResponse);
+}
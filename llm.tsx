@@ -0,0 +1,256 @@
+// Single entry point for language model calls.
+//
+// The provider is selected with the LLM_PROVIDER environment variable:
+//   openai - OpenAI chat completions (default when OPENAI_API_KEY is set)
+//   mock   - deterministic local stub, no network (default otherwise)
+//
+// Other settings, all optional:
+//   LLM_CHAT_MODEL / LLM_ANALYSIS_MODEL - model per purpose
+//   LLM_TIMEOUT_MS     - per attempt, default 20000
+//   LLM_MAX_RETRIES    - retries after the first attempt, default 2
+//   LLM_MAX_TOKENS     - upper bound on any request's completion tokens, default 1000
+//   LLM_MAX_INPUT_TOKENS - prompt budget; the oldest messages are dropped to fit, default 6000
+import { OpenAIProvider } from './llm_openai.tsx';
+import { MockProvider } from './llm_mock.tsx';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a call is for; each purpose can run on its own model
+export type LLMPurpose = 'chat' | 'analysis';
+
+export interface CompletionRequest {
+  purpose: LLMPurpose;
+  messages: LLMMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // 'json' asks the provider for a single JSON object
+  responseFormat?: 'text' | 'json';
+}
+
+// A request after defaults and limits have been applied
+export interface ProviderRequest {
+  purpose: LLMPurpose;
+  messages: LLMMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  responseFormat: 'text' | 'json';
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+  finishReason: 'stop' | 'length' | 'other';
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult>;
+  // Yields the completion as it is generated, one text delta at a time
+  stream(request: ProviderRequest, signal: AbortSignal): AsyncIterable<string>;
+}
+
+export interface LLMConfig {
+  models: Record<LLMPurpose, string>;
+  timeoutMs: number;
+  maxRetries: number;
+  maxTokens: number;
+  maxInputTokens: number;
+}
+
+// Thrown for every provider failure. Retryable errors (timeouts, rate limits,
+// 5xx) are retried by complete() before they reach the caller.
+export class LLMError extends Error {
+  constructor(message: string, public readonly retryable: boolean = false, public readonly status?: number) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+let activeConfig: LLMConfig | null = null;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseInt(Deno.env.get(name) || '', 10);
+  return isNaN(value) ? fallback : value;
+};
+
+const createProvider = (): LLMProvider => {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const kind = Deno.env.get('LLM_PROVIDER') || (apiKey ? 'openai' : 'mock');
+  switch (kind) {
+    case 'openai':
+      if (!apiKey) {
+        throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIProvider(apiKey);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${kind}`);
+  }
+};
+
+const provider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider();
+  }
+  return activeProvider;
+};
+
+const config = (): LLMConfig => {
+  if (!activeConfig) {
+    activeConfig = {
+      models: {
+        chat: Deno.env.get('LLM_CHAT_MODEL') || 'gpt-4',
+        analysis: Deno.env.get('LLM_ANALYSIS_MODEL') || 'gpt-3.5-turbo'
+      },
+      timeoutMs: envNumber('LLM_TIMEOUT_MS', 20000),
+      maxRetries: envNumber('LLM_MAX_RETRIES', 2),
+      maxTokens: envNumber('LLM_MAX_TOKENS', 1000),
+      maxInputTokens: envNumber('LLM_MAX_INPUT_TOKENS', 6000)
+    };
+  }
+  return activeConfig;
+};
+
+// Replaces the provider chosen from the environment, e.g. with a scripted MockProvider in tests.
+export const setProvider = (next: LLMProvider): void => {
+  activeProvider = next;
+};
+
+// Overrides individual settings read from the environment.
+export const configure = (overrides: Partial<LLMConfig>): void => {
+  activeConfig = { ...config(), ...overrides };
+};
+
+// The provider and model a request would run on, e.g. to record what produced a streamed reply
+export const resolveModel = (request: Pick<CompletionRequest, 'purpose' | 'model'>): { provider: string; model: string } => ({
+  provider: provider().name,
+  model: request.model || config().models[request.purpose]
+});
+
+// Rough count for budgeting; about four characters per token for English text
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Keeps system messages and as many of the most recent others as fit the budget
+const fitToBudget = (messages: LLMMessage[], budget: number): LLMMessage[] => {
+  const system = messages.filter(m => m.role === 'system');
+  let remaining = budget - system.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+  const kept: LLMMessage[] = [];
+  for (const message of messages.filter(m => m.role !== 'system').reverse()) {
+    const cost = estimateTokens(message.content);
+    // Always keep the latest message, even if it alone is over budget
+    if (kept.length > 0 && cost > remaining) break;
+    kept.unshift(message);
+    remaining -= cost;
+  }
+  return [...system, ...kept];
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const prepare = (request: CompletionRequest, settings: LLMConfig): ProviderRequest => ({
+  purpose: request.purpose,
+  messages: fitToBudget(request.messages, settings.maxInputTokens),
+  model: request.model || settings.models[request.purpose],
+  maxTokens: Math.min(request.maxTokens ?? settings.maxTokens, settings.maxTokens),
+  temperature: request.temperature ?? 0.7,
+  responseFormat: request.responseFormat ?? 'text'
+});
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s...
+const backoff = (attempt: number) => sleep(250 * 2 ** attempt + Math.random() * 250);
+
+const toLLMError = (error: unknown): LLMError =>
+  error instanceof LLMError ? error : new LLMError(`LLM request failed: ${(error as Error)?.message}`);
+
+// Runs a completion with the configured timeout, retries and token limits.
+export const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+  const settings = config();
+  const prepared = prepare(request, settings);
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await backoff(attempt);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+    try {
+      return await provider().complete(prepared, controller.signal);
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new LLMError(`LLM request timed out after ${settings.timeoutMs}ms`, true)
+        : error;
+      if (!(lastError instanceof LLMError) || !lastError.retryable) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw toLLMError(lastError);
+};
+
+// Streams a completion as text deltas. The timeout applies to the gap between
+// deltas rather than the whole response. Failures are only retried before the
+// first delta, since after that a retry would repeat text the caller already has.
+// Aborting `signal` ends the stream quietly.
+export async function* stream(request: CompletionRequest, signal?: AbortSignal): AsyncGenerator<string> {
+  const settings = config();
+  const prepared = prepare(request, settings);
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await backoff(attempt);
+    }
+    if (signal?.aborted) return;
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+    let timer = setTimeout(cancel, settings.timeoutMs);
+    let started = false;
+
+    try {
+      for await (const delta of provider().stream(prepared, controller.signal)) {
+        clearTimeout(timer);
+        timer = setTimeout(cancel, settings.timeoutMs);
+        started = true;
+        yield delta;
+      }
+      return;
+    } catch (error) {
+      if (signal?.aborted) return;
+      lastError = controller.signal.aborted
+        ? new LLMError(`LLM stream stalled for ${settings.timeoutMs}ms`, true)
+        : error;
+      if (started || !(lastError instanceof LLMError) || !lastError.retryable) break;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  throw toLLMError(lastError);
+}
+
+// Like complete(), but asks for JSON and parses it. Code fences around the object are tolerated.
+export const completeJSON = async <T = any>(request: Omit<CompletionRequest, 'responseFormat'>): Promise<T> => {
+  const result = await complete({ ...request, responseFormat: 'json' });
+  const text = result.content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LLMError(`${result.provider} returned invalid JSON`);
+  }
+};
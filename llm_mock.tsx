@@ -0,0 +1,175 @@
+import type { CompletionResult, LLMProvider, ProviderRequest } from './llm.tsx';
+import { estimateTokens } from './llm.tsx';
+
+// Deterministic stand-in for a real model, so chat and capture analysis work offline.
+// Scripted responses are returned first, in order; after that the first matching
+// rule answers. Every request is recorded in `calls`.
+
+export interface MockRule {
+  match: (request: ProviderRequest) => boolean;
+  respond: (request: ProviderRequest) => string;
+}
+
+const lastUserMessage = (request: ProviderRequest): string =>
+  [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+
+const includesAny = (text: string, words: string[]) => words.some(word => text.includes(word));
+
+// Mirrors the JSON shape captureService asks for, using simple keyword heuristics
+const analyzeContent = (content: string) => {
+  const lower = content.toLowerCase();
+  const firstSentence = content.split(/[.!?\n]+/).find(s => s.trim().length > 0)?.trim() || content;
+
+  const category =
+    includesAny(lower, ['meeting', 'call', 'sync']) ? 'meeting' :
+    includesAny(lower, ['todo', 'need to', 'must', 'should']) ? 'task' :
+    includesAny(lower, ['idea', 'what if', 'maybe we']) ? 'idea' :
+    includesAny(lower, ['research', 'study', 'analyze']) ? 'research' :
+    includesAny(lower, ['plan', 'roadmap', 'strategy']) ? 'planning' :
+    lower.includes('@') ? 'email' : 'communication';
+
+  const priority =
+    includesAny(lower, ['urgent', 'asap', 'critical', 'deadline', 'today']) ? 'high' :
+    includesAny(lower, ['later', 'someday', 'maybe']) ? 'low' : 'medium';
+
+  return {
+    summary: firstSentence.length > 140 ? `${firstSentence.slice(0, 137)}...` : firstSentence,
+    category,
+    priority,
+    actions: category === 'meeting' ? ['Schedule follow-up'] : category === 'task' ? ['Add to task list'] : ['Review later'],
+    people: [...new Set(content.match(/\b(?:with|from|to|cc) ([A-Z][a-z]+)/g)?.map(m => m.split(' ')[1]) || [])],
+    dates: content.match(/\b(?:today|tomorrow|monday|tuesday|wednesday|thursday|friday|\d{4}-\d{2}-\d{2})\b/gi) || [],
+    projects: [],
+    tasks: content.split(/\n|;/).map(s => s.trim()).filter(s => /^(?:todo|need to|must)\b/i.test(s))
+  };
+};
+
+// Picks tool calls the way toolService's selection prompt asks for, from a few
+// command phrasings. Open tasks are listed in the prompt as "- <id>: <title>".
+const selectTools = (request: ProviderRequest) => {
+  const message = lastUserMessage(request).trim().replace(/[.!]+$/, '');
+  const system = request.messages.find(m => m.role === 'system')?.content || '';
+  const date = message.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  let match: RegExpMatchArray | null;
+
+  if ((match = message.match(/^(?:please )?(?:schedule|book) (?:a |an )?(.+?) (?:on|for) (\d{4}-\d{2}-\d{2})/i))) {
+    return [{ tool: 'create_event', args: { title: match[1], date: match[2] } }];
+  }
+  if ((match = message.match(/^(?:please )?(?:remind me to|(?:create|add) (?:a )?task:?) (.+)/i))) {
+    return [{ tool: 'create_task', args: { title: match[1].replace(/ (?:on|by) \d{4}-\d{2}-\d{2}$/, ''), ...(date && { due_date: date }) } }];
+  }
+  if ((match = message.match(/^(?:please )?(?:create|start) (?:a )?(?:new )?project:? (?:called |named )?(.+)/i))) {
+    return [{ tool: 'create_project', args: { name: match[1] } }];
+  }
+  if ((match = message.match(/^(?:please )?(?:take|save|make) (?:a )?note:? (.+)/i))) {
+    return [{ tool: 'create_note', args: { content: match[1] } }];
+  }
+  if ((match = message.match(/^(?:please )?mark (.+?) (?:as )?(?:done|complete|completed)$/i))) {
+    const title = match[1].toLowerCase();
+    const task = system.split('\n').map(line => line.match(/^- (task-\S+): (.+)$/)).find(m => m && m[2].toLowerCase().includes(title));
+    return task ? [{ tool: 'update_task', args: { taskId: task[1], updates: { status: 'completed' } } }] : [];
+  }
+  if ((match = message.match(/^(?:please )?(?:search|find|look up) (?:for )?(.+)/i))) {
+    return [{ tool: 'search', args: { query: match[1] } }];
+  }
+  return [];
+};
+
+export const DEFAULT_MOCK_RULES: MockRule[] = [
+  {
+    // Conversation titles: the first few words of the message
+    match: request => request.messages.some(m => m.role === 'system' && m.content.startsWith('Write a short title')),
+    respond: request => lastUserMessage(request).split(/\s+/).slice(0, 5).join(' ').replace(/[?.!,]+$/, '')
+  },
+  {
+    match: request => request.responseFormat === 'json' && request.messages.some(m => m.role === 'system' && m.content.includes('Available tools:')),
+    respond: request => JSON.stringify({ calls: selectTools(request) })
+  },
+  {
+    match: request => request.responseFormat === 'json' && request.purpose === 'analysis',
+    respond: request => {
+      // The analysis prompt ends with "Content: <text>"
+      const prompt = lastUserMessage(request);
+      const marker = prompt.lastIndexOf('Content:');
+      return JSON.stringify(analyzeContent(marker >= 0 ? prompt.slice(marker + 8).trim() : prompt));
+    }
+  },
+  {
+    match: request => request.responseFormat === 'json',
+    respond: () => '{}'
+  },
+  {
+    match: request => includesAny(lastUserMessage(request).toLowerCase(), ['schedule', 'calendar']),
+    respond: () => 'Block your first two hours for deep work and batch meetings in the afternoon.'
+  },
+  {
+    match: request => includesAny(lastUserMessage(request).toLowerCase(), ['task', 'todo']),
+    respond: () => 'Start with the highest-priority task that is due soonest, and split anything over two hours into smaller steps.'
+  },
+  {
+    match: request => lastUserMessage(request).toLowerCase().includes('project'),
+    respond: () => 'Check which project tasks are blocked first; unblocking them usually moves progress the most.'
+  },
+  {
+    match: () => true,
+    respond: request => `(mock) You said: "${lastUserMessage(request).slice(0, 200)}"`
+  }
+];
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly calls: ProviderRequest[] = [];
+  private script: string[];
+  private rules: MockRule[];
+  private chunkDelayMs: number;
+
+  // chunkDelayMs spaces out streamed words so clients see realistic pacing
+  constructor(options: { script?: string[]; rules?: MockRule[]; chunkDelayMs?: number } = {}) {
+    this.script = [...(options.script || [])];
+    this.rules = options.rules || DEFAULT_MOCK_RULES;
+    this.chunkDelayMs = options.chunkDelayMs ?? 30;
+  }
+
+  async complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult> {
+    if (signal.aborted) {
+      throw new Error('Request aborted');
+    }
+    this.calls.push(request);
+
+    const scripted = this.script.shift();
+    const rule = this.rules.find(r => r.match(request));
+    let content = scripted ?? rule?.respond(request) ?? '';
+
+    // Honour the token limit the same way a real model would
+    const maxChars = request.maxTokens * 4;
+    const truncated = content.length > maxChars;
+    if (truncated) {
+      content = content.slice(0, maxChars);
+    }
+
+    return {
+      content,
+      model: `mock-${request.model}`,
+      provider: this.name,
+      finishReason: truncated ? 'length' : 'stop',
+      usage: {
+        promptTokens: request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+
+  // Streams the same text complete() would return, a word at a time
+  async *stream(request: ProviderRequest, signal: AbortSignal): AsyncIterable<string> {
+    const { content } = await this.complete(request, signal);
+    for (const word of content.match(/\S+\s*/g) || []) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      if (signal.aborted) {
+        throw new Error('Request aborted');
+      }
+      yield word;
+    }
+  }
+}
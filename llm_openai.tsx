@@ -0,0 +1,91 @@
+import type { CompletionResult, LLMProvider, ProviderRequest } from './llm.tsx';
+import { LLMError } from './llm.tsx';
+
+// OpenAI chat completions. Also works with OpenAI-compatible servers via baseUrl.
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string = Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1'
+  ) {}
+
+  async complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.post(request, false, signal);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (typeof choice?.message?.content !== 'string') {
+      throw new LLMError('OpenAI API returned no content');
+    }
+
+    return {
+      content: choice.message.content,
+      model: data.model || request.model,
+      provider: this.name,
+      finishReason: choice.finish_reason === 'stop' ? 'stop' : choice.finish_reason === 'length' ? 'length' : 'other',
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens
+      }
+    };
+  }
+
+  async *stream(request: ProviderRequest, signal: AbortSignal): AsyncIterable<string> {
+    const response = await this.post(request, true, signal);
+    if (!response.body) {
+      throw new LLMError('OpenAI API returned no stream');
+    }
+
+    // The body is server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data) continue;
+        if (data === '[DONE]') return;
+
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+
+  private async post(request: ProviderRequest, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+        ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // Rate limits and server errors are worth another attempt; bad requests are not
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new LLMError(`OpenAI API error: ${response.status} ${detail.slice(0, 200)}`, retryable, response.status);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,28 @@
+// Admin command: upgrades stored records to their current schema version.
+//
+//   deno run --allow-env --allow-net --allow-read --allow-write migrate.tsx [--dry-run] [userId]
+//
+// Without a user ID every user's records are migrated. Uses the same KV_BACKEND
+// selection as the server.
+import { migrateRecords } from './migrations.tsx';
+
+const args = [...Deno.args];
+const dryRun = args.includes('--dry-run');
+const userId = args.find(arg => !arg.startsWith('--'));
+
+const prefix = userId ? `user:${userId}:` : 'user:';
+console.log(`${dryRun ? 'Checking' : 'Migrating'} records under ${prefix}`);
+
+const report = await migrateRecords(prefix, { dryRun });
+
+console.log(`Scanned ${report.scanned} records`);
+for (const [kind, count] of Object.entries(report.upgraded)) {
+  console.log(`  ${kind}: ${count} ${dryRun ? 'need upgrading' : 'upgraded'}`);
+}
+for (const failure of report.failed) {
+  console.log(`  failed ${failure.key}: ${failure.error}`);
+}
+
+if (report.failed.length > 0) {
+  Deno.exit(1);
+}
@@ -0,0 +1,181 @@
+import { assertEquals, assertStrictEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { currentVersion, DEFAULT_SETTINGS, migrateRecords, readRecord, upgradeRecord } from './migrations.tsx';
+
+// deno test migrations.test.tsx
+
+const useLocalStore = () => kv.setBackend(new LocalKVBackend());
+
+// Captures
+
+Deno.test('capture v1 moves legacy text into content and fills source and tags', () => {
+  const upgraded = upgradeRecord<any>('capture', {
+    id: 'c1',
+    text: 'Call the printer',
+    metadata: { source: 'gmail' },
+    tags: 'not-an-array'
+  });
+
+  assertEquals(upgraded.content, 'Call the printer');
+  assertEquals('text' in upgraded, false);
+  assertEquals(upgraded.source, 'gmail');
+  assertEquals(upgraded.tags, []);
+  assertEquals(upgraded.schemaVersion, currentVersion('capture'));
+});
+
+Deno.test('capture v1 keeps existing content, source and tags', () => {
+  const upgraded = upgradeRecord<any>('capture', { id: 'c1', content: 'Kept', text: 'Dropped', source: 'slack', tags: ['a'] });
+
+  assertEquals(upgraded.content, 'Kept');
+  assertEquals(upgraded.source, 'slack');
+  assertEquals(upgraded.tags, ['a']);
+});
+
+Deno.test('capture v2 puts captures without a status in the inbox', () => {
+  const upgraded = upgradeRecord<any>('capture', { id: 'c1', content: 'Old', tags: [], schemaVersion: 1 });
+
+  assertEquals(upgraded.status, 'inbox');
+  assertEquals(upgraded.schemaVersion, 2);
+});
+
+Deno.test('capture v2 keeps a status that is already set', () => {
+  const upgraded = upgradeRecord<any>('capture', { id: 'c1', content: 'Done', tags: [], status: 'archived', schemaVersion: 1 });
+
+  assertEquals(upgraded.status, 'archived');
+});
+
+// Tasks
+
+Deno.test('task v1 derives status from completed and fills the list fields', () => {
+  const completed = upgradeRecord<any>('task', { id: 't1', title: 'Ship', completed: true, created: '2024-01-02T00:00:00.000Z' });
+  const pending = upgradeRecord<any>('task', { id: 't2', title: 'Plan', completed: false, created: '2024-01-03T00:00:00.000Z' });
+
+  assertEquals(completed.status, 'completed');
+  assertEquals(completed.priority, 'medium');
+  assertEquals(completed.updated, '2024-01-02T00:00:00.000Z');
+  assertEquals(completed.dependencies, []);
+  assertEquals(completed.tags, []);
+  assertEquals(completed.schemaVersion, currentVersion('task'));
+  assertEquals(pending.status, 'pending');
+});
+
+Deno.test('task v1 keeps fields that are already set', () => {
+  const upgraded = upgradeRecord<any>('task', {
+    id: 't1',
+    status: 'in-progress',
+    priority: 'high',
+    created: '2024-01-02T00:00:00.000Z',
+    updated: '2024-02-01T00:00:00.000Z',
+    dependencies: ['t0'],
+    tags: ['client']
+  });
+
+  assertEquals(upgraded.status, 'in-progress');
+  assertEquals(upgraded.priority, 'high');
+  assertEquals(upgraded.updated, '2024-02-01T00:00:00.000Z');
+  assertEquals(upgraded.dependencies, ['t0']);
+  assertEquals(upgraded.tags, ['client']);
+});
+
+// Projects
+
+Deno.test('project v1 fills missing list and metadata fields', () => {
+  const upgraded = upgradeRecord<any>('project', { id: 'p1', name: 'Launch', team: ['sam'] });
+
+  assertEquals(upgraded.tasks, []);
+  assertEquals(upgraded.team, ['sam']);
+  assertEquals(upgraded.tags, []);
+  assertEquals(upgraded.metadata, {});
+  assertEquals(upgraded.schemaVersion, currentVersion('project'));
+});
+
+// Settings
+
+Deno.test('settings v1 converts the flat signup settings to sections', () => {
+  const upgraded = upgradeRecord<any>('settings', { ai_learning: false, notifications: true, theme: 'dark' });
+
+  assertEquals(upgraded, {
+    ...DEFAULT_SETTINGS,
+    ai: { ...DEFAULT_SETTINGS.ai, learningMode: false },
+    appearance: { ...DEFAULT_SETTINGS.appearance, darkMode: true },
+    schemaVersion: currentVersion('settings')
+  });
+});
+
+Deno.test('settings v1 turns every notification off when they were off', () => {
+  const upgraded = upgradeRecord<any>('settings', { ai_learning: true, notifications: false, theme: 'light' });
+
+  assertEquals(upgraded.notifications, {
+    dailySummary: false,
+    taskReminders: false,
+    focusBreaks: false,
+    weeklyInsights: false
+  });
+  assertEquals(upgraded.appearance.darkMode, false);
+});
+
+Deno.test('settings v1 completes sectioned settings that miss fields', () => {
+  const upgraded = upgradeRecord<any>('settings', { ai: { learningIntensity: 20 }, appearance: { darkMode: true } });
+
+  assertEquals(upgraded.ai, { ...DEFAULT_SETTINGS.ai, learningIntensity: 20 });
+  assertEquals(upgraded.appearance, { ...DEFAULT_SETTINGS.appearance, darkMode: true });
+  assertEquals(upgraded.privacy, DEFAULT_SETTINGS.privacy);
+});
+
+// Current records
+
+Deno.test('records at the current version pass through unchanged', () => {
+  const records = {
+    capture: { id: 'c1', content: 'x', tags: [], status: 'snoozed', schemaVersion: currentVersion('capture') },
+    task: { id: 't1', schemaVersion: currentVersion('task') },
+    project: { id: 'p1', schemaVersion: currentVersion('project') },
+    settings: { ...DEFAULT_SETTINGS, schemaVersion: currentVersion('settings') }
+  };
+
+  for (const [kind, record] of Object.entries(records)) {
+    assertStrictEquals(upgradeRecord(kind as keyof typeof records, record), record);
+  }
+});
+
+// Stored records
+
+Deno.test('readRecord resolves undefined for a missing key and writes nothing', async () => {
+  useLocalStore();
+
+  assertEquals(await readRecord('capture', 'user:u1:capture:missing'), undefined);
+  assertEquals(await kv.getByPrefix('user:u1:'), []);
+});
+
+Deno.test('readRecord writes the upgraded record back', async () => {
+  useLocalStore();
+  await kv.set('user:u1:capture:c1', { id: 'c1', text: 'Legacy' });
+
+  const read = await readRecord('capture', 'user:u1:capture:c1');
+
+  assertEquals(read.content, 'Legacy');
+  assertEquals(read.status, 'inbox');
+  const stored = await kv.get('user:u1:capture:c1');
+  assertEquals(stored.content, 'Legacy');
+  assertEquals(stored.status, 'inbox');
+  assertEquals(stored.schemaVersion, currentVersion('capture'));
+});
+
+Deno.test('migrateRecords upgrades out-of-date records and counts them by kind', async () => {
+  useLocalStore();
+  await kv.set('user:u1:capture:c1', { id: 'c1', content: 'Old', tags: [], schemaVersion: 1 });
+  await kv.set('user:u1:task:t1', { id: 't1', completed: false });
+  await kv.set('user:u1:settings', { ...DEFAULT_SETTINGS, schemaVersion: currentVersion('settings') });
+  await kv.set('user:u1:stats', { captures: 3 });
+
+  const dryRun = await migrateRecords('user:', { dryRun: true });
+  assertEquals(dryRun.upgraded, { capture: 1, task: 1, project: 0, settings: 0 });
+  assertEquals((await kv.get('user:u1:task:t1')).schemaVersion, undefined);
+
+  const report = await migrateRecords();
+  assertEquals(report.scanned, 3);
+  assertEquals(report.upgraded, { capture: 1, task: 1, project: 0, settings: 0 });
+  assertEquals(report.failed, []);
+  assertEquals((await kv.get('user:u1:capture:c1')).status, 'inbox');
+  assertEquals((await kv.get('user:u1:task:t1')).status, 'pending');
+});
@@ -0,0 +1,222 @@
+import * as kv from './kv_store.tsx';
+
+// Schema versioning for stored records.
+//
+// Every capture, task, project and settings record carries a `schemaVersion`.
+// Records are upgraded lazily when they are read, and can be upgraded in bulk
+// with the migrate.tsx admin command. To change a stored shape, append a
+// migration with the next version number to the record's list below; never
+// edit or reorder migrations that have already shipped.
+
+export type RecordKind = 'capture' | 'task' | 'project' | 'settings';
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (record: any) => any;
+}
+
+interface MigrationReport {
+  scanned: number;
+  upgraded: Record<RecordKind, number>;
+  failed: Array<{ key: string; error: string }>;
+}
+
+// Mirrors the defaults in Settings.tsx. The client shallow-merges settings
+// sections, so every section we return has to be complete.
+export const DEFAULT_SETTINGS = {
+  ai: {
+    learningMode: true,
+    predictiveSuggestions: true,
+    autoCategorization: true,
+    smartNotifications: false,
+    learningIntensity: 75
+  },
+  privacy: {
+    dataEncryption: true,
+    anonymousAnalytics: true,
+    localProcessing: false,
+    thirdPartySharing: true
+  },
+  notifications: {
+    dailySummary: true,
+    taskReminders: true,
+    focusBreaks: false,
+    weeklyInsights: true
+  },
+  appearance: {
+    darkMode: false,
+    interfaceDensity: 'comfortable',
+    soundEffects: true
+  },
+  advanced: {
+    syncFrequency: 60,
+    developerMode: false
+  }
+};
+
+const migrations: Record<RecordKind, Migration[]> = {
+  capture: [
+    {
+      version: 1,
+      description: 'Move legacy `text` into `content` and make sure tags is an array',
+      up: (capture) => {
+        const { text, ...rest } = capture;
+        return {
+          ...rest,
+          content: capture.content ?? text ?? '',
+          source: capture.source ?? capture.metadata?.source,
+          tags: Array.isArray(capture.tags) ? capture.tags : []
+        };
+      }
+    },
+    {
+      version: 2,
+      description: 'Put captures stored before triage existed in the inbox',
+      up: (capture) => ({ ...capture, status: capture.status ?? 'inbox' })
+    }
+  ],
+  task: [
+    {
+      version: 1,
+      description: 'Give capture-created tasks a status and the list fields project tasks have',
+      up: (task) => ({
+        ...task,
+        status: task.status ?? (task.completed ? 'completed' : 'pending'),
+        priority: task.priority ?? 'medium',
+        updated: task.updated ?? task.created,
+        dependencies: Array.isArray(task.dependencies) ? task.dependencies : [],
+        tags: Array.isArray(task.tags) ? task.tags : []
+      })
+    }
+  ],
+  project: [
+    {
+      version: 1,
+      description: 'Fill in list and metadata fields missing from early projects',
+      up: (project) => ({
+        ...project,
+        tasks: Array.isArray(project.tasks) ? project.tasks : [],
+        team: Array.isArray(project.team) ? project.team : [],
+        tags: Array.isArray(project.tags) ? project.tags : [],
+        metadata: project.metadata ?? {}
+      })
+    }
+  ],
+  settings: [
+    {
+      version: 1,
+      description: 'Convert the flat signup settings (ai_learning, notifications, theme) to the sectioned Settings shape',
+      up: (settings) => {
+        if (settings.ai && typeof settings.ai === 'object') {
+          // Already sectioned; just make sure no section is missing fields
+          return Object.fromEntries(
+            Object.entries(DEFAULT_SETTINGS).map(([section, defaults]) => [section, { ...defaults, ...settings[section] }])
+          );
+        }
+
+        const notificationsOn = settings.notifications !== false;
+        return {
+          ai: {
+            ...DEFAULT_SETTINGS.ai,
+            learningMode: settings.ai_learning ?? DEFAULT_SETTINGS.ai.learningMode,
+            predictiveSuggestions: settings.smartSuggestions ?? DEFAULT_SETTINGS.ai.predictiveSuggestions,
+            autoCategorization: settings.autoCapture ?? DEFAULT_SETTINGS.ai.autoCategorization
+          },
+          privacy: { ...DEFAULT_SETTINGS.privacy },
+          notifications: {
+            dailySummary: notificationsOn && DEFAULT_SETTINGS.notifications.dailySummary,
+            taskReminders: notificationsOn && DEFAULT_SETTINGS.notifications.taskReminders,
+            focusBreaks: notificationsOn && (settings.focusMode ?? DEFAULT_SETTINGS.notifications.focusBreaks),
+            weeklyInsights: notificationsOn && DEFAULT_SETTINGS.notifications.weeklyInsights
+          },
+          appearance: {
+            ...DEFAULT_SETTINGS.appearance,
+            darkMode: settings.theme === 'dark'
+          },
+          advanced: { ...DEFAULT_SETTINGS.advanced }
+        };
+      }
+    }
+  ]
+};
+
+// Catch mistakes in the registry at startup rather than halfway through a migration
+for (const [kind, list] of Object.entries(migrations)) {
+  list.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migrations for ${kind} must be numbered 1, 2, 3... (found ${migration.version} at position ${i + 1})`);
+    }
+  });
+}
+
+export function currentVersion(kind: RecordKind): number {
+  return migrations[kind].length;
+}
+
+// Marks a freshly built record as being in the current shape
+export function stampVersion<T extends object>(kind: RecordKind, record: T): T & { schemaVersion: number } {
+  return { ...record, schemaVersion: currentVersion(kind) };
+}
+
+export function needsUpgrade(kind: RecordKind, record: any): boolean {
+  return !!record && (record.schemaVersion ?? 0) < currentVersion(kind);
+}
+
+// Applies every pending migration in order. Returns the record untouched if it is current.
+export function upgradeRecord<T = any>(kind: RecordKind, record: T): T {
+  if (!needsUpgrade(kind, record)) return record;
+
+  let upgraded: any = record;
+  for (const migration of migrations[kind].slice(upgraded.schemaVersion ?? 0)) {
+    upgraded = { ...migration.up(upgraded), schemaVersion: migration.version };
+  }
+  return upgraded;
+}
+
+// Reads a record and, if it is out of date, writes the upgraded shape back
+export async function readRecord(kind: RecordKind, key: string): Promise<any> {
+  const record = await kv.get(key);
+  if (!needsUpgrade(kind, record)) return record;
+
+  return kv.update(key, (latest) => latest === undefined ? latest : upgradeRecord(kind, latest));
+}
+
+export function kindForKey(key: string): RecordKind | null {
+  const match = key.match(/^user:[^:]+:(?:(capture|task|project):[^:]+|(settings))$/);
+  if (!match) return null;
+  return (match[1] || match[2]) as RecordKind;
+}
+
+// Upgrades every out-of-date record under the prefix (all users by default)
+export async function migrateRecords(prefix: string = 'user:', options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    scanned: 0,
+    upgraded: { capture: 0, task: 0, project: 0, settings: 0 },
+    failed: []
+  };
+
+  let cursor: string | null = null;
+  do {
+    const page = await kv.scanByPrefix(prefix, { cursor, limit: 200 });
+    for (const entry of page.entries) {
+      const kind = kindForKey(entry.key);
+      if (!kind) continue;
+
+      report.scanned++;
+      if (!needsUpgrade(kind, entry.value)) continue;
+
+      try {
+        if (!options.dryRun) {
+          await kv.update(entry.key, (latest) => latest === undefined ? latest : upgradeRecord(kind, latest));
+        }
+        report.upgraded[kind]++;
+      } catch (error) {
+        report.failed.push({ key: entry.key, error: error.message });
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  return report;
+}
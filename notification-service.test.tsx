@@ -0,0 +1,36 @@
+import { assertEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { notificationService } from './notification-service.tsx';
+
+// deno test --allow-env notification-service.test.tsx
+
+const syncFailed = { title: 'Sync failed', message: 'Gmail stopped syncing', dedupeKey: 'sync_failed:gmail:1' };
+
+Deno.test('concurrent notifications with the same dedupe key are delivered once', async () => {
+  kv.setBackend(new LocalKVBackend());
+
+  const results = await Promise.all([
+    notificationService.notify('u1', 'sync_failed', syncFailed),
+    notificationService.notify('u1', 'sync_failed', syncFailed),
+    notificationService.notify('u1', 'sync_failed', syncFailed)
+  ]);
+
+  assertEquals(results.filter(Boolean).length, 1);
+  assertEquals((await notificationService.listNotifications('u1')).notifications.length, 1);
+  assertEquals(await notificationService.notify('u1', 'sync_failed', syncFailed), null);
+});
+
+Deno.test('a notification dismissed twice at once is dismissed once', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const notification = await notificationService.notify('u2', 'sync_failed', { title: 'Sync failed', message: 'Slack stopped syncing' });
+
+  const results = await Promise.all([
+    notificationService.dismiss('u2', notification!.id),
+    notificationService.dismiss('u2', notification!.id)
+  ]);
+
+  assertEquals(results.sort(), [false, true]);
+  assertEquals(await notificationService.getUnreadCount('u2'), 0);
+  assertEquals(await notificationService.dismiss('u2', notification!.id), false);
+});
@@ -0,0 +1,219 @@
+import * as kv from './kv_store.tsx';
+import { notificationIndex } from './kv_index.tsx';
+import { DEFAULT_SETTINGS, readRecord } from './migrations.tsx';
+import { eventBus } from './events.tsx';
+import { projectService } from './project-service.tsx';
+
+type NotificationType = 'task_overdue' | 'sync_failed' | 'capture_priority' | 'insight';
+
+interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: { tab: string; id?: string };
+  read: boolean;
+  created: string;
+  readAt?: string;
+}
+
+interface NotificationInput {
+  title: string;
+  message: string;
+  link?: Notification['link'];
+  // Notifications with the same key are only ever delivered once
+  dedupeKey?: string;
+}
+
+interface NotificationPage {
+  notifications: Notification[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+// Which user setting has to be on for each type to be delivered. Failed syncs
+// always go out because nothing else tells the user their data stopped flowing.
+const DELIVERY_RULES: Record<NotificationType, ((settings: typeof DEFAULT_SETTINGS) => boolean)> = {
+  task_overdue: settings => settings.notifications.taskReminders,
+  sync_failed: () => true,
+  capture_priority: settings => settings.ai.smartNotifications,
+  insight: settings => settings.notifications.weeklyInsights
+};
+
+// Older notifications beyond this are dropped when new ones arrive
+const MAX_NOTIFICATIONS = 100;
+
+class NotificationService {
+  // Returns the stored notification, or null if delivery rules or deduplication suppressed it
+  async notify(userId: string, type: NotificationType, input: NotificationInput): Promise<Notification | null> {
+    try {
+      if (!await this.isEnabled(userId, type)) {
+        return null;
+      }
+
+      if (input.dedupeKey) {
+        // Claimed atomically, so of two concurrent calls with the same key only one delivers
+        const sentAt = new Date().toISOString();
+        const claimed = await kv.update<string>(`user:${userId}:notification-sent:${input.dedupeKey}`, (existing) =>
+          existing ? undefined : sentAt
+        );
+        if (!claimed) {
+          return null;
+        }
+      }
+
+      const notificationId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const notification: Notification = {
+        id: notificationId,
+        userId,
+        type,
+        title: input.title,
+        message: input.message,
+        link: input.link,
+        read: false,
+        created: new Date().toISOString()
+      };
+
+      await kv.set(`user:${userId}:notification:${notificationId}`, notification);
+      await notificationIndex.sync(userId, notificationId, notification);
+      await this.prune(userId);
+
+      eventBus.publish(userId, 'notification.added', { notification });
+      return notification;
+    } catch (error) {
+      // Notifications are a side effect; they must never fail the action that raised them
+      console.log('Notify error:', error);
+      return null;
+    }
+  }
+
+  // Notification IDs embed their creation time, so descending key order is newest first
+  async listNotifications(userId: string, options: { cursor?: string | null; limit?: number; unreadOnly?: boolean } = {}): Promise<NotificationPage> {
+    try {
+      const unread = await notificationIndex.find(userId, 'read', 'false');
+
+      if (options.unreadOnly) {
+        const sorted = unread.sort((a, b) => b.id.localeCompare(a.id));
+        return { notifications: sorted.slice(0, options.limit ?? 50), nextCursor: null, unreadCount: unread.length };
+      }
+
+      const page = await kv.scanByPrefix(`user:${userId}:notification:`, {
+        cursor: options.cursor,
+        limit: options.limit ?? 50,
+        order: 'desc'
+      });
+      return {
+        notifications: page.entries.map(entry => entry.value),
+        nextCursor: page.cursor,
+        unreadCount: unread.length
+      };
+    } catch (error) {
+      console.log('List notifications error:', error);
+      if (error instanceof kv.InvalidCursorError) {
+        throw error;
+      }
+      throw new Error('Failed to fetch notifications');
+    }
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    return (await notificationIndex.find(userId, 'read', 'false')).length;
+  }
+
+  // Returns null if the notification doesn't exist
+  async markRead(userId: string, notificationId: string): Promise<Notification | null> {
+    try {
+      let current: Notification | null = null;
+      const updated = await kv.update<Notification>(`user:${userId}:notification:${notificationId}`, (existing) => {
+        current = existing ?? null;
+        if (!existing || existing.read) return undefined;
+        return { ...existing, read: true, readAt: new Date().toISOString() };
+      });
+      if (!updated) {
+        return current;
+      }
+
+      await notificationIndex.sync(userId, notificationId, updated);
+      return updated;
+    } catch (error) {
+      console.log('Mark notification read error:', error);
+      throw new Error('Failed to update notification');
+    }
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    try {
+      const unread = await notificationIndex.find(userId, 'read', 'false');
+      for (const notification of unread) {
+        await this.markRead(userId, notification.id);
+      }
+      return unread.length;
+    } catch (error) {
+      console.log('Mark all notifications read error:', error);
+      throw new Error('Failed to update notifications');
+    }
+  }
+
+  // Only one of two concurrent dismissals of the same notification returns true
+  async dismiss(userId: string, notificationId: string): Promise<boolean> {
+    try {
+      const key = `user:${userId}:notification:${notificationId}`;
+      const claimed = await kv.update<Notification & { dismissed?: boolean }>(key, (existing) =>
+        existing && !existing.dismissed ? { ...existing, dismissed: true } : undefined
+      );
+      if (!claimed) {
+        return false;
+      }
+      await kv.del(key);
+      await notificationIndex.sync(userId, notificationId, null);
+      return true;
+    } catch (error) {
+      console.log('Dismiss notification error:', error);
+      throw new Error('Failed to dismiss notification');
+    }
+  }
+
+  // There is no scheduler, so overdue tasks are checked whenever a client asks for
+  // realtime status. Each task is only reported once per due date.
+  async checkOverdueTasks(userId: string): Promise<void> {
+    try {
+      const overdue = await projectService.getOverdueTasks(userId);
+      for (const task of overdue) {
+        await this.notify(userId, 'task_overdue', {
+          title: 'Task overdue',
+          message: `"${task.title}" was due ${new Date(task.due_date!).toLocaleDateString()}`,
+          link: { tab: 'projects', id: task.id },
+          dedupeKey: `task_overdue:${task.id}:${task.due_date}`
+        });
+      }
+    } catch (error) {
+      console.log('Overdue task check error:', error);
+    }
+  }
+
+  private async isEnabled(userId: string, type: NotificationType): Promise<boolean> {
+    const settings = await readRecord('settings', `user:${userId}:settings`) || DEFAULT_SETTINGS;
+    return DELIVERY_RULES[type](settings);
+  }
+
+  private async prune(userId: string): Promise<void> {
+    const page = await kv.scanByPrefix(`user:${userId}:notification:`, { limit: MAX_NOTIFICATIONS, order: 'desc' });
+    if (!page.cursor) return;
+
+    // Everything after the newest MAX_NOTIFICATIONS goes
+    let cursor: string | null = page.cursor;
+    const stale: string[] = [];
+    while (cursor) {
+      const next = await kv.scanByPrefix(`user:${userId}:notification:`, { cursor, limit: 100, order: 'desc' });
+      stale.push(...next.entries.map(entry => entry.value.id));
+      cursor = next.cursor;
+    }
+    for (const notificationId of stale) {
+      await kv.del(`user:${userId}:notification:${notificationId}`);
+      await notificationIndex.sync(userId, notificationId, null);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
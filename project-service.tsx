@@ -1,4 +1,8 @@
 import * as kv from './kv_store.tsx';
+import { projectIndex, taskIndex } from './kv_index.tsx';
+import { embeddingIndex } from './embeddings.tsx';
+import { readRecord, stampVersion, upgradeRecord } from './migrations.tsx';
+import { eventBus } from './events.tsx';
 
 interface Project {
   id: string;
@@ -15,6 +19,7 @@ interface Project {
   updated: string;
   tags: string[];
   metadata: any;
+  schemaVersion?: number;
 }
 
 interface Task {
@@ -30,14 +35,24 @@ interface Task {
   updated: string;
   estimatedHours?: number;
   actualHours?: number;
+  completedAt?: string; // Set when the status changes to completed, cleared when it's reopened
   dependencies: string[];
   tags: string[];
+  // "capture:{id}" for tasks made from a capture
+  source?: string;
+  revision?: number; // Bumped on every write so the standalone task copy never goes backwards
+  schemaVersion?: number;
+}
+
+interface ProjectPage {
+  projects: Project[];
+  nextCursor: string | null;
 }
 
 class ProjectService {
   async getUserProjects(userId: string): Promise<Project[]> {
     try {
-      const projects = await kv.getByPrefix(`user:${userId}:project:`);
+      const projects = (await kv.getByPrefix(`user:${userId}:project:`)).map(p => upgradeRecord('project', p));
       return projects.sort((a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime());
     } catch (error) {
       console.log('Get user projects error:', error);
@@ -45,12 +60,36 @@ class ProjectService {
     }
   }
 
+  // Where tasks go when no project is given: the most recently updated active project
+  async getDefaultProject(userId: string): Promise<Project | null> {
+    return (await this.getUserProjects(userId)).find(p => p.status === 'active') ?? null;
+  }
+
+  // Project IDs embed their creation time, so descending key order is newest first
+  async listProjects(userId: string, options: { cursor?: string | null; limit?: number } = {}): Promise<ProjectPage> {
+    try {
+      const page = await kv.scanByPrefix(`user:${userId}:project:`, {
+        cursor: options.cursor,
+        limit: options.limit ?? 50,
+        order: 'desc'
+      });
+      return {
+        projects: page.entries.map(entry => upgradeRecord('project', entry.value)),
+        nextCursor: page.cursor
+      };
+    } catch (error) {
+      console.log('List projects error:', error);
+      if (error instanceof kv.InvalidCursorError) throw error;
+      throw new Error('Failed to fetch projects');
+    }
+  }
+
   async createProject(userId: string, projectData: Partial<Project>): Promise<Project> {
     try {
       const projectId = `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       const now = new Date().toISOString();
 
-      const project: Project = {
+      const project: Project = stampVersion('project', {
         id: projectId,
         userId,
         name: projectData.name || 'Untitled Project',
@@ -65,9 +104,11 @@ class ProjectService {
         updated: now,
         tags: projectData.tags || [],
         metadata: projectData.metadata || {}
-      };
+      });
 
       await kv.set(`user:${userId}:project:${projectId}`, project);
+      await projectIndex.sync(userId, projectId, project);
+      await embeddingIndex.sync(userId, 'project', projectId, project);
 
       // Create initial analytics entry
       await this.updateProjectAnalytics(userId, projectId, 'created');
@@ -81,25 +122,28 @@ class ProjectService {
 
   async updateProject(userId: string, projectId: string, updates: Partial<Project>): Promise<Project> {
     try {
-      const existing = await kv.get(`user:${userId}:project:${projectId}`);
-      if (!existing) {
-        throw new Error('Project not found');
-      }
-
-      const updated: Project = {
-        ...existing,
-        ...updates,
-        id: projectId, // Ensure ID doesn't change
-        userId, // Ensure userId doesn't change
-        updated: new Date().toISOString()
-      };
+      const updated = await kv.update<Project>(`user:${userId}:project:${projectId}`, (existing) => {
+        if (!existing) {
+          throw new Error('Project not found');
+        }
 
-      // Recalculate progress if tasks were updated
-      if (updates.tasks) {
-        updated.progress = this.calculateProgress(updated.tasks);
-      }
+        const next: Project = {
+          ...upgradeRecord('project', existing),
+          ...updates,
+          id: projectId, // Ensure ID doesn't change
+          userId, // Ensure userId doesn't change
+          updated: new Date().toISOString()
+        };
+
+        // Recalculate progress if tasks were updated
+        if (updates.tasks) {
+          next.progress = this.calculateProgress(next.tasks);
+        }
 
-      await kv.set(`user:${userId}:project:${projectId}`, updated);
+        return next;
+      });
+      await projectIndex.sync(userId, projectId, updated);
+      await embeddingIndex.sync(userId, 'project', projectId, updated);
 
       // Update analytics
       await this.updateProjectAnalytics(userId, projectId, 'updated');
@@ -113,44 +157,41 @@ class ProjectService {
 
   async getProjectById(userId: string, projectId: string): Promise<Project | null> {
     try {
-      return await kv.get(`user:${userId}:project:${projectId}`);
+      return await readRecord('project', `user:${userId}:project:${projectId}`);
     } catch (error) {
       console.log('Get project by ID error:', error);
       return null;
     }
   }
 
+  // False when there is no such project; storage failures are thrown
   async deleteProject(userId: string, projectId: string): Promise<boolean> {
     try {
-      const project = await this.getProjectById(userId, projectId);
-      if (!project) {
+      // Archive instead of delete to preserve data
+      const archived = await kv.update<Project>(`user:${userId}:project:${projectId}`, (existing) => {
+        if (!existing) return undefined;
+        return { ...upgradeRecord('project', existing), status: 'archived', updated: new Date().toISOString() };
+      });
+      if (!archived) {
         return false;
       }
 
-      // Archive instead of delete to preserve data
-      project.status = 'archived';
-      project.updated = new Date().toISOString();
-      await kv.set(`user:${userId}:project:${projectId}`, project);
-
+      await projectIndex.sync(userId, projectId, archived);
+      await embeddingIndex.sync(userId, 'project', projectId, archived);
       return true;
     } catch (error) {
       console.log('Delete project error:', error);
-      return false;
+      throw new Error('Failed to delete project');
     }
   }
 
   // Task Management
   async createTask(userId: string, projectId: string, taskData: Partial<Task>): Promise<Task> {
     try {
-      const project = await this.getProjectById(userId, projectId);
-      if (!project) {
-        throw new Error('Project not found');
-      }
-
       const taskId = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       const now = new Date().toISOString();
 
-      const task: Task = {
+      const task: Task = stampVersion('task', {
         id: taskId,
         projectId,
         title: taskData.title || 'Untitled Task',
@@ -164,18 +205,25 @@ class ProjectService {
         estimatedHours: taskData.estimatedHours,
         actualHours: taskData.actualHours || 0,
         dependencies: taskData.dependencies || [],
-        tags: taskData.tags || []
-      };
+        tags: taskData.tags || [],
+        ...(taskData.source && { source: taskData.source }),
+        revision: 1
+      });
 
       // Add task to project
-      project.tasks.push(task);
-      project.progress = this.calculateProgress(project.tasks);
-      project.updated = now;
+      await kv.update<Project>(`user:${userId}:project:${projectId}`, (stored) => {
+        if (!stored) {
+          throw new Error('Project not found');
+        }
 
-      await kv.set(`user:${userId}:project:${projectId}`, project);
+        const project = upgradeRecord('project', stored);
+        const tasks = [...project.tasks, task];
+        return { ...project, tasks, progress: this.calculateProgress(tasks), updated: now };
+      });
 
       // Also store task separately for easier querying
-      await kv.set(`user:${userId}:task:${taskId}`, task);
+      await this.syncTaskRecord(userId, task);
+      eventBus.publish(userId, 'task.changed', { action: 'created', task });
 
       return task;
     } catch (error) {
@@ -186,52 +234,144 @@ class ProjectService {
 
   async updateTask(userId: string, projectId: string, taskId: string, updates: Partial<Task>): Promise<Task> {
     try {
-      const project = await this.getProjectById(userId, projectId);
-      if (!project) {
-        throw new Error('Project not found');
-      }
+      let previousStatus: Task['status'] | undefined;
+      let updatedTask: Task | undefined;
 
-      const taskIndex = project.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) {
-        throw new Error('Task not found');
-      }
+      // Re-applied against the latest project if another write lands first
+      await kv.update<Project>(`user:${userId}:project:${projectId}`, (stored) => {
+        if (!stored) {
+          throw new Error('Project not found');
+        }
 
-      const updatedTask: Task = {
-        ...project.tasks[taskIndex],
-        ...updates,
-        id: taskId, // Ensure ID doesn't change
-        projectId, // Ensure projectId doesn't change
-        updated: new Date().toISOString()
-      };
+        const project = upgradeRecord('project', stored);
+        const taskPosition = project.tasks.findIndex(t => t.id === taskId);
+        if (taskPosition === -1) {
+          throw new Error('Task not found');
+        }
 
-      project.tasks[taskIndex] = updatedTask;
-      project.progress = this.calculateProgress(project.tasks);
-      project.updated = new Date().toISOString();
+        const existingTask = upgradeRecord('task', project.tasks[taskPosition]);
+        previousStatus = existingTask.status;
+        updatedTask = { ...this.applyTaskUpdates(existingTask, updates), projectId }; // Ensure projectId doesn't change
 
-      await kv.set(`user:${userId}:project:${projectId}`, project);
-      await kv.set(`user:${userId}:task:${taskId}`, updatedTask);
-
-      // Record analytics if task was completed
-      if (updates.status === 'completed' && project.tasks[taskIndex].status !== 'completed') {
-        const { analyticsService } = await import('./analytics-service.tsx');
-        await analyticsService.recordActivity(userId, {
-          type: 'task_complete',
-          metadata: { taskId, projectId, priority: updatedTask.priority }
-        });
+        const tasks = project.tasks.map((t, i) => i === taskPosition ? updatedTask! : t);
+        return { ...project, tasks, progress: this.calculateProgress(tasks), updated: new Date().toISOString() };
+      });
+
+      await this.syncTaskRecord(userId, updatedTask!);
+      await this.afterTaskUpdate(userId, updatedTask!, previousStatus);
+      return updatedTask!;
+    } catch (error) {
+      console.log('Update task error:', error);
+      throw new Error('Failed to update task');
+    }
+  }
+
+  // Tasks made from a capture's extracted action items have no project; their
+  // standalone record is the only copy
+  async updateStandaloneTask(userId: string, taskId: string, updates: Partial<Task>): Promise<Task | null> {
+    try {
+      let previousStatus: Task['status'] | undefined;
+      const updatedTask = await kv.update<Task>(`user:${userId}:task:${taskId}`, (stored) => {
+        if (!stored) return undefined;
+        const existingTask = upgradeRecord('task', stored);
+        previousStatus = existingTask.status;
+        const next = this.applyTaskUpdates(existingTask, updates);
+        // The capture's legacy flag is kept in step with the status
+        return 'completed' in existingTask ? { ...next, completed: next.status === 'completed' } : next;
+      });
+      if (!updatedTask) {
+        return null;
       }
 
+      await taskIndex.sync(userId, taskId, updatedTask);
+      await embeddingIndex.sync(userId, 'task', taskId, updatedTask);
+      await this.afterTaskUpdate(userId, updatedTask, previousStatus);
       return updatedTask;
     } catch (error) {
-      console.log('Update task error:', error);
+      console.log('Update standalone task error:', error);
       throw new Error('Failed to update task');
     }
   }
 
-  async getActiveTasks(userId: string, limit: number = 10): Promise<Task[]> {
+  private applyTaskUpdates(existingTask: Task, updates: Partial<Task>): Task {
+    const now = new Date().toISOString();
+    const status = updates.status ?? existingTask.status;
+    return {
+      ...existingTask,
+      ...updates,
+      id: existingTask.id, // Ensure ID doesn't change
+      completedAt: status !== 'completed' ? undefined : existingTask.status === 'completed' ? existingTask.completedAt : now,
+      updated: now,
+      revision: (existingTask.revision ?? 0) + 1
+    };
+  }
+
+  private async afterTaskUpdate(userId: string, task: Task, previousStatus: Task['status'] | undefined): Promise<void> {
+    eventBus.publish(userId, 'task.changed', { action: 'updated', task });
+
+    // Record analytics if task was completed
+    if (task.status === 'completed' && previousStatus !== 'completed') {
+      const { analyticsService } = await import('./analytics-service.tsx');
+      await analyticsService.recordActivity(userId, {
+        type: 'task_complete',
+        metadata: { taskId: task.id, projectId: task.projectId, priority: task.priority }
+      });
+    }
+  }
+
+  // False when there is no such project or task; storage failures are thrown
+  async deleteTask(userId: string, projectId: string, taskId: string): Promise<boolean> {
+    try {
+      let removed = false;
+      await kv.update<Project>(`user:${userId}:project:${projectId}`, (stored) => {
+        removed = false;
+        if (!stored) return undefined;
+
+        const project = upgradeRecord('project', stored);
+        const tasks = project.tasks.filter(t => t.id !== taskId);
+        removed = tasks.length !== project.tasks.length;
+        if (!removed) return undefined;
+
+        return { ...project, tasks, progress: this.calculateProgress(tasks), updated: new Date().toISOString() };
+      });
+
+      if (!removed) {
+        return false;
+      }
+
+      await kv.del(`user:${userId}:task:${taskId}`);
+      await taskIndex.sync(userId, taskId, null);
+      await embeddingIndex.sync(userId, 'task', taskId, null);
+      eventBus.publish(userId, 'task.changed', { action: 'deleted', taskId, projectId });
+
+      return true;
+    } catch (error) {
+      console.log('Delete task error:', error);
+      throw new Error('Failed to delete task');
+    }
+  }
+
+  // Tasks across all projects matching every given filter, newest first
+  async queryTasks(userId: string, filters: { status?: string; priority?: string; assignee?: string; tag?: string; project?: string; standalone?: string }, limit: number = 50): Promise<Task[]> {
     try {
-      const tasks = await kv.getByPrefix(`user:${userId}:task:`);
+      const tasks = await taskIndex.findAll(userId, filters) ?? await kv.getByPrefix(`user:${userId}:task:`);
       return tasks
-        .filter(task => task.status !== 'completed')
+        .map(task => upgradeRecord('task', task))
+        .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
+        .slice(0, limit);
+    } catch (error) {
+      console.log('Query tasks error:', error);
+      throw new Error('Failed to fetch tasks');
+    }
+  }
+
+  async getActiveTasks(userId: string, limit: number = 10): Promise<Task[]> {
+    try {
+      const byStatus = await Promise.all(
+        ['pending', 'in_progress', 'blocked'].map(status => taskIndex.find(userId, 'status', status))
+      );
+      return byStatus.flat()
+        .map(task => upgradeRecord('task', task))
         .sort((a, b) => {
           // Sort by priority, then by due date
           const priorityOrder = { 'high': 3, 'medium': 2, 'low': 1 };
@@ -252,20 +392,27 @@ class ProjectService {
 
   async getOverdueTasks(userId: string): Promise<Task[]> {
     try {
-      const tasks = await kv.getByPrefix(`user:${userId}:task:`);
-      const now = new Date();
-      
-      return tasks.filter(task => 
-        task.status !== 'completed' && 
-        task.due_date && 
-        new Date(task.due_date) < now
-      );
+      // Everything due before now, minus what's already done
+      const tasks = await taskIndex.findRange(userId, 'due', { to: new Date().toISOString() });
+      return tasks
+        .map(task => upgradeRecord('task', task))
+        .filter(task => task.status !== 'completed');
     } catch (error) {
       console.log('Get overdue tasks error:', error);
       return [];
     }
   }
 
+  // The project record is the source of truth; the standalone copy only moves forward,
+  // so an older write finishing late can't overwrite a newer one
+  private async syncTaskRecord(userId: string, task: Task): Promise<void> {
+    const stored = await kv.update<Task>(`user:${userId}:task:${task.id}`, (current) =>
+      current && (current.revision ?? 0) > (task.revision ?? 0) ? current : task
+    );
+    await taskIndex.sync(userId, task.id, stored);
+    await embeddingIndex.sync(userId, 'task', task.id, stored);
+  }
+
   private calculateProgress(tasks: Task[]): number {
     if (tasks.length === 0) return 0;
     
@@ -276,34 +423,36 @@ class ProjectService {
   private async updateProjectAnalytics(userId: string, projectId: string, action: string): Promise<void> {
     try {
       const analyticsKey = `user:${userId}:project_analytics:${projectId}`;
-      const analytics = await kv.get(analyticsKey) || {
-        projectId,
-        created: new Date().toISOString(),
-        actions: [],
-        metrics: {
-          totalTasks: 0,
-          completedTasks: 0,
-          timeSpent: 0,
-          teamSize: 0
-        }
-      };
+      await kv.update(analyticsKey, (current) => {
+        const analytics = current || {
+          projectId,
+          created: new Date().toISOString(),
+          actions: [],
+          metrics: {
+            totalTasks: 0,
+            completedTasks: 0,
+            timeSpent: 0,
+            teamSize: 0
+          }
+        };
 
-      analytics.actions.push({
-        action,
-        timestamp: new Date().toISOString()
-      });
+        analytics.actions.push({
+          action,
+          timestamp: new Date().toISOString()
+        });
 
-      // Keep only last 100 actions
-      analytics.actions = analytics.actions.slice(-100);
+        // Keep only last 100 actions
+        analytics.actions = analytics.actions.slice(-100);
 
-      await kv.set(analyticsKey, analytics);
+        return analytics;
+      });
     } catch (error) {
       console.log('Update project analytics error:', error);
     }
   }
 
   // Project Templates
-  async createProjectFromTemplate(userId: string, templateName: string, customization: any): Promise<Project> {
+  async createProjectFromTemplate(userId: string, templateName: string, customization: any = {}): Promise<Project> {
     try {
       const template = this.getProjectTemplate(templateName);
       if (!template) {
@@ -323,14 +472,28 @@ class ProjectService {
         await this.createTask(userId, project.id, taskTemplate);
       }
 
-      return project;
+      // Re-read so the response includes the tasks and progress just added
+      return await this.getProjectById(userId, project.id) ?? project;
     } catch (error) {
       console.log('Create project from template error:', error);
       throw new Error('Failed to create project from template');
     }
   }
 
+  getProjectTemplates(): Array<{ id: string; name: string; description: string; taskCount: number }> {
+    return Object.entries(this.getTemplates()).map(([id, template]: [string, any]) => ({
+      id,
+      name: template.name,
+      description: template.description,
+      taskCount: template.taskTemplates.length
+    }));
+  }
+
   private getProjectTemplate(templateName: string): any {
+    return this.getTemplates()[templateName];
+  }
+
+  private getTemplates(): Record<string, any> {
     const templates = {
       'ai-project': {
         name: 'AI Project Template',
@@ -368,7 +531,7 @@ class ProjectService {
       }
     };
 
-    return templates[templateName];
+    return templates;
   }
 
   // Project Insights
@@ -0,0 +1,201 @@
+import * as kv from './kv_store.tsx';
+import { upgradeRecord } from './migrations.tsx';
+
+// Finds the user's captures, tasks and projects that are relevant to a chat
+// message, so the assistant can answer from them and cite them.
+//
+// Ranking goes through a Ranker. The default is lexical (BM25 over titles and
+// text); the hybrid ranker in embeddings.tsx adds semantic similarity and is
+// swapped in with setRanker().
+
+export type SourceKind = 'capture' | 'task' | 'project';
+
+export interface RetrievalDocument {
+  id: string;
+  kind: SourceKind;
+  title: string;
+  text: string;
+  updated: string;
+}
+
+export interface RankedDocument {
+  document: RetrievalDocument;
+  score: number;
+  // Components of `score`, for rankers that blend several signals (0-1 each)
+  keyword?: number;
+  semantic?: number;
+}
+
+export interface Ranker {
+  readonly name: string;
+  // Returns the documents that match at all, best first
+  rank(userId: string, query: string, documents: RetrievalDocument[]): Promise<RankedDocument[]>;
+}
+
+// A retrieved item as the assistant cites it: `ref` is the [n] used in the reply
+export interface Source {
+  ref: number;
+  id: string;
+  kind: SourceKind;
+  title: string;
+  snippet: string;
+  score: number;
+  link: { tab: string; id: string };
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'should', 'show', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Lowercased words without punctuation or stopwords
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+// Okapi BM25. Title terms count double, since a title match is usually what the user means.
+export class LexicalRanker implements Ranker {
+  readonly name = 'lexical';
+
+  constructor(private readonly k1 = 1.2, private readonly b = 0.75) {}
+
+  async rank(_userId: string, query: string, documents: RetrievalDocument[]): Promise<RankedDocument[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || documents.length === 0) return [];
+
+    const docTokens = documents.map(doc => [...tokenize(doc.title), ...tokenize(doc.title), ...tokenize(doc.text)]);
+    const avgLength = docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of docTokens) {
+      for (const term of new Set(tokens)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    const ranked: RankedDocument[] = [];
+    documents.forEach((document, i) => {
+      const tokens = docTokens[i];
+      let score = 0;
+      for (const term of terms) {
+        const frequency = tokens.filter(token => token === term).length;
+        if (frequency === 0) continue;
+
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * tokens.length / avgLength));
+      }
+      if (score > 0) {
+        ranked.push({ document, score });
+      }
+    });
+
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+}
+
+let activeRanker: Ranker = new LexicalRanker();
+
+export const setRanker = (next: Ranker): void => {
+  activeRanker = next;
+};
+
+const SOURCE_TABS: Record<SourceKind, string> = {
+  capture: 'capture',
+  task: 'projects',
+  project: 'projects'
+};
+
+// The sentences around the first query term, so the citation shows why it matched
+const snippetFor = (text: string, query: string, length = 160): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= length) return clean;
+
+  const lower = clean.toLowerCase();
+  const hit = tokenize(query).map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - Math.floor(length / 3));
+  return `${start > 0 ? '...' : ''}${clean.slice(start, start + length).trim()}${start + length < clean.length ? '...' : ''}`;
+};
+
+// The searchable view of a stored capture, task or project. Also what gets embedded.
+export const toDocument = (kind: SourceKind, stored: any): RetrievalDocument => {
+  const record = upgradeRecord(kind, stored);
+  switch (kind) {
+    case 'capture':
+      return {
+        id: record.id,
+        kind,
+        title: record.processedContent?.summary || record.content.slice(0, 80),
+        text: [
+          record.content,
+          record.link?.title || '',
+          record.link?.text || '',
+          ...(record.attachments || []).flatMap((file: any) => [file.name, file.text || '']),
+          ...(record.tags || [])
+        ].join(' '),
+        updated: record.timestamp
+      };
+    case 'task':
+      return {
+        id: record.id,
+        kind,
+        title: record.title,
+        text: [record.description || '', record.status, ...(record.tags || [])].join(' '),
+        updated: record.updated
+      };
+    case 'project':
+      return {
+        id: record.id,
+        kind,
+        title: record.name,
+        text: [record.description || '', ...(record.tags || [])].join(' '),
+        updated: record.updated
+      };
+  }
+};
+
+class RetrievalService {
+  async loadDocuments(userId: string): Promise<RetrievalDocument[]> {
+    const [captures, tasks, projects] = await Promise.all([
+      kv.getByPrefix(`user:${userId}:capture:`),
+      kv.getByPrefix(`user:${userId}:task:`),
+      kv.getByPrefix(`user:${userId}:project:`)
+    ]);
+
+    return [
+      ...captures.map(capture => toDocument('capture', capture)),
+      ...tasks.map(task => toDocument('task', task)),
+      ...projects.filter(project => project.status !== 'archived').map(project => toDocument('project', project))
+    ];
+  }
+
+  // Top matches for the query, numbered for citation. Never throws: answering
+  // without context is better than not answering.
+  async retrieve(userId: string, query: string, limit: number = 5): Promise<Source[]> {
+    try {
+      const ranked = await activeRanker.rank(userId, query, await this.loadDocuments(userId));
+      return ranked.slice(0, limit).map(({ document, score }, i) => ({
+        ref: i + 1,
+        id: document.id,
+        kind: document.kind,
+        title: document.title,
+        snippet: snippetFor(document.text, query),
+        score: Math.round(score * 1000) / 1000,
+        link: { tab: SOURCE_TABS[document.kind], id: document.id }
+      }));
+    } catch (error) {
+      console.log('Retrieval error:', error);
+      return [];
+    }
+  }
+
+  // The block added to the system prompt
+  formatForPrompt(sources: Source[]): string {
+    if (sources.length === 0) {
+      return 'No items in the user\'s data matched this message.';
+    }
+    return sources.map(source => `[${source.ref}] (${source.kind}) ${source.title}: ${source.snippet}`).join('\n');
+  }
+}
+
+export const retrievalService = new RetrievalService();
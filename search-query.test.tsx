@@ -0,0 +1,99 @@
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import { matchesFilters, parseSearchQuery, type SearchItem, SearchQueryError } from './search-query.tsx';
+
+// deno test search-query.test.tsx
+
+const NOW = new Date('2026-10-15T12:00:00Z');
+const parse = (query: string) => parseSearchQuery(query, NOW);
+
+// Quoted phrases
+
+Deno.test('quoted text becomes a phrase and the rest free text', () => {
+  const parsed = parse('type:task priority:high due:<2026-11-01 tag:client "Q4 Roadmap" launch plan');
+
+  assertEquals(parsed.text, 'launch plan');
+  assertEquals(parsed.phrases, ['q4 roadmap']);
+  assertEquals(parsed.filters, {
+    type: ['tasks'],
+    priority: ['high'],
+    due: { from: undefined, to: '2026-10-31' },
+    tag: ['client']
+  });
+});
+
+Deno.test('empty quotes are ignored and a quoted filter value keeps its spaces', () => {
+  const parsed = parse('"" assignee:"Sam Ortega" "  "');
+
+  assertEquals(parsed.phrases, []);
+  assertEquals(parsed.filters.assignee, ['sam ortega']);
+});
+
+// Negation
+
+Deno.test('a negated filter is excluded rather than required', () => {
+  const parsed = parse('-tag:internal,draft -type:note -status:completed report');
+
+  assertEquals(parsed.text, 'report');
+  assertEquals(parsed.filters.tag, undefined);
+  assertEquals(parsed.filters.exclude, { tag: ['internal', 'draft'], type: ['notes'], status: ['completed'] });
+});
+
+Deno.test('negated words and phrases must not appear', () => {
+  const parsed = parse('budget -draft -"on hold" -https://example.com/x --verbose');
+
+  assertEquals(parsed.text, 'budget --verbose');
+  assertEquals(parsed.excluded, ['draft', 'on hold', 'https://example.com/x']);
+});
+
+Deno.test('records with an excluded value or type are left out', () => {
+  const task = (tags: string[]): SearchItem => ({ kind: 'task', bucket: 'tasks', record: { id: 't', status: 'pending', tags } });
+  const { filters } = parse('-tag:internal');
+
+  assertEquals(matchesFilters(task(['client']), filters), true);
+  assertEquals(matchesFilters(task(['client', 'internal']), filters), false);
+  assertEquals(matchesFilters(task([]), parse('-type:task').filters), false);
+  assertEquals(matchesFilters(task([]), parse('-status:pending').filters), false);
+});
+
+// Unknown facets
+
+Deno.test('unknown keys and URLs are searched as free text', () => {
+  const parsed = parse('color:blue https://example.com/a:b owner:sam');
+
+  assertEquals(parsed.text, 'color:blue https://example.com/a:b owner:sam');
+  assertEquals(parsed.filters, {});
+});
+
+Deno.test('filter names and values are case-insensitive', () => {
+  const parsed = parse('Type:Project SOURCE:Slack,Gmail');
+
+  assertEquals(parsed.filters, { type: ['projects'], source: ['slack', 'gmail'] });
+});
+
+// Dates
+
+Deno.test('date filters take relative days, comparisons and ranges', () => {
+  assertEquals(parse('due:today').filters.due, { from: '2026-10-15', to: '2026-10-15' });
+  assertEquals(parse('due:>tomorrow').filters.due, { from: '2026-10-17', to: undefined });
+  assertEquals(parse('created:2026-09-01..yesterday').filters.created, { from: '2026-09-01', to: '2026-10-14' });
+  assertEquals(parse('due:>=2026-10-01 due:<2026-11-01').filters.due, { from: '2026-10-01', to: '2026-10-31' });
+});
+
+// SearchQueryError
+
+Deno.test('invalid queries throw SearchQueryError', () => {
+  const cases: Array<[string, string]> = [
+    ['type:meeting', 'Unknown type "meeting"; use task, capture, note or project'],
+    ['type:task,event', 'Unknown type "event"; use task, capture, note or project'],
+    ['-type:event', 'Unknown type "event"; use task, capture, note or project'],
+    ['due:next-week', 'Invalid date in due:next-week; use YYYY-MM-DD, today, tomorrow or yesterday'],
+    ['created:2026-13-01', 'Invalid date in created:2026-13-01; use YYYY-MM-DD, today, tomorrow or yesterday'],
+    ['due:2026-10-01..soon', 'Invalid date in due:2026-10-01..soon; use YYYY-MM-DD, today, tomorrow or yesterday'],
+    ['-due:today', "due: can't be negated; use type, priority, status, tag, source or assignee"],
+    ['-project:launch', "project: can't be negated; use type, priority, status, tag, source or assignee"]
+  ];
+
+  for (const [query, message] of cases) {
+    assertThrows(() => parse(query), SearchQueryError, message);
+  }
+});
@@ -0,0 +1,320 @@
+// The search box's query language, e.g.
+//   type:task priority:high due:<2026-11-01 tag:client "roadmap"
+//
+// Supported filters (values are case-insensitive; commas mean "any of"):
+//   type:     task, capture, note, project
+//   priority, status, tag, source, assignee
+//   project:  a project ID or part of its name
+//   due, created: a date (YYYY-MM-DD, today, tomorrow, yesterday), optionally
+//             prefixed with <, <=, > or >=, or a range a..b (inclusive)
+// Quoted text must appear verbatim. Anything else, including unknown key:value
+// pairs such as URLs, is searched as free text.
+//
+// A leading - excludes: -tag:internal drops records with that tag (type and the
+// list filters other than project can be negated), and -draft or -"on hold"
+// drops records whose text contains it.
+
+export type SearchBucket = 'captures' | 'projects' | 'tasks' | 'notes';
+
+// Inclusive YYYY-MM-DD bounds
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface SearchFilters {
+  type?: SearchBucket[];
+  priority?: string[];
+  status?: string[];
+  tag?: string[];
+  source?: string[];
+  assignee?: string[];
+  project?: string[];
+  due?: DateRange;
+  created?: DateRange;
+  // Negated filters: a record with any of these values is left out
+  exclude?: ExcludedFilters;
+}
+
+export type ExcludedFilters = Partial<Record<'type' | 'priority' | 'status' | 'tag' | 'source' | 'assignee', string[]>>;
+
+export interface ParsedSearchQuery {
+  // Free text, ranked by keyword and semantic similarity
+  text: string;
+  phrases: string[];
+  // Words and phrases that must not appear
+  excluded: string[];
+  filters: SearchFilters;
+}
+
+// A candidate record and the results bucket it belongs in
+export interface SearchItem {
+  kind: 'capture' | 'task' | 'project';
+  bucket: SearchBucket;
+  record: any;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  // Display name where the value is an ID (projects)
+  label?: string;
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const LIST_FILTERS = ['priority', 'status', 'tag', 'source', 'assignee', 'project'] as const;
+const NEGATABLE_FILTERS = ['priority', 'status', 'tag', 'source', 'assignee'] as const;
+const DATE_FILTERS = ['due', 'created'] as const;
+
+const TYPE_BUCKETS: Record<string, SearchBucket> = {
+  task: 'tasks',
+  tasks: 'tasks',
+  capture: 'captures',
+  captures: 'captures',
+  note: 'notes',
+  notes: 'notes',
+  project: 'projects',
+  projects: 'projects'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+const parseDate = (value: string, today: string): string | null => {
+  switch (value) {
+    case 'today': return today;
+    case 'tomorrow': return shiftDate(today, 1);
+    case 'yesterday': return shiftDate(today, -1);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) return null;
+  return value;
+};
+
+const parseDateRange = (key: string, expression: string, today: string): DateRange => {
+  const invalid = () => new SearchQueryError(`Invalid date in ${key}:${expression}; use YYYY-MM-DD, today, tomorrow or yesterday`);
+  const date = (value: string) => {
+    const parsed = parseDate(value, today);
+    if (!parsed) throw invalid();
+    return parsed;
+  };
+
+  const range = expression.match(/^(.+)\.\.(.+)$/);
+  if (range) {
+    return { from: date(range[1]), to: date(range[2]) };
+  }
+  const comparison = expression.match(/^(<=|>=|<|>)?(.+)$/);
+  if (!comparison) throw invalid();
+
+  const value = date(comparison[2]);
+  switch (comparison[1]) {
+    case '<': return { to: shiftDate(value, -1) };
+    case '<=': return { to: value };
+    case '>': return { from: shiftDate(value, 1) };
+    case '>=': return { from: value };
+    default: return { from: value, to: value };
+  }
+};
+
+const TOKEN_PATTERN = /(-?)(\w+):(?:"([^"]*)"|(\S+))|(-?)"([^"]*)"|(\S+)/g;
+
+const typeBuckets = (raw: string): SearchBucket[] =>
+  raw.split(',').filter(Boolean).map(type => {
+    if (!TYPE_BUCKETS[type]) {
+      throw new SearchQueryError(`Unknown type "${type}"; use task, capture, note or project`);
+    }
+    return TYPE_BUCKETS[type];
+  });
+
+export function parseSearchQuery(query: string, now: Date = new Date()): ParsedSearchQuery {
+  const today = now.toISOString().slice(0, 10);
+  const words: string[] = [];
+  const phrases: string[] = [];
+  const excluded: string[] = [];
+  const filters: SearchFilters = {};
+
+  for (const [token, negatedKey, key, quotedValue, value, negatedPhrase, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) (negatedPhrase ? excluded : phrases).push(phrase.trim().toLowerCase());
+      continue;
+    }
+    if (word !== undefined) {
+      if (/^-[^-]/.test(word)) {
+        excluded.push(word.slice(1).toLowerCase());
+      } else {
+        words.push(word);
+      }
+      continue;
+    }
+
+    const name = key.toLowerCase();
+    const raw = (quotedValue ?? value).trim().toLowerCase();
+    if (negatedKey) {
+      const exclude = filters.exclude ??= {};
+      if (name === 'type') {
+        exclude.type = [...new Set([...(exclude.type || []), ...typeBuckets(raw)])];
+      } else if ((NEGATABLE_FILTERS as readonly string[]).includes(name)) {
+        const field = name as typeof NEGATABLE_FILTERS[number];
+        exclude[field] = [...(exclude[field] || []), ...raw.split(',').map(v => v.trim()).filter(Boolean)];
+      } else if ((LIST_FILTERS as readonly string[]).includes(name) || (DATE_FILTERS as readonly string[]).includes(name)) {
+        throw new SearchQueryError(`${name}: can't be negated; use type, priority, status, tag, source or assignee`);
+      } else {
+        excluded.push(token.slice(1).toLowerCase());
+      }
+    } else if (name === 'type') {
+      filters.type = [...new Set([...(filters.type || []), ...typeBuckets(raw)])];
+    } else if ((LIST_FILTERS as readonly string[]).includes(name)) {
+      const field = name as typeof LIST_FILTERS[number];
+      filters[field] = [...(filters[field] || []), ...raw.split(',').map(v => v.trim()).filter(Boolean)];
+    } else if ((DATE_FILTERS as readonly string[]).includes(name)) {
+      const range = parseDateRange(name, raw, today);
+      const field = name as typeof DATE_FILTERS[number];
+      // Repeating a date filter narrows it, e.g. due:>=2026-10-01 due:<2026-11-01
+      const previous = filters[field] || {};
+      filters[field] = {
+        from: [previous.from, range.from].filter(Boolean).sort().pop(),
+        to: [previous.to, range.to].filter(Boolean).sort()[0]
+      };
+    } else {
+      words.push(token);
+    }
+  }
+
+  return { text: words.join(' '), phrases, excluded, filters };
+}
+
+// The `filters` object accepted next to the query. Values in the query win.
+export function mergeFilters(body: Record<string, string | undefined> | undefined, parsed: SearchFilters): SearchFilters {
+  const merged: SearchFilters = {};
+  if (body?.type) {
+    merged.type = [body.type as SearchBucket];
+  }
+  for (const field of LIST_FILTERS) {
+    if (body?.[field]) {
+      merged[field] = [body[field]!.toLowerCase()];
+    }
+  }
+  return { ...merged, ...parsed };
+}
+
+const lower = (values: Array<string | undefined | null>): string[] =>
+  values.filter((value): value is string => typeof value === 'string' && value.length > 0).map(value => value.toLowerCase());
+
+const toDay = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+// A record's values for a filter or facet. Kinds without the field return [],
+// so e.g. assignee:sam only ever matches tasks.
+export function fieldValues(item: SearchItem, field: string): string[] {
+  const { kind, record } = item;
+  switch (field) {
+    case 'priority':
+      return lower([kind === 'capture' ? record.processedContent?.priority : record.priority]);
+    case 'status':
+      // Tasks created from captures only carry a `completed` flag
+      return kind === 'capture' ? [] : lower([record.status || (record.completed ? 'completed' : 'pending')]);
+    case 'tag':
+      return lower(record.tags || []);
+    case 'source':
+      return kind === 'capture' ? lower([record.source]) : [];
+    case 'assignee':
+      return kind === 'task' ? lower([record.assignee]) : [];
+    case 'project':
+      // IDs for tasks and projects; captures only know the project names found in them
+      return kind === 'task' ? [record.projectId].filter(Boolean)
+        : kind === 'project' ? [record.id]
+        : lower(record.processedContent?.extractedEntities?.projects || []);
+    case 'due':
+      return [toDay(kind === 'task' ? record.due_date : kind === 'project' ? record.deadline : undefined)].filter(Boolean) as string[];
+    case 'created':
+      return [toDay(kind === 'capture' ? record.timestamp : record.created)].filter(Boolean) as string[];
+    default:
+      return [];
+  }
+}
+
+// The IDs and lowercased names of the projects a project: filter refers to
+export function resolveProjectScope(values: string[], projects: any[]): Set<string> {
+  const scope = new Set<string>();
+  for (const project of projects) {
+    const name = (project.name || '').toLowerCase();
+    if (values.some(value => value === project.id || (value.length > 0 && name.includes(value)))) {
+      scope.add(project.id);
+      scope.add(name);
+    }
+  }
+  return scope;
+}
+
+// Every filter except type, which selects the buckets that are returned; a
+// negated type does leave records out here
+export function matchesFilters(item: SearchItem, filters: SearchFilters, projectScope?: Set<string>): boolean {
+  const exclude = filters.exclude || {};
+  if (exclude.type?.includes(item.bucket)) return false;
+  for (const field of NEGATABLE_FILTERS) {
+    const unwanted = exclude[field];
+    if (unwanted?.length && fieldValues(item, field).some(value => unwanted.includes(value))) return false;
+  }
+
+  for (const field of LIST_FILTERS) {
+    const wanted = filters[field];
+    if (!wanted?.length) continue;
+
+    const values = fieldValues(item, field);
+    const matched = field === 'project'
+      ? values.some(value => projectScope?.has(value))
+      : values.some(value => wanted.includes(value));
+    if (!matched) return false;
+  }
+
+  for (const field of DATE_FILTERS) {
+    const range = filters[field];
+    if (!range || (!range.from && !range.to)) continue;
+
+    const inRange = fieldValues(item, field).some(day =>
+      (!range.from || day >= range.from) && (!range.to || day <= range.to)
+    );
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+const FACET_FIELDS = ['priority', 'status', 'source', 'tag', 'project'];
+const MAX_FACET_VALUES = 10;
+
+// Value counts over the matched items, most common first
+export function computeFacets(items: SearchItem[], projectNames: Map<string, string>): Record<string, FacetValue[]> {
+  const count = (values: (item: SearchItem) => string[]) => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      for (const value of new Set(values(item))) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_FACET_VALUES)
+      .map(([value, count]) => ({ value, count }));
+  };
+
+  const facets: Record<string, FacetValue[]> = { type: count(item => [item.bucket]) };
+  for (const field of FACET_FIELDS) {
+    // Only task and project IDs can be named; capture project names are free-form
+    const values = field === 'project'
+      ? (item: SearchItem) => item.kind === 'capture' ? [] : fieldValues(item, field)
+      : (item: SearchItem) => fieldValues(item, field);
+    facets[field] = count(values);
+  }
+  facets.project = facets.project.map(facet => ({ ...facet, label: projectNames.get(facet.value) || facet.value }));
+  return facets;
+}
@@ -0,0 +1,59 @@
+import { assertEquals } from 'jsr:@std/assert';
+import * as kv from './kv_store.tsx';
+import { LocalKVBackend } from './kv_local.tsx';
+import { taskIndex } from './kv_index.tsx';
+import { projectService } from './project-service.tsx';
+import { toolRegistry } from './tool-service.tsx';
+
+// deno test --allow-env tool-service.test.tsx
+
+const updateTask = toolRegistry.get('update_task')!;
+
+Deno.test('update_task updates a task made from a capture, which has no project', async () => {
+  kv.setBackend(new LocalKVBackend());
+  // As stored by captureService.createTasksFromCapture
+  await kv.set('user:u1:task:t1', {
+    id: 't1',
+    title: 'Send the report',
+    source: 'capture:c1',
+    status: 'pending',
+    priority: 'medium',
+    tags: [],
+    created: '2024-01-02T00:00:00.000Z',
+    completed: false
+  });
+
+  const result = await updateTask.run('u1', { taskId: 't1', updates: { status: 'completed' } });
+
+  assertEquals(result.summary, 'Updated task "Send the report"');
+  const stored = await kv.get('user:u1:task:t1');
+  assertEquals(stored.status, 'completed');
+  assertEquals(stored.completed, true);
+  assertEquals(stored.projectId, undefined);
+  assertEquals(typeof stored.completedAt, 'string');
+  assertEquals((await taskIndex.find('u1', 'status', 'completed')).map(task => task.id), ['t1']);
+});
+
+Deno.test('update_task still updates a project task inside its project', async () => {
+  kv.setBackend(new LocalKVBackend());
+  const project = await projectService.createProject('u2', { name: 'Launch' });
+  const task = await projectService.createTask('u2', project.id, { title: 'Write the post' });
+
+  await updateTask.run('u2', { taskId: task.id, updates: { priority: 'high' } });
+
+  const stored = await kv.get(`user:u2:project:${project.id}`);
+  assertEquals(stored.tasks[0].priority, 'high');
+  assertEquals((await kv.get(`user:u2:task:${task.id}`)).priority, 'high');
+});
+
+Deno.test('update_task fails for a task that does not exist', async () => {
+  kv.setBackend(new LocalKVBackend());
+
+  let message = '';
+  try {
+    await updateTask.run('u3', { taskId: 'missing', updates: { status: 'completed' } });
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  assertEquals(message, 'Task not found');
+});
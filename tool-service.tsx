@@ -0,0 +1,320 @@
+import { z, ZodObject, ZodOptional, ZodRawShape } from 'npm:zod@3';
+import * as kv from './kv_store.tsx';
+import * as llm from './llm.tsx';
+import { projectService } from './project-service.tsx';
+import { captureService } from './capture-service.tsx';
+import {
+  createEventToolSchema,
+  createNoteToolSchema,
+  createProjectToolSchema,
+  createTaskToolSchema,
+  fieldErrors,
+  updateTaskToolSchema
+} from './validation.tsx';
+
+// Operations the assistant can perform on the user's behalf. The model only ever
+// proposes a call; nothing runs until the user confirms it in the chat.
+
+export interface ToolResult {
+  // One sentence for the chat, e.g. 'Created task "Send report"'
+  summary: string;
+  data?: any;
+}
+
+type ToolSchema = ZodObject<ZodRawShape>;
+
+export interface AITool<Schema extends ToolSchema = ToolSchema> {
+  name: string;
+  description: string;
+  // Validates the arguments; field descriptions are shown to the model
+  parameters: Schema;
+  // Shown in the confirmation prompt, e.g. 'Create task "Send report"'
+  describe: (args: z.infer<Schema>) => string;
+  run: (userId: string, args: z.infer<Schema>) => Promise<ToolResult>;
+}
+
+type ToolCallStatus = 'pending' | 'running' | 'completed' | 'failed' | 'rejected';
+
+interface ToolCall {
+  id: string;
+  userId: string;
+  tool: string;
+  args: any;
+  summary: string;
+  status: ToolCallStatus;
+  // The thread the outcome is reported to
+  conversationId?: string;
+  result?: ToolResult;
+  error?: string;
+  created: string;
+  resolved?: string;
+}
+
+// Thrown when a proposed call names an unknown tool or its arguments don't validate
+export class InvalidToolCallError extends Error {
+  constructor(message: string, public readonly fields?: Record<string, string[]>) {
+    super(message);
+    this.name = 'InvalidToolCallError';
+  }
+}
+
+// Thrown when confirming or rejecting a call that was already resolved
+export class ToolCallResolvedError extends Error {
+  constructor(public readonly status: ToolCallStatus) {
+    super(`Tool call is already ${status}`);
+    this.name = 'ToolCallResolvedError';
+  }
+}
+
+export class ToolRegistry {
+  private tools: Map<string, AITool> = new Map();
+
+  register<Schema extends ToolSchema>(tool: AITool<Schema>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool as unknown as AITool);
+  }
+
+  get(name: string): AITool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): AITool[] {
+    return [...this.tools.values()];
+  }
+
+  // One line per tool with its arguments, for the tool selection prompt
+  describeAll(): string {
+    return this.list().map(tool => {
+      const args = Object.entries(tool.parameters.shape).map(([key, schema]) =>
+        `${key}${schema instanceof ZodOptional ? '?' : ''}: ${schema.description || ''}`
+      );
+      return `- ${tool.name}: ${tool.description} Arguments: { ${args.join('; ')} }`;
+    }).join('\n');
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
+
+// Tasks need a project; without an explicit one they go to the default project
+const resolveProjectId = async (userId: string, projectId?: string): Promise<string> => {
+  if (projectId) return projectId;
+  const active = await projectService.getDefaultProject(userId);
+  if (!active) {
+    throw new Error('There is no active project to add the task to');
+  }
+  return active.id;
+};
+
+toolRegistry.register({
+  name: 'create_task',
+  description: 'Create a task, e.g. for "remind me to..." or "add a task...".',
+  parameters: createTaskToolSchema,
+  describe: args => `Create task "${args.title}"${args.due_date ? ` due ${args.due_date}` : ''}`,
+  run: async (userId, args) => {
+    const { projectId, ...taskData } = args;
+    const task = await projectService.createTask(userId, await resolveProjectId(userId, projectId), taskData);
+    return { summary: `Created task "${task.title}"`, data: { task } };
+  }
+});
+
+// There is no calendar store, so events are dated tasks tagged "event"
+toolRegistry.register({
+  name: 'create_event',
+  description: 'Put a meeting or event on a specific date.',
+  parameters: createEventToolSchema,
+  describe: args => `Add event "${args.title}" on ${new Date(args.date).toLocaleDateString()}`,
+  run: async (userId, args) => {
+    const task = await projectService.createTask(userId, await resolveProjectId(userId, args.projectId), {
+      title: args.title,
+      due_date: args.date,
+      tags: ['event']
+    });
+    return { summary: `Added "${task.title}" on ${new Date(args.date).toLocaleDateString()}`, data: { task } };
+  }
+});
+
+toolRegistry.register({
+  name: 'update_task',
+  description: 'Change an existing task, e.g. mark it completed or move its due date.',
+  parameters: updateTaskToolSchema,
+  describe: args => `Update task ${args.taskId}: ${Object.entries(args.updates).map(([k, v]) => `${k} → ${v}`).join(', ')}`,
+  run: async (userId, args) => {
+    const existing = await kv.get(`user:${userId}:task:${args.taskId}`);
+    if (!existing) {
+      throw new Error('Task not found');
+    }
+    // Tasks made from captures have no project
+    const task = existing.projectId
+      ? await projectService.updateTask(userId, existing.projectId, args.taskId, args.updates)
+      : await projectService.updateStandaloneTask(userId, args.taskId, args.updates);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+    return { summary: `Updated task "${task.title}"`, data: { task } };
+  }
+});
+
+toolRegistry.register({
+  name: 'create_note',
+  description: 'Save a note to the capture inbox.',
+  parameters: createNoteToolSchema,
+  describe: args => `Save note "${args.content.length > 60 ? `${args.content.slice(0, 57)}...` : args.content}"`,
+  run: async (userId, args) => {
+    const capture = await captureService.processCapture(userId, { type: 'note', content: args.content, source: 'assistant' });
+    return { summary: `Saved a note: ${capture.processedContent.summary}`, data: { capture } };
+  }
+});
+
+toolRegistry.register({
+  name: 'create_project',
+  description: 'Start a new project.',
+  parameters: createProjectToolSchema,
+  describe: args => `Create project "${args.name}"`,
+  run: async (userId, args) => {
+    const project = await projectService.createProject(userId, args);
+    return { summary: `Created project "${project.name}"`, data: { project } };
+  }
+});
+
+class ToolService {
+  // Validates a call and stores it as pending until the user confirms or rejects it
+  async propose(userId: string, toolName: string, args: unknown, conversationId?: string): Promise<ToolCall> {
+    const tool = toolRegistry.get(toolName);
+    if (!tool) {
+      throw new InvalidToolCallError(`Unknown tool: ${toolName}`, { tool: [`Must be one of: ${toolRegistry.list().map(t => t.name).join(', ')}`] });
+    }
+
+    const parsed = tool.parameters.safeParse(args);
+    if (!parsed.success) {
+      // Field paths are reported relative to the request body, like every other validation error
+      const fields = Object.entries(fieldErrors(parsed.error)).map(([path, messages]) => [`args.${path}`, messages]);
+      throw new InvalidToolCallError('Invalid tool arguments', Object.fromEntries(fields));
+    }
+
+    try {
+      const toolCallId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const toolCall: ToolCall = {
+        id: toolCallId,
+        userId,
+        tool: tool.name,
+        args: parsed.data,
+        summary: tool.describe(parsed.data),
+        status: 'pending',
+        conversationId,
+        created: new Date().toISOString()
+      };
+
+      await kv.set(`user:${userId}:tool-call:${toolCallId}`, toolCall);
+      return toolCall;
+    } catch (error) {
+      console.log('Propose tool call error:', error);
+      throw new Error('Failed to propose tool call');
+    }
+  }
+
+  // Asks the model which tools, if any, the message calls for. Calls with unknown
+  // tools or bad arguments are dropped rather than shown to the user.
+  async proposeFromMessage(userId: string, message: string, conversationId?: string): Promise<ToolCall[]> {
+    let calls: Array<{ tool: string; args: unknown }> = [];
+    try {
+      const result = await llm.completeJSON<{ calls?: typeof calls }>({
+        purpose: 'analysis',
+        messages: [
+          { role: 'system', content: await this.buildSelectionPrompt(userId) },
+          { role: 'user', content: message }
+        ],
+        maxTokens: 300,
+        temperature: 0
+      });
+      calls = Array.isArray(result.calls) ? result.calls.slice(0, 3) : [];
+    } catch (error) {
+      console.log('Tool selection error:', error);
+      return [];
+    }
+
+    const proposed: ToolCall[] = [];
+    for (const call of calls) {
+      try {
+        proposed.push(await this.propose(userId, call.tool, call.args, conversationId));
+      } catch (error) {
+        console.log('Dropped tool call:', call.tool, error);
+      }
+    }
+    return proposed;
+  }
+
+  async getToolCall(userId: string, toolCallId: string): Promise<ToolCall | null> {
+    return await kv.get(`user:${userId}:tool-call:${toolCallId}`);
+  }
+
+  // Runs a pending call. Returns null if it doesn't exist. A failing tool is recorded
+  // on the call (status 'failed') rather than thrown, so the chat can report it.
+  async confirm(userId: string, toolCallId: string): Promise<ToolCall | null> {
+    const key = `user:${userId}:tool-call:${toolCallId}`;
+    const claimed = await this.transition(key, 'running');
+    if (!claimed) {
+      return null;
+    }
+
+    let outcome: Partial<ToolCall>;
+    try {
+      const result = await toolRegistry.get(claimed.tool)!.run(userId, claimed.args);
+      outcome = { status: 'completed', result };
+    } catch (error) {
+      console.log(`Tool ${claimed.tool} error:`, error);
+      outcome = { status: 'failed', error: (error as Error).message || 'Tool failed' };
+    }
+
+    return await kv.update<ToolCall>(key, (current) => ({ ...current!, ...outcome, resolved: new Date().toISOString() }));
+  }
+
+  async reject(userId: string, toolCallId: string): Promise<ToolCall | null> {
+    const key = `user:${userId}:tool-call:${toolCallId}`;
+    const rejected = await this.transition(key, 'rejected');
+    if (!rejected) {
+      return null;
+    }
+    return await kv.update<ToolCall>(key, (current) => ({ ...current!, resolved: new Date().toISOString() }));
+  }
+
+  // Moves a pending call to `status`. The compare-and-set makes sure a call that is
+  // confirmed twice (e.g. a double click) only runs once.
+  private async transition(key: string, status: ToolCallStatus): Promise<ToolCall | null> {
+    let resolvedAs: ToolCallStatus | null = null;
+    const updated = await kv.update<ToolCall>(key, (current) => {
+      if (!current) return undefined;
+      if (current.status !== 'pending') {
+        resolvedAs = current.status;
+        return undefined;
+      }
+      return { ...current, status };
+    });
+
+    if (resolvedAs) {
+      throw new ToolCallResolvedError(resolvedAs);
+    }
+    return updated ?? null;
+  }
+
+  // The model sees the tools and the user's open tasks, so it can refer to tasks by ID
+  private async buildSelectionPrompt(userId: string): Promise<string> {
+    const openTasks = (await projectService.getActiveTasks(userId, 20))
+      .map(task => `- ${task.id}: ${task.title}`)
+      .join('\n');
+
+    return `You decide whether the user's message asks you to do something with one of these tools.
+
+Available tools:
+${toolRegistry.describeAll()}
+
+Open tasks:
+${openTasks || '(none)'}
+
+Today is ${new Date().toISOString().split('T')[0]}.
+Reply with a JSON object {"calls": [{"tool": "<name>", "args": {...}}]}. Only include calls the user clearly asked for; reply {"calls": []} for questions and conversation.`;
+  }
+}
+
+export const toolService = new ToolService();
@@ -0,0 +1,75 @@
+// Speech-to-text for voice captures and the assistant's voice input.
+//
+// The transcriber is selected with the TRANSCRIBER environment variable:
+//   local (default) - no speech recognition on the server: returns what the
+//                     browser's own speech recognition heard while recording
+//                     (the request's `hint`), or an empty transcript
+//
+// A real speech-to-text service plugs in by implementing Transcriber and adding
+// a case to createTranscriber (or calling setTranscriber).
+import { LocalTranscriber } from './transcriber_local.tsx';
+
+export interface TranscriptionRequest {
+  audio: Uint8Array;
+  contentType: string;
+  // BCP 47 tag such as "en-US"; transcribers detect the language when it's missing
+  language?: string;
+  // Text the browser's speech recognition produced while recording, if it has one
+  hint?: string;
+  durationMs?: number;
+}
+
+export interface Transcript {
+  // Empty when nothing intelligible was said (or the transcriber can't tell)
+  text: string;
+  language?: string;
+  // Name of the transcriber that produced it
+  transcriber: string;
+}
+
+export interface Transcriber {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<Transcript>;
+}
+
+// Thrown for every transcriber failure
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+let activeTranscriber: Transcriber | null = null;
+
+const createTranscriber = (): Transcriber => {
+  const kind = Deno.env.get('TRANSCRIBER') || 'local';
+  switch (kind) {
+    case 'local':
+      return new LocalTranscriber();
+    default:
+      throw new Error(`Unknown TRANSCRIBER: ${kind}`);
+  }
+};
+
+export const transcriber = (): Transcriber => {
+  if (!activeTranscriber) {
+    activeTranscriber = createTranscriber();
+  }
+  return activeTranscriber;
+};
+
+// Replaces the transcriber chosen from the environment, e.g. with a fake in tests.
+export const setTranscriber = (next: Transcriber): void => {
+  activeTranscriber = next;
+};
+
+export async function transcribe(request: TranscriptionRequest): Promise<Transcript> {
+  try {
+    const result = await transcriber().transcribe(request);
+    return { ...result, text: result.text.trim() };
+  } catch (error) {
+    if (error instanceof TranscriptionError) throw error;
+    throw new TranscriptionError(`Transcription failed: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,16 @@
+import type { Transcriber, TranscriptionRequest, Transcript } from './transcriber.tsx';
+
+// Stand-in for a speech-to-text service, so voice capture works end to end with
+// no network or model. It doesn't listen to the audio: the transcript is the
+// browser's own speech recognition result when the client sent one, else empty.
+export class LocalTranscriber implements Transcriber {
+  readonly name = 'local';
+
+  async transcribe(request: TranscriptionRequest): Promise<Transcript> {
+    return {
+      text: (request.hint || '').replace(/\s+/g, ' ').trim(),
+      ...(request.language && { language: request.language }),
+      transcriber: this.name
+    };
+  }
+}
@@ -0,0 +1,472 @@
+import { z, ZodError, ZodTypeAny } from 'npm:zod@3';
+import { Context, Next } from 'npm:hono';
+
+// Request validation for the API routes.
+//
+// Every 4xx response uses the same envelope:
+//   { error: string, code: string, fields?: { [path]: string[] } }
+// `fields` is only present for validation failures and maps a dotted path into
+// the request (e.g. "operations.0.data.content") to its messages.
+
+export type ErrorCode =
+  | 'invalid_json'
+  | 'invalid_form'
+  | 'validation_failed'
+  | 'invalid_cursor'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'length_required'
+  | 'payload_too_large'
+  | 'bad_request';
+
+export function clientError(
+  c: Context,
+  status: 400 | 401 | 403 | 404 | 411 | 413,
+  code: ErrorCode,
+  message: string,
+  fields?: Record<string, string[]>
+) {
+  return c.json(fields ? { error: message, code, fields } : { error: message, code }, status);
+}
+
+export function fieldErrors(error: ZodError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '_';
+    (fields[path] ||= []).push(issue.message);
+  }
+  return fields;
+}
+
+// Parses the JSON body against the schema and exposes the result as c.get('body').
+// Unknown keys are stripped, so handlers only ever see fields the schema allows.
+export function validateBody(schema: ZodTypeAny) {
+  return async (c: Context, next: Next) => {
+    let raw: unknown;
+    try {
+      raw = await c.req.json();
+    } catch {
+      return clientError(c, 400, 'invalid_json', 'Request body must be valid JSON');
+    }
+
+    const result = schema.safeParse(raw);
+    if (!result.success) {
+      return clientError(c, 400, 'validation_failed', 'Invalid request body', fieldErrors(result.error));
+    }
+
+    c.set('body', result.data);
+    await next();
+  };
+}
+
+// Limits for files uploaded with a multipart request
+export interface UploadLimits {
+  minFiles?: number;
+  maxFiles: number;
+  maxFileBytes: number;
+  // Content types accepted, when not every type is
+  accept?: RegExp;
+}
+
+export const ATTACHMENT_LIMITS: UploadLimits = {
+  maxFiles: 5,
+  maxFileBytes: 10 * 1024 * 1024
+};
+
+// A single recording. Chrome and Firefox record WebM or Ogg, Safari MP4.
+export const AUDIO_LIMITS: UploadLimits = {
+  minFiles: 1,
+  maxFiles: 1,
+  maxFileBytes: 25 * 1024 * 1024,
+  accept: /^(audio\/|video\/webm)/
+};
+
+// Room in a multipart body for the text fields and part headers, on top of the files
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+// Parses a multipart form: text fields are validated against the schema and
+// exposed as c.get('body'), the files sent under the `file` field as c.get('files').
+// File problems are reported under the "file" field. The body is only read when
+// its Content-Length fits the limits, so an oversized upload is never buffered.
+export function validateForm(schema: ZodTypeAny, limits: UploadLimits = ATTACHMENT_LIMITS) {
+  const maxBodyBytes = limits.maxFiles * limits.maxFileBytes + FORM_OVERHEAD_BYTES;
+  return async (c: Context, next: Next) => {
+    const length = c.req.header('content-length');
+    if (!length || !/^\d+$/.test(length)) {
+      return clientError(c, 411, 'length_required', 'Uploads must send a Content-Length');
+    }
+    if (parseInt(length, 10) > maxBodyBytes) {
+      return clientError(c, 413, 'payload_too_large', `Request body is larger than ${Math.round(maxBodyBytes / (1024 * 1024))} MB`);
+    }
+
+    let form: Record<string, string | File | (string | File)[]>;
+    try {
+      form = await c.req.parseBody({ all: true });
+    } catch {
+      return clientError(c, 400, 'invalid_form', 'Request body must be a valid multipart form');
+    }
+
+    const fields: Record<string, string> = {};
+    const files: File[] = [];
+    for (const [name, value] of Object.entries(form)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (typeof item === 'string') {
+          fields[name] = item;
+        } else if (name === 'file') {
+          files.push(item);
+        }
+      }
+    }
+
+    const fileErrors = [
+      ...(files.length < (limits.minFiles || 0) ? ['A file is required'] : []),
+      ...(files.length > limits.maxFiles ? [`At most ${limits.maxFiles} file${limits.maxFiles === 1 ? '' : 's'} can be uploaded at once`] : []),
+      ...files
+        .filter(file => limits.accept && !limits.accept.test(file.type))
+        .map(file => `${file.name} has an unsupported type (${file.type || 'unknown'})`),
+      ...files
+        .filter(file => file.size > limits.maxFileBytes)
+        .map(file => `${file.name} is larger than ${limits.maxFileBytes / (1024 * 1024)} MB`)
+    ];
+    const result = schema.safeParse(fields);
+    if (!result.success || fileErrors.length > 0) {
+      const errors = result.success ? {} : fieldErrors(result.error);
+      if (fileErrors.length > 0) errors.file = fileErrors;
+      return clientError(c, 400, 'validation_failed', 'Invalid request body', errors);
+    }
+
+    c.set('body', result.data);
+    c.set('files', files);
+    await next();
+  };
+}
+
+// Accepts either a JSON body (validated against `schema`, with no files) or a
+// multipart form (see validateForm).
+export function validateBodyOrForm(schema: ZodTypeAny, formSchema: ZodTypeAny, limits: UploadLimits = ATTACHMENT_LIMITS) {
+  return async (c: Context, next: Next) => {
+    if ((c.req.header('content-type') || '').toLowerCase().startsWith('multipart/form-data')) {
+      return validateForm(formSchema, limits)(c, next);
+    }
+    c.set('files', []);
+    return validateBody(schema)(c, next);
+  };
+}
+
+// Same as validateBody for the query string; the result is c.get('query')
+export function validateQuery(schema: ZodTypeAny) {
+  return async (c: Context, next: Next) => {
+    const result = schema.safeParse(c.req.query());
+    if (!result.success) {
+      return clientError(c, 400, 'validation_failed', 'Invalid query parameters', fieldErrors(result.error));
+    }
+
+    c.set('query', result.data);
+    await next();
+  };
+}
+
+// Shared field types
+
+const priority = z.enum(['high', 'medium', 'low']);
+const tags = z.array(z.string().trim().min(1).max(50)).max(50);
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Must be a valid date');
+const metadata = z.record(z.unknown());
+// Form fields are strings, so objects arrive as JSON
+const jsonObject = z.string().transform((value, ctx) => {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, unknown>;
+  } catch {
+    // reported below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a JSON object' });
+  return z.NEVER;
+});
+
+// Auth
+
+export const signupSchema = z.object({
+  email: z.string().trim().email('Must be a valid email address'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  name: z.string().trim().min(1, 'Name is required').max(100)
+});
+
+// Captures
+
+export const captureSchema = z.object({
+  type: z.enum(['email', 'note', 'task', 'idea', 'link', 'file', 'voice']),
+  content: z.string().trim().min(1, 'Content is required').max(50000),
+  source: z.string().max(200).optional(),
+  metadata: metadata.optional(),
+  priority: priority.optional()
+});
+
+// The text fields of a multipart capture upload. Content is optional when files are attached.
+export const captureFormSchema = captureSchema.extend({
+  type: captureSchema.shape.type.default('file'),
+  content: z.string().trim().max(50000).optional(),
+  metadata: jsonObject.optional()
+});
+
+// The text fields sent with a voice recording (the recording itself is the `file`)
+export const voiceCaptureFormSchema = z.object({
+  // What the browser's speech recognition heard, used by transcribers that take a hint
+  hint: z.string().max(50000).optional(),
+  language: z.string().trim().max(35).optional(),
+  durationMs: z.coerce.number().int().min(0).max(24 * 60 * 60 * 1000).optional(),
+  priority: priority.optional(),
+  metadata: jsonObject.optional()
+});
+
+export const transcribeFormSchema = voiceCaptureFormSchema.pick({ hint: true, language: true, durationMs: true });
+
+export const captureMergeSchema = z.object({
+  targetId: z.string().min(1, 'Target capture ID is required'),
+  duplicateIds: z.array(z.string().min(1)).min(1, 'At least one duplicate is required').max(50)
+});
+
+const captureStatus = z.enum(['inbox', 'actioned', 'archived', 'snoozed']);
+
+export const captureQuerySchema = z.object({
+  status: captureStatus.optional()
+});
+
+export const captureTriageSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1, 'At least one capture is required').max(100),
+  status: captureStatus,
+  // Only for 'snoozed'; defaults to a day from now
+  until: dateString.optional()
+}).refine(body => !body.until || body.status === 'snoozed', {
+  message: 'Only snoozed captures take a date',
+  path: ['until']
+});
+
+export const captureConvertSchema = z.object({
+  to: z.enum(['task', 'project']),
+  title: z.string().trim().min(1).max(200).optional(),
+  projectId: z.string().min(1).optional()
+}).refine(body => !body.projectId || body.to === 'task', {
+  message: 'Only tasks go into a project',
+  path: ['projectId']
+});
+
+// Projects and tasks
+
+const projectFields = {
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  description: z.string().max(5000).optional(),
+  status: z.enum(['active', 'completed', 'paused', 'archived']).optional(),
+  priority: priority.optional(),
+  team: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  deadline: dateString.optional(),
+  tags: tags.optional(),
+  metadata: metadata.optional()
+};
+
+export const projectCreateSchema = z.object(projectFields);
+
+// Tasks are edited through the task routes, so they can't be replaced wholesale here
+export const projectUpdateSchema = z.object({
+  ...projectFields,
+  progress: z.number().min(0).max(100).optional()
+}).partial();
+
+export const projectFromTemplateSchema = z.object({
+  template: z.string().trim().min(1, 'Template is required'),
+  customization: z.object(projectFields).partial().optional()
+});
+
+const taskStatus = z.enum(['pending', 'in_progress', 'completed', 'blocked']);
+
+const taskFields = {
+  title: z.string().trim().min(1, 'Title is required').max(500),
+  description: z.string().max(5000).optional(),
+  status: taskStatus.optional(),
+  priority: priority.optional(),
+  assignee: z.string().max(100).optional(),
+  due_date: dateString.optional(),
+  estimatedHours: z.number().nonnegative().optional(),
+  actualHours: z.number().nonnegative().optional(),
+  dependencies: z.array(z.string()).max(100).optional(),
+  tags: tags.optional()
+};
+
+export const taskCreateSchema = z.object(taskFields);
+export const taskUpdateSchema = z.object(taskFields).partial();
+
+export const taskQuerySchema = z.object({
+  status: taskStatus.optional(),
+  priority: priority.optional(),
+  assignee: z.string().optional(),
+  tag: z.string().optional(),
+  project: z.string().optional(),
+  // Only tasks outside any project, e.g. ones created from captures
+  standalone: z.literal('true').optional()
+});
+
+// AI and search
+
+export const chatSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(4000),
+  context: z.unknown().optional(),
+  conversationId: z.string().min(1).optional()
+});
+
+const conversationTitle = z.string().trim().min(1, 'Title is required').max(200);
+
+export const conversationCreateSchema = z.object({
+  title: conversationTitle.optional()
+});
+
+export const conversationUpdateSchema = z.object({
+  title: conversationTitle
+});
+
+export const messageFeedbackSchema = z.object({
+  rating: z.enum(['positive', 'negative']),
+  reason: z.string().trim().max(1000).optional()
+});
+
+export const feedbackReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional()
+});
+
+export const searchSchema = z.object({
+  query: z.string().trim().min(1, 'Query is required').max(500),
+  filters: z.object({
+    type: z.enum(['captures', 'projects', 'tasks', 'notes']).optional(),
+    status: z.string().optional(),
+    priority: z.string().optional(),
+    tag: z.string().optional(),
+    source: z.string().optional(),
+    assignee: z.string().optional(),
+    project: z.string().optional()
+  }).optional()
+});
+
+// Insights
+
+const insightState = z.enum(['new', 'seen', 'dismissed', 'snoozed', 'acted']);
+
+export const insightQuerySchema = z.object({
+  state: insightState.optional()
+});
+
+export const insightStateSchema = z.object({
+  state: insightState,
+  // Only for 'snoozed'; defaults to a day from now
+  until: dateString.optional()
+}).refine(body => !body.until || body.state === 'snoozed', {
+  message: 'Only snoozed insights take a date',
+  path: ['until']
+});
+
+export const insightFeedbackSchema = z.object({
+  useful: z.boolean(),
+  comment: z.string().trim().max(1000).optional()
+});
+
+// Assistant tool calls. The argument schemas double as the tool definitions
+// the model is shown, so every field carries a description.
+
+export const toolCallProposeSchema = z.object({
+  tool: z.string().trim().min(1, 'Tool is required'),
+  args: z.record(z.unknown()).default({}),
+  conversationId: z.string().min(1).optional()
+});
+
+export const createTaskToolSchema = z.object({
+  title: taskFields.title.describe('Short task title'),
+  description: taskFields.description.describe('Optional details'),
+  priority: taskFields.priority.describe('high, medium or low'),
+  due_date: taskFields.due_date.describe('Due date, YYYY-MM-DD'),
+  projectId: z.string().optional().describe('Project ID; defaults to the most recently updated active project')
+});
+
+export const createEventToolSchema = z.object({
+  title: taskFields.title.describe('What the event is'),
+  date: dateString.describe('When it happens, YYYY-MM-DD or an ISO timestamp'),
+  projectId: z.string().optional().describe('Project ID; defaults to the most recently updated active project')
+});
+
+export const updateTaskToolSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('ID of an existing task'),
+  updates: z.object(taskFields).partial().describe('Fields to change, e.g. {"status": "completed"}')
+});
+
+export const createNoteToolSchema = z.object({
+  content: captureSchema.shape.content.describe('The note text')
+});
+
+export const createProjectToolSchema = z.object({
+  name: projectFields.name.describe('Project name'),
+  description: projectFields.description.describe('Optional summary'),
+  priority: projectFields.priority.describe('high, medium or low'),
+  deadline: projectFields.deadline.describe('Deadline, YYYY-MM-DD')
+});
+
+export const searchToolSchema = z.object({
+  query: z.string().trim().min(1, 'Query is required').max(500).describe('Words to look for'),
+  type: z.enum(['captures', 'projects', 'tasks']).optional().describe('Limit results to one kind')
+});
+
+// Integrations
+
+export const integrationConnectSchema = z.object({
+  service: z.string().trim().min(1, 'Service is required'),
+  credentials: z.record(z.unknown()).default({})
+});
+
+export const integrationSyncSchema = z.object({
+  service: z.string().trim().min(1, 'Service is required')
+});
+
+// Settings. Sections may be partial; missing fields keep their defaults.
+
+export const settingsSchema = z.object({
+  ai: z.object({
+    learningMode: z.boolean(),
+    predictiveSuggestions: z.boolean(),
+    autoCategorization: z.boolean(),
+    smartNotifications: z.boolean(),
+    learningIntensity: z.number().min(0).max(100)
+  }).partial().optional(),
+  privacy: z.object({
+    dataEncryption: z.boolean(),
+    anonymousAnalytics: z.boolean(),
+    localProcessing: z.boolean(),
+    thirdPartySharing: z.boolean()
+  }).partial().optional(),
+  notifications: z.object({
+    dailySummary: z.boolean(),
+    taskReminders: z.boolean(),
+    focusBreaks: z.boolean(),
+    weeklyInsights: z.boolean()
+  }).partial().optional(),
+  appearance: z.object({
+    darkMode: z.boolean(),
+    interfaceDensity: z.enum(['compact', 'comfortable', 'spacious']),
+    soundEffects: z.boolean()
+  }).partial().optional(),
+  advanced: z.object({
+    syncFrequency: z.number().int().min(10).max(300),
+    developerMode: z.boolean()
+  }).partial().optional()
+});
+
+// Notifications
+
+export const notificationQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional()
+});
+
+// Batch operations
+
+export const batchSchema = z.object({
+  operations: z.array(z.discriminatedUnion('type', [
+    z.object({ type: z.literal('capture'), id: z.string().optional(), data: captureSchema }),
+    z.object({ type: z.literal('project_update'), id: z.string().min(1, 'Project ID is required'), data: projectUpdateSchema })
+  ])).min(1, 'At least one operation is required').max(100)
+});
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+
+// Microphone recording for voice capture and dictation. Audio is recorded with
+// MediaRecorder; where the browser also has speech recognition (Chrome, Edge,
+// Safari) it runs alongside, and what it heard is sent with the recording as the
+// transcription hint (see transcriber.tsx on the server).
+
+export interface VoiceRecording {
+  blob: Blob;
+  durationMs: number;
+  // What the browser's speech recognition heard; empty when it has none
+  hint: string;
+  language: string;
+}
+
+interface RecordingSession {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  chunks: Blob[];
+  recognition: any;
+  startedAt: number;
+  timer: number;
+  text: string;
+}
+
+// In order of preference; Safari only records MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const FILE_EXTENSIONS: Record<string, string> = { webm: 'webm', ogg: 'ogg', mp4: 'm4a', mpeg: 'mp3', wav: 'wav' };
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// The file name the recording is uploaded as, e.g. "recording.webm"
+export const recordingFileName = (recording: VoiceRecording) => {
+  const subtype = recording.blob.type.split(';')[0].split('/')[1] || '';
+  return `recording.${FILE_EXTENSIONS[subtype] || 'webm'}`;
+};
+
+// "1:05"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // The speech recognised so far, while recording
+  const [liveText, setLiveText] = useState("");
+  const sessionRef = useRef<RecordingSession | null>(null);
+  // Set while waiting for the microphone, so a second click doesn't open another stream
+  const startingRef = useRef(false);
+
+  const release = (session: RecordingSession) => {
+    clearInterval(session.timer);
+    session.stream.getTracks().forEach(track => track.stop());
+    try {
+      session.recognition?.stop();
+    } catch {
+      // Already stopped
+    }
+  };
+
+  // Leaving the view mid-recording discards it and frees the microphone
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    if (session) {
+      session.recorder.onstop = null;
+      session.recorder.stop();
+      release(session);
+    }
+  }, []);
+
+  // Asks for the microphone the first time; rejects if the user denies it
+  const start = async () => {
+    if (sessionRef.current || startingRef.current) return;
+    if (!isRecordingSupported()) {
+      throw new Error("This browser can't record audio");
+    }
+
+    startingRef.current = true;
+    let stream: MediaStream | null = null;
+    let session: RecordingSession;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      session = { recorder, stream, chunks: [], recognition: null, startedAt: Date.now(), timer: 0, text: "" };
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) session.chunks.push(event.data);
+      };
+      recorder.start(250);
+    } catch (err) {
+      // The microphone stays in use until its tracks are stopped
+      stream?.getTracks().forEach(track => track.stop());
+      throw err;
+    } finally {
+      startingRef.current = false;
+    }
+
+    const Recognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (Recognition) {
+      const recognition = new Recognition();
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.lang = navigator.language;
+      recognition.onresult = (event: any) => {
+        session.text = Array.from(event.results as ArrayLike<any>).map(result => result[0].transcript).join('').trim();
+        setLiveText(session.text);
+      };
+      // Recognition is only a hint, so the recording carries on without it
+      recognition.onerror = (event: any) => console.log('Speech recognition error:', event.error);
+      try {
+        recognition.start();
+        session.recognition = recognition;
+      } catch (err) {
+        console.log('Speech recognition unavailable:', err);
+      }
+    }
+
+    session.timer = window.setInterval(() => setElapsedMs(Date.now() - session.startedAt), 250);
+    sessionRef.current = session;
+    setElapsedMs(0);
+    setLiveText("");
+    setIsRecording(true);
+  };
+
+  // Resolves with the recording once the recorder has handed over its last chunk
+  const stop = (): Promise<VoiceRecording | null> => {
+    const session = sessionRef.current;
+    if (!session) return Promise.resolve(null);
+    sessionRef.current = null;
+    setIsRecording(false);
+
+    const durationMs = Date.now() - session.startedAt;
+    return new Promise(resolve => {
+      session.recorder.onstop = () => {
+        release(session);
+        resolve({
+          blob: new Blob(session.chunks, { type: session.recorder.mimeType || 'audio/webm' }),
+          durationMs,
+          hint: session.text,
+          language: navigator.language
+        });
+      };
+      session.recorder.stop();
+    });
+  };
+
+  return { isRecording, elapsedMs, liveText, start, stop };
+}